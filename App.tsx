@@ -1,4 +1,4 @@
-import React, { useState } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import { 
   Palette, 
   Wand2, 
@@ -26,11 +26,70 @@ import {
   Images,
   Save,
   Bookmark,
-  BrickWall
+  BrickWall,
+  Eraser,
+  Droplet,
+  Pipette,
+  Play,
+  ArrowLeft,
+  ArrowRight,
+  Download,
+  Tag,
+  FileArchive,
+  Package,
+  Library,
+  Cpu,
+  Server,
+  ListChecks,
+  Upload,
+  Pause,
+  RotateCcw,
+  X,
+  Compass,
+  Crosshair,
+  ScanLine,
+  Blend,
+  Grid3x3,
+  LayoutGrid,
+  Map as MapIcon
 } from 'lucide-react';
-import { AppMode, SpriteSize, ArtStyle } from './types';
-import * as GeminiService from './services/geminiService';
+import { AppMode, SpriteSize, ArtStyle, HistoryOperation, GeneratedAsset, ModelTier, ImageResolution, Variation, Direction } from './types';
+import { DEFAULT_PROVIDER_SETTINGS, ProviderSettings } from './services/imageProvider';
+import { PROVIDER_OPTIONS, createImageProvider } from './services/providers';
+import { ImageErrorType, cancelledError, toImageServiceError } from './services/serviceErrors';
+import * as LibraryService from './services/assetLibrary';
 import PixelEditor from './components/PixelEditor';
+import HistoryTimeline from './components/HistoryTimeline';
+import AnimationPreview from './components/AnimationPreview';
+import AssetLibrary from './components/AssetLibrary';
+import VariationGrid from './components/VariationGrid';
+import BatchQueue from './components/BatchQueue';
+import TurnaroundGrid from './components/TurnaroundGrid';
+import AutotileGrid from './components/AutotileGrid';
+import AnimationSetList from './components/AnimationSetList';
+import MapBrushList from './components/MapBrushList';
+import { chromaKeyImage, DEFAULT_CHROMA_KEY_OPTIONS } from './utils/chromaKey';
+import { enforcePixelSize, enforceSpriteSize, snapImageToPixelGrid, snapToPixelGrid } from './utils/pixelGrid';
+import { sliceAnimationStrip } from './utils/frameSlicer';
+import { AnimationFormat, EXPORT_SCALES, exportAnimation } from './utils/animationExport';
+import { downloadBlob } from './utils/download';
+import { EMPTY_HISTORY, ImageHistory, canRedo, canUndo, getActivePath, getCurrentEntry, jumpToHistory, pushHistory, redoHistory, undoHistory } from './utils/history';
+import { AtlasFormat, ATLAS_FORMATS, serializeAtlas } from './utils/atlasFormats';
+import { dataUrlToBytes, flipImageHorizontal, getPixelBuffer, pixelBufferToDataUrl, resamplePixelBuffer } from './utils/imageData';
+import { AssembledSheet, Rect, SheetItem, alignmentPivot, assembleGridSheet, assemblePackedSheet } from './utils/spriteSheet';
+import { SheetOverflowError } from './utils/binPacking';
+import { createZip } from './utils/zip';
+import { runWithConcurrency } from './utils/concurrency';
+import { ANIMATION_PRESETS, AnimationSetEntry, DEFAULT_ANIMATION_SET, alignFrameToCell, animationSetSheetItems, commonCellSize, createAnimationSetEntry, matchReferenceScale, uniqueActionName } from './utils/animationSet';
+import { FrameAnchor, stabilizeFrames } from './utils/frameAlign';
+import { AutotileLayout, AutotileSet, AutotileSlice, TilePosition, buildAutotileSet, sliceAutotileGrid } from './utils/autotile';
+import { TilesetDescription, describeAutotileSet, describeSingleTile, serializeGodotTileSet, serializeTiledMap, serializeTiledTileset } from './utils/tilesetFormats';
+import { MAP_SIZES, MapBrush, TileMap, brushPreview, createTileMap, eraseBrush, mapCellSize, paintCell, renderTileMap, resizeTileMap } from './utils/tileMap';
+import { SEAM_REPAIR_INSTRUCTION, SeamReport, isSeamless, measureSeams, offsetByHalf, repairSeams, restoreEdges } from './utils/seamlessTile';
+import { EIGHT_DIRECTIONS, FOUR_DIRECTIONS, MIRRORED_DIRECTIONS, TurnaroundView, defaultDirections, planTurnaround, turnaroundSheetItems } from './utils/turnaround';
+import { BatchJob, createBatchJobs, failBatchJob, nextBatchJob, parseBatchInput, restoreBatchJobs, retryFailedBatchJobs } from './utils/batchJobs';
+import { slugify } from './utils/naming';
+import { BUILT_IN_PALETTES, PALETTE_AUTO, PALETTE_NONE, Palette as ColorPalette, STYLE_PALETTES, parsePaletteText, quantizeImage, resolvePalette } from './utils/palette';
 
 // Define the global aistudio interface by augmenting the existing interface
 declare global {
@@ -46,12 +105,47 @@ interface SavedStyle {
     prompt: string;
 }
 
+// User-facing message for each kind of provider failure
+const ERROR_MESSAGES: Record<ImageErrorType, string> = {
+    'auth': 'API key không hợp lệ hoặc không có quyền truy cập.',
+    'quota': 'Đã vượt hạn mức yêu cầu. Vui lòng đợi một lát rồi thử lại.',
+    'safety': 'Yêu cầu bị bộ lọc an toàn chặn. Hãy thử mô tả khác.',
+    'no-image': 'Mô hình không trả về ảnh.',
+    'network': 'Không kết nối được tới máy chủ. Đã thử lại nhưng vẫn lỗi.',
+    'cancelled': 'Đã hủy yêu cầu.',
+    'unknown': 'Đã xảy ra lỗi trong quá trình tạo.',
+};
+
+const describeError = (err: unknown) => {
+    const error = toImageServiceError(err);
+    // Keep the model's own explanation (a refusal, a partial answer) next to the generic text
+    const detail = error.type === 'no-image' || error.type === 'unknown' ? ` ${error.message}` : '';
+    return ERROR_MESSAGES[error.type] + detail;
+};
+
+// Operations whose results are recorded in the asset library
+const LIBRARY_ASSET_TYPES: Partial<Record<HistoryOperation, GeneratedAsset['type']>> = {
+    'generate': 'sprite',
+    'edit': 'sprite',
+    'style-transfer': 'sprite',
+    'animate': 'animation',
+    'background': 'background',
+    'tile': 'tile',
+    'seam-repair': 'tile',
+};
+
+const MAX_VARIATIONS = 8;
+const GENERATION_CONCURRENCY = 3; // Parallel requests for variations and batch jobs; more tends to hit the rate limit
+
 const App: React.FC = () => {
   // State
   const [currentMode, setCurrentMode] = useState<AppMode>(AppMode.TEXT_TO_SPRITE);
   const [isSidebarOpen, setIsSidebarOpen] = useState(false); // Collapsed by default for more space
-  const [generatedImage, setGeneratedImage] = useState<string | null>(null);
+  const [history, setHistory] = useState<ImageHistory>(EMPTY_HISTORY);
+  const generatedImage = getCurrentEntry(history)?.imageUrl ?? null;
   const [isGenerating, setIsGenerating] = useState(false);
+  const [isCancellable, setIsCancellable] = useState(false); // A provider request is in flight
+  const activeRequest = useRef<AbortController | null>(null);
   const [error, setError] = useState<string | null>(null);
 
   // Form States
@@ -59,6 +153,28 @@ const App: React.FC = () => {
   const [size, setSize] = useState<SpriteSize>(SpriteSize.S32);
   const [style, setStyle] = useState<ArtStyle>(ArtStyle.RETRO_16BIT);
   const [customStyle, setCustomStyle] = useState('');
+  const [enforceSize, setEnforceSize] = useState(true); // Resample the model's fake pixels down to the real sprite size
+  const [modelTier, setModelTier] = useState<ModelTier>(ModelTier.STANDARD);
+  const [resolution, setResolution] = useState<ImageResolution>(ImageResolution.R1K);
+  const [variationCount, setVariationCount] = useState(1); // 1 = single image straight into the editor
+  const [variations, setVariations] = useState<Variation[]>([]);
+  const [selectedVariationIds, setSelectedVariationIds] = useState<Set<string>>(new Set());
+  const [promotedVariationId, setPromotedVariationId] = useState<string | null>(null);
+
+  // Image Provider
+  const [providerSettings, setProviderSettings] = useState<ProviderSettings>(() => {
+    try {
+        const saved = localStorage.getItem('pixelDreamer_providerSettings');
+        return saved ? { ...DEFAULT_PROVIDER_SETTINGS, ...JSON.parse(saved) } : DEFAULT_PROVIDER_SETTINGS;
+    } catch {
+        return DEFAULT_PROVIDER_SETTINGS;
+    }
+  });
+  const provider = useMemo(() => createImageProvider(providerSettings), [providerSettings]);
+
+  useEffect(() => {
+    localStorage.setItem('pixelDreamer_providerSettings', JSON.stringify(providerSettings));
+  }, [providerSettings]);
   
   // Custom Style Management
   const [savedStyles, setSavedStyles] = useState<SavedStyle[]>(() => {
@@ -70,29 +186,165 @@ const App: React.FC = () => {
     }
   });
   const [styleName, setStyleName] = useState('');
+
+  // Palette Lock
+  const [paletteSelection, setPaletteSelection] = useState<string>(PALETTE_AUTO);
+  const [paletteDither, setPaletteDither] = useState(false);
+  const [customPalettes, setCustomPalettes] = useState<ColorPalette[]>(() => {
+    try {
+        const saved = localStorage.getItem('pixelDreamer_customPalettes');
+        return saved ? JSON.parse(saved) : [];
+    } catch {
+        return [];
+    }
+  });
+  const [paletteName, setPaletteName] = useState('');
+  const [paletteText, setPaletteText] = useState('');
   
   // Animation States
   const [animationAction, setAnimationAction] = useState('Walk Cycle');
   const [animFrameCount, setAnimFrameCount] = useState<number>(4);
   const [animFps, setAnimFps] = useState<number>(8);
   const [animLoop, setAnimLoop] = useState<boolean>(true);
+  const [animationFrames, setAnimationFrames] = useState<string[]>([]);
+  const [editingFrameIndex, setEditingFrameIndex] = useState<number | null>(null); // Frame currently opened in the editor
+  const [exportScale, setExportScale] = useState<number>(4);
+  const [frameAnchor, setFrameAnchor] = useState<FrameAnchor>('bottom'); // Shared pivot of stabilized frames and set cells
+  const [animStabilize, setAnimStabilize] = useState(true);
+
+  // Frames before and after the one open in the editor, wrapping around for looping animations
+  const onionSkinFrames = useMemo(() => {
+    if (editingFrameIndex === null || animationFrames[editingFrameIndex] !== generatedImage) return undefined;
+    const count = animationFrames.length;
+    const neighbours = [editingFrameIndex - 1, editingFrameIndex + 1]
+        .map(i => (animLoop ? (i + count) % count : i))
+        .filter(i => i >= 0 && i < count && i !== editingFrameIndex);
+    return [...new Set(neighbours)].map(i => animationFrames[i]);
+  }, [editingFrameIndex, animationFrames, generatedImage, animLoop]);
+
+  // Animation Set States
+  const [animationSet, setAnimationSet] = useState<AnimationSetEntry[]>(() =>
+    DEFAULT_ANIMATION_SET.reduce<AnimationSetEntry[]>((set, name) => [
+        ...set,
+        createAnimationSetEntry(ANIMATION_PRESETS.find(p => p.name === name)!, set.map(e => e.name), LibraryService.createAssetId()),
+    ], [])
+  );
+  const [animationSetReference, setAnimationSetReference] = useState<string | null>(null);
+  const [animationSetPreset, setAnimationSetPreset] = useState(ANIMATION_PRESETS[0].name);
   
+  // Background Removal States
+  const [keySource, setKeySource] = useState<{ source: string; keyed: string } | null>(null); // Raw magenta image behind the current keyed result
+  const [keyTolerance, setKeyTolerance] = useState<number>(DEFAULT_CHROMA_KEY_OPTIONS.tolerance);
+  const [keyDefringe, setKeyDefringe] = useState<boolean>(DEFAULT_CHROMA_KEY_OPTIONS.defringe);
+
   // Tile States
   const [tileType, setTileType] = useState<'seamless' | 'autotile'>('seamless');
+  const [seamReport, setSeamReport] = useState<SeamReport | null>(null); // Wrap check of the seamless tile on screen
+  const [autoRepairSeams, setAutoRepairSeams] = useState(true);
+  const checksSeams = currentMode === AppMode.TILE_GENERATOR && tileType === 'seamless';
+  const [autotileSlice, setAutotileSlice] = useState<(AutotileSlice & { urls: Record<TilePosition, string>; name: string }) | null>(null);
+  const [autotileLayout, setAutotileLayout] = useState<AutotileLayout>('blob47');
+  const [autotileSet, setAutotileSet] = useState<(AutotileSet & { url: string; name: string }) | null>(null);
+
+  // Map Painter States
+  const [mapBrushes, setMapBrushes] = useState<(MapBrush & { url: string })[]>([]);
+  const [activeMapBrush, setActiveMapBrush] = useState<string | null>(null);
+  const [tileMap, setTileMap] = useState<TileMap>(() => createTileMap(MAP_SIZES[1].width, MAP_SIZES[1].height));
+  const mapCell = mapCellSize(mapBrushes);
+  const mapPixels = useMemo(
+    () => (mapBrushes.length > 0 ? renderTileMap(tileMap, mapBrushes, mapCell) : null),
+    [tileMap, mapBrushes, mapCell]
+  );
+  const mapGrid = useMemo<Rect[]>(
+    () => Array.from({ length: tileMap.width * tileMap.height }, (_, i) => ({
+        x: (i % tileMap.width) * mapCell,
+        y: Math.floor(i / tileMap.width) * mapCell,
+        width: mapCell,
+        height: mapCell,
+    })),
+    [tileMap.width, tileMap.height, mapCell]
+  );
 
   // Feature States
   const [editPrompt, setEditPrompt] = useState('');
 
+  // Style Transfer States
+  const [transferSource, setTransferSource] = useState<{ url: string; name: string } | null>(null); // Uploaded image waiting to be converted
+  const [transferOutline, setTransferOutline] = useState(true);
+  const [transferComparison, setTransferComparison] = useState<{ source: string; result: string } | null>(null); // Before and after of the last conversion
+
+  // Asset Library States
+  const [assets, setAssets] = useState<GeneratedAsset[]>([]);
+  // Model behind the image on screen, or the selected one before anything is generated
+  const currentModel = assets.find(a => a.url === generatedImage)?.model ?? provider.modelName(modelTier);
+
+  useEffect(() => {
+    LibraryService.listAssets()
+        .then(setAssets)
+        .catch(e => console.error("Error loading asset library", e));
+  }, []);
+
   // Sprite Sheet States
-  const [sheetImages, setSheetImages] = useState<string[]>([]);
+  const [sheetImages, setSheetImages] = useState<SheetItem[]>([]);
+  const [sheetTag, setSheetTag] = useState(''); // Animation tag given to newly added images
+  const [atlasFormat, setAtlasFormat] = useState<AtlasFormat>('texturepacker-hash');
   const [sheetColumns, setSheetColumns] = useState(4);
   const [sheetSpacing, setSheetSpacing] = useState(0);
   const [sheetVerticalAlignment, setSheetVerticalAlignment] = useState<'top' | 'center' | 'bottom'>('bottom');
   const [sheetHorizontalAlignment, setSheetHorizontalAlignment] = useState<'left' | 'center' | 'right'>('center');
+  const [sheetLayout, setSheetLayout] = useState<'grid' | 'packed'>('grid');
+  const [sheetTrim, setSheetTrim] = useState(true);
+  const [sheetExtrude, setSheetExtrude] = useState(1);
+  const [sheetPowerOfTwo, setSheetPowerOfTwo] = useState(false);
+  const [sheetMaxSize, setSheetMaxSize] = useState(2048);
+  const [sheetRegions, setSheetRegions] = useState<{ imageUrl: string; rects: Rect[] } | null>(null); // Frame rects of the last assembled sheet
+  const [sheetRowPerTag, setSheetRowPerTag] = useState(false);
+
+  // Turnaround States
+  const [turnaroundDirections, setTurnaroundDirections] = useState<Direction[] | null>(null); // null = follow the art style
+  const [turnaroundMirror, setTurnaroundMirror] = useState(true);
+  const [turnaroundKeepFront, setTurnaroundKeepFront] = useState(true);
+  const [turnaroundViews, setTurnaroundViews] = useState<TurnaroundView[]>([]);
+  const [turnaroundReference, setTurnaroundReference] = useState<string | null>(null);
+  const activeDirections = turnaroundDirections ?? defaultDirections(style);
+
+  // Batch Job States
+  const [batchText, setBatchText] = useState('');
+  const [batchJobs, setBatchJobs] = useState<BatchJob[]>(() => {
+    try {
+        const saved = localStorage.getItem('pixelDreamer_batchQueue');
+        return saved ? restoreBatchJobs(JSON.parse(saved)) : [];
+    } catch {
+        return [];
+    }
+  });
+  const [isBatchRunning, setIsBatchRunning] = useState(false);
+  const batchRequest = useRef<AbortController | null>(null);
+  // Latest queue, so a running batch picks up jobs queued, removed or retried meanwhile
+  const batchQueueRef = useRef<BatchJob[]>(batchJobs);
+  const updateBatchJobs = (change: (jobs: BatchJob[]) => BatchJob[]) => {
+    batchQueueRef.current = change(batchQueueRef.current);
+    setBatchJobs(batchQueueRef.current);
+  };
+
+  // Results live in the asset library; the queue only keeps their ids
+  const batchResultUrls = useMemo(() => {
+    const urls: Record<string, string> = {};
+    batchJobs.forEach(job => {
+        const url = job.assetId && assets.find(a => a.id === job.assetId)?.url;
+        if (url) urls[job.id] = url;
+    });
+    return urls;
+  }, [batchJobs, assets]);
+
+  useEffect(() => {
+    localStorage.setItem('pixelDreamer_batchQueue', JSON.stringify(batchJobs));
+  }, [batchJobs]);
 
   // Utilities
   const ensureApiKey = async () => {
-    if (window.aistudio) {
+    // Key selection only applies to the hosted Gemini backend
+    if (provider.id === 'gemini' && window.aistudio) {
       const hasKey = await window.aistudio.hasSelectedApiKey();
       if (!hasKey) {
         await window.aistudio.openSelectKey();
@@ -101,31 +353,135 @@ const App: React.FC = () => {
   };
 
   const handleApiError = async (err: any) => {
-    const errorMessage = err.message || err.toString();
-    console.error("API Error:", errorMessage);
-    
-    // Handle Permission Denied (403) or Not Found (404) or Refusals by forcing key selection
-    if (
-        errorMessage.includes("403") || 
-        errorMessage.includes("Permission") || 
-        errorMessage.includes("permission") ||
-        errorMessage.includes("not found") ||
-        errorMessage.includes("404") ||
-        errorMessage.includes("API key")
-    ) {
-        if (window.aistudio) {
-            try {
-                await window.aistudio.openSelectKey();
-                setError("Đã cập nhật quyền truy cập. Vui lòng thử lại.");
-                return;
-            } catch (selectErr) {
-                console.error("Key selection failed", selectErr);
-            }
+    const error = toImageServiceError(err);
+    console.error("API Error:", error.type, error.message);
+
+    // A rejected or missing key: let the user pick another one and try again
+    if (error.type === 'auth' && provider.id === 'gemini' && window.aistudio) {
+        try {
+            await window.aistudio.openSelectKey();
+            setError("Đã cập nhật quyền truy cập. Vui lòng thử lại.");
+            return;
+        } catch (selectErr) {
+            console.error("Key selection failed", selectErr);
         }
     }
-    setError(errorMessage || 'Đã xảy ra lỗi trong quá trình tạo.');
+    setError(describeError(error));
+  };
+
+  // Cancellable provider requests: only one runs at a time, and a newer one aborts the older.
+  // Handlers check the signal before committing, so a late response never reaches the editor.
+  const beginRequest = () => {
+    activeRequest.current?.abort();
+    const controller = new AbortController();
+    activeRequest.current = controller;
+    setIsGenerating(true);
+    setIsCancellable(true);
+    setError(null);
+    return controller.signal;
+  };
+
+  const endRequest = (signal: AbortSignal) => {
+    if (activeRequest.current?.signal !== signal) return; // Superseded or cancelled already
+    activeRequest.current = null;
+    setIsGenerating(false);
+    setIsCancellable(false);
+  };
+
+  // True once a newer request has taken over; its results own the shared state from then on
+  const isSuperseded = (signal: AbortSignal) => signal.aborted && activeRequest.current !== null && activeRequest.current.signal !== signal;
+
+  const handleCancelRequest = () => {
+    if (!activeRequest.current) return;
+    activeRequest.current.abort();
+    activeRequest.current = null;
+    setIsGenerating(false);
+    setIsCancellable(false);
   };
 
+  // Leaving a mode abandons whatever it was generating
+  useEffect(() => {
+    handleCancelRequest();
+  }, [currentMode]);
+
+  // History: every image shown in the editor is recorded so any step can be restored or branched from
+  const commitImage = (imageUrl: string, operation: HistoryOperation, operationPrompt?: string, model?: string) => {
+    setHistory(h => pushHistory(h, imageUrl, operation, operationPrompt));
+    const assetType = LIBRARY_ASSET_TYPES[operation];
+    if (assetType) recordAsset(imageUrl, assetType, operationPrompt, model);
+  };
+
+  // Asset Library Handlers
+  const recordAsset = (
+    url: string,
+    type: GeneratedAsset['type'],
+    assetPrompt = '',
+    model = provider.modelName(ModelTier.STANDARD),
+    details: Partial<GeneratedAsset> = {}
+  ) => {
+    const usesStyle = currentMode === AppMode.TEXT_TO_SPRITE || currentMode === AppMode.TILE_GENERATOR || currentMode === AppMode.STYLE_TRANSFER;
+    const asset: GeneratedAsset = {
+        id: LibraryService.createAssetId(),
+        url,
+        prompt: assetPrompt,
+        type,
+        timestamp: Date.now(),
+        mode: currentMode,
+        style: usesStyle ? (style === ArtStyle.CUSTOM ? customStyle : style) : undefined,
+        size: currentMode === AppMode.TEXT_TO_SPRITE || currentMode === AppMode.STYLE_TRANSFER ? size : undefined,
+        // The image on screen when the operation started is what it was derived from
+        parentId: assets.find(a => a.url === generatedImage)?.id,
+        model,
+        tags: [],
+        favorite: false,
+        ...details,
+    };
+    setAssets(prev => [asset, ...prev]);
+    LibraryService.saveAsset(asset).catch(e => console.error("Error saving asset", e));
+    return asset;
+  };
+
+  const handleLoadAsset = (asset: GeneratedAsset) => {
+    commitImage(asset.url, 'library', asset.prompt);
+  };
+
+  const handleAddAssetsToSheet = (list: GeneratedAsset[]) => {
+    setSheetImages(prev => [...prev, ...list.map(a => ({ src: a.url, name: slugify(a.prompt) || 'sprite', tag: sheetTag.trim() || undefined }))]);
+  };
+
+  const updateLibraryAsset = (id: string, changes: Partial<GeneratedAsset>) => {
+    setAssets(prev => prev.map(a => (a.id === id ? { ...a, ...changes } : a)));
+    LibraryService.updateAsset(id, changes).catch(e => console.error("Error updating asset", e));
+  };
+
+  const handleDeleteAssets = (ids: string[]) => {
+    setAssets(prev => prev.filter(a => !ids.includes(a.id)));
+    LibraryService.deleteAssets(ids).catch(e => console.error("Error deleting assets", e));
+  };
+
+  const handleUndo = () => setHistory(undoHistory);
+  const handleRedo = () => setHistory(redoHistory);
+
+  useEffect(() => {
+    const handleKeyDown = (e: KeyboardEvent) => {
+        if (!(e.ctrlKey || e.metaKey)) return;
+        // Leave text fields their native undo
+        const target = e.target as HTMLElement;
+        if (target.tagName === 'INPUT' || target.tagName === 'TEXTAREA' || target.tagName === 'SELECT') return;
+
+        const key = e.key.toLowerCase();
+        if (key === 'z' && !e.shiftKey) {
+            e.preventDefault();
+            setHistory(undoHistory);
+        } else if ((key === 'z' && e.shiftKey) || key === 'y') {
+            e.preventDefault();
+            setHistory(redoHistory);
+        }
+    };
+    window.addEventListener('keydown', handleKeyDown);
+    return () => window.removeEventListener('keydown', handleKeyDown);
+  }, []);
+
   // Custom Style Handlers
   const saveCustomStyle = () => {
     if(!customStyle.trim() || !styleName.trim()) return;
@@ -146,43 +502,169 @@ const App: React.FC = () => {
     setCustomStyle(prompt);
   };
 
+  // Custom Palette Handlers
+  const saveCustomPalette = () => {
+    const colors = parsePaletteText(paletteText);
+    if (!paletteName.trim() || colors.length === 0) return;
+    const newPalette = { id: `custom-${Date.now()}`, name: paletteName, colors };
+    const updated = [...customPalettes, newPalette];
+    setCustomPalettes(updated);
+    localStorage.setItem('pixelDreamer_customPalettes', JSON.stringify(updated));
+    setPaletteSelection(newPalette.id);
+    setPaletteName('');
+    setPaletteText('');
+  };
+
+  const deleteCustomPalette = (id: string) => {
+    const updated = customPalettes.filter(p => p.id !== id);
+    setCustomPalettes(updated);
+    localStorage.setItem('pixelDreamer_customPalettes', JSON.stringify(updated));
+    if (paletteSelection === id) setPaletteSelection(PALETTE_AUTO);
+  };
+
+  // Palette lock: every generated or uploaded image passes through here before reaching the editor
+  const applyPaletteLock = async (imageUrl: string) => {
+    const palette = resolvePalette(paletteSelection, style, customPalettes);
+    return palette ? quantizeImage(imageUrl, palette, { dither: paletteDither }) : imageUrl;
+  };
+
+  const handleApplyPaletteNow = async () => {
+    if (!generatedImage) return;
+    setError(null);
+    try {
+        commitImage(await applyPaletteLock(generatedImage), 'palette');
+    } catch (e) {
+        console.error("Error quantizing image", e);
+        setError("Không thể áp dụng bảng màu");
+    }
+  };
+
+  // Runs one generation for the current mode and returns the post-processed image
+  const generateOne = async (signal: AbortSignal) => {
+    const effectiveStyle = style === ArtStyle.CUSTOM ? customStyle : style;
+    const isPro = modelTier === ModelTier.PRO;
+    const model = provider.modelName(modelTier);
+
+    if (currentMode === AppMode.TILE_GENERATOR) {
+      const result = await provider.generateTileSet({ prompt, type: tileType, style: effectiveStyle, tier: modelTier, resolution }, signal);
+      const snapped = isPro ? await snapImageToPixelGrid(result) : result;
+      return { url: await applyPaletteLock(snapped), operation: 'tile' as HistoryOperation, model };
+    }
+    // The pro model renders at 1K-4K, so its output always goes through the grid downsampler
+    const result = await provider.generateSprite({ prompt, size, style: effectiveStyle, tier: modelTier, resolution }, signal);
+    const resized = enforceSize || isPro ? await enforceSpriteSize(result, size) : result;
+    return { url: await applyPaletteLock(resized), operation: 'generate' as HistoryOperation, model };
+  };
+
   // Handlers
   const handleGenerate = async () => {
     if (!prompt) return;
-    setIsGenerating(true);
-    setError(null);
-    await ensureApiKey();
-
+    if (variationCount > 1) return handleGenerateVariations();
+    const signal = beginRequest();
     try {
-      const effectiveStyle = style === ArtStyle.CUSTOM ? customStyle : style;
-      
-      if (currentMode === AppMode.TEXT_TO_SPRITE) {
-        const result = await GeminiService.generateStandardSprite(prompt, size, effectiveStyle);
-        setGeneratedImage(result);
-      } else if (currentMode === AppMode.TILE_GENERATOR) {
-        const result = await GeminiService.generateTileSet(prompt, tileType, effectiveStyle);
-        setGeneratedImage(result);
+      await ensureApiKey();
+      const generated = await generateOne(signal);
+      let { url, operation } = generated;
+      // The prompt only asks for a seamless texture; fix the wrap here when the model missed it
+      if (operation === 'tile' && tileType === 'seamless' && autoRepairSeams) {
+          const tile = await getPixelBuffer(url);
+          if (!isSeamless(measureSeams(tile))) {
+              url = await applyPaletteLock(pixelBufferToDataUrl(repairSeams(tile)));
+              operation = 'seam-repair';
+          }
       }
+      signal.throwIfAborted();
+      commitImage(url, operation, prompt, generated.model);
+      // The new asset only shows up in `assets` on the next render, so its name is passed along
+      if (operation === 'tile' && tileType === 'autotile') await handleSliceAutotile(url, slugify(prompt) || 'tileset');
+    } catch (err: any) {
+      if (!signal.aborted) await handleApiError(err);
+    } finally {
+      endRequest(signal);
+    }
+  };
+
+  const handleGenerateVariations = async () => {
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+
+        const batch: Variation[] = Array.from({ length: variationCount }, () => ({
+            id: LibraryService.createAssetId(),
+            status: 'pending',
+            operation: currentMode === AppMode.TILE_GENERATOR ? 'tile' : 'generate',
+            prompt,
+            model: provider.modelName(modelTier),
+        }));
+        const update = (id: string, changes: Partial<Variation>) =>
+            setVariations(prev => prev.map(v => (v.id === id ? { ...v, ...changes } : v)));
+
+        setVariations(batch);
+        setSelectedVariationIds(new Set());
+        setPromotedVariationId(null);
+
+        const results = await runWithConcurrency(batch.length, GENERATION_CONCURRENCY, async (i) => {
+            signal.throwIfAborted();
+            update(batch[i].id, { status: 'running' });
+            const { url } = await generateOne(signal);
+            signal.throwIfAborted();
+            update(batch[i].id, { status: 'done', url });
+        });
+
+        // Once cancelled, every unfinished variation reports that instead of its own error
+        results.forEach((r, i) => {
+            if (r.status === 'rejected') update(batch[i].id, { status: 'error', error: describeError(signal.aborted ? cancelledError() : r.reason) });
+        });
+
+        // Only surface an error when nothing came back; partial failures stay on their tiles
+        const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (!signal.aborted && failures.length === batch.length) await handleApiError(failures[0].reason);
     } catch (err: any) {
-      await handleApiError(err);
+        if (isSuperseded(signal)) return;
+        if (!signal.aborted) await handleApiError(err);
     } finally {
-      setIsGenerating(false);
+        endRequest(signal);
     }
   };
 
+  const handlePromoteVariation = (variation: Variation) => {
+    if (!variation.url || variation.id === promotedVariationId) return;
+    commitImage(variation.url, variation.operation, variation.prompt, variation.model);
+    setPromotedVariationId(variation.id);
+  };
+
+  const handleToggleVariation = (id: string) => {
+    setSelectedVariationIds(prev => {
+        const next = new Set(prev);
+        if (next.has(id)) next.delete(id);
+        else next.add(id);
+        return next;
+    });
+  };
+
+  const handleSendVariationsToSheet = (list: Variation[]) => {
+    const tag = sheetTag.trim() || undefined;
+    setSheetImages(prev => [
+        ...prev,
+        ...list.map((v, i) => ({ src: v.url!, name: tag ? `${tag}_${prev.length + i}` : `variation_${prev.length + i}`, tag })),
+    ]);
+    setSelectedVariationIds(new Set());
+  };
+
   const handleEdit = async () => {
     if (!generatedImage || !editPrompt) return;
-    setIsGenerating(true);
-    setError(null);
-    await ensureApiKey();
+    const signal = beginRequest();
     try {
-        const result = await GeminiService.editPixelSprite(generatedImage, editPrompt);
-        setGeneratedImage(result);
+        await ensureApiKey();
+        const result = await provider.editSprite(generatedImage, editPrompt, signal);
+        const locked = await applyPaletteLock(result);
+        signal.throwIfAborted();
+        commitImage(locked, 'edit', editPrompt);
         setEditPrompt(''); // Clear edit prompt after success
     } catch (err: any) {
-        await handleApiError(err);
+        if (!signal.aborted) await handleApiError(err);
     } finally {
-        setIsGenerating(false);
+        endRequest(signal);
     }
   };
 
@@ -191,37 +673,525 @@ const App: React.FC = () => {
         setError("Vui lòng tạo hoặc tải lên sprite trước.");
         return;
     }
-    setIsGenerating(true);
-    setError(null);
-    await ensureApiKey();
+    const signal = beginRequest();
     try {
-      const frames = await GeminiService.generatePixelAnimationFrames(
+      await ensureApiKey();
+      const frames = await provider.generateAnimationFrames(
           generatedImage, 
           animationAction, 
           animFrameCount, 
-          animLoop
+          animLoop,
+          signal
       );
-      setGeneratedImage(frames[0]); 
+      // The model returns one horizontal strip; keep it in history and split it into frames.
+      // Slice before the palette lock, which may recolour the white gaps the slicer looks for, and at
+      // the real pixel resolution so the frames match the same action generated in an animation set.
+      const sliced = sliceAnimationStrip(snapToPixelGrid(await getPixelBuffer(frames[0])), animFrameCount);
+      const stable = animStabilize ? stabilizeFrames(sliced, frameAnchor) : sliced;
+      const strip = await applyPaletteLock(frames[0]);
+      const lockedFrames = await Promise.all(stable.map(f => applyPaletteLock(pixelBufferToDataUrl(f))));
+      signal.throwIfAborted();
+      commitImage(strip, 'animate', animationAction);
+      setAnimationFrames(lockedFrames);
+      setEditingFrameIndex(null);
     } catch (err: any) {
-      await handleApiError(err);
+      if (!signal.aborted) await handleApiError(err);
     } finally {
-      setIsGenerating(false);
+      endRequest(signal);
     }
   };
 
-  const handleBackgroundRemoval = async () => {
+  // Seamless Tile Handlers
+  useEffect(() => {
+    if (!checksSeams || !generatedImage) {
+        setSeamReport(null);
+        return;
+    }
+    let stale = false;
+    getPixelBuffer(generatedImage)
+        .then(tile => { if (!stale) setSeamReport(measureSeams(tile)); })
+        .catch(e => console.error("Error measuring seams", e));
+    return () => { stale = true; };
+  }, [checksSeams, generatedImage]);
+
+  const handleRepairSeams = async () => {
     if (!generatedImage) return;
-    setIsGenerating(true);
     setError(null);
-    await ensureApiKey();
     try {
-        // Use Gemini to isolate subject on Magenta background
-        const result = await GeminiService.generateBackgroundRemoval(generatedImage);
-        setGeneratedImage(result);
+        const tile = await getPixelBuffer(generatedImage);
+        // Blending mixes neighbouring colours, so bring the result back onto the locked palette
+        const repaired = await applyPaletteLock(pixelBufferToDataUrl(repairSeams(tile)));
+        commitImage(repaired, 'seam-repair', assets.find(a => a.url === generatedImage)?.prompt);
+    } catch (e) {
+        console.error("Error repairing seams", e);
+        setError("Không thể sửa đường nối.");
+    }
+  };
+
+  // Lets the model redraw the seams after moving them to the middle; the outer band is put
+  // back afterwards because it already wraps and the model tends to nudge it
+  const handleRepairSeamsWithModel = async () => {
+    if (!generatedImage) return;
+    const source = generatedImage;
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+        const tile = await getPixelBuffer(source);
+        const shifted = offsetByHalf(tile);
+        const edited = await provider.editSprite(pixelBufferToDataUrl(shifted), SEAM_REPAIR_INSTRUCTION, signal);
+        const resized = resamplePixelBuffer(snapToPixelGrid(await getPixelBuffer(edited)), tile.width, tile.height);
+        const band = Math.max(1, Math.round(Math.min(tile.width, tile.height) / 16));
+        const locked = await applyPaletteLock(pixelBufferToDataUrl(restoreEdges(resized, shifted, band)));
+        signal.throwIfAborted();
+        commitImage(locked, 'seam-repair', assets.find(a => a.url === source)?.prompt);
     } catch (err: any) {
-        await handleApiError(err);
+        if (!signal.aborted) await handleApiError(err);
     } finally {
-        setIsGenerating(false);
+        endRequest(signal);
+    }
+  };
+
+  // Autotile Handlers
+  // File name for a tile export: the prompt its library asset was generated from
+  const tileName = (url: string | null, fallback: string) =>
+    slugify(assets.find(a => a.url === url)?.prompt || '') || fallback;
+
+  const handleSliceAutotile = async (imageUrl: string | null = generatedImage, name = tileName(imageUrl, 'tileset')) => {
+    if (!imageUrl) return;
+    try {
+        // Slice at the real pixel resolution so every tile comes out at its native size
+        const slice = sliceAutotileGrid(snapToPixelGrid(await getPixelBuffer(imageUrl)));
+        const urls = Object.fromEntries(Object.entries(slice.tiles).map(([position, tile]) => [position, pixelBufferToDataUrl(tile)])) as Record<TilePosition, string>;
+        setAutotileSlice({ ...slice, urls, name });
+        setAutotileSet(null);
+    } catch (e) {
+        console.error("Error slicing autotile", e);
+        setError("Không thể cắt lưới autotile.");
+    }
+  };
+
+  const handleBuildAutotileSet = () => {
+    if (!autotileSlice) return;
+    const set = buildAutotileSet(autotileSlice.tiles, autotileLayout);
+    const url = pixelBufferToDataUrl(set.image);
+    setAutotileSet({ ...set, url, name: autotileSlice.name });
+    commitImage(url, 'autotile', autotileLayout);
+  };
+
+  const handleDownloadTileset = () => {
+    if (!autotileSet) return;
+    downloadBlob(new Blob([dataUrlToBytes(autotileSet.url)], { type: 'image/png' }), `pixel-dreamer-${autotileSet.layout}-${Date.now()}.png`);
+  };
+
+  // Bundles the tileset PNG with a Tiled tileset, a Tiled sample map and a Godot TileSet
+  const handleExportTilesetBundle = async () => {
+    try {
+        let name: string;
+        let tileset: TilesetDescription;
+        let png: Uint8Array;
+        if (tileType === 'autotile') {
+            if (!autotileSet) return;
+            name = autotileSet.name;
+            tileset = describeAutotileSet(autotileSet, name, `${name}.png`);
+            png = dataUrlToBytes(autotileSet.url);
+        } else {
+            if (!generatedImage) return;
+            name = tileName(generatedImage, 'tileset');
+            // Engines want the texture at its real pixel resolution, not the model's render size
+            const tile = snapToPixelGrid(await getPixelBuffer(generatedImage));
+            tileset = describeSingleTile(tile.width, tile.height, name, `${name}.png`);
+            png = dataUrlToBytes(pixelBufferToDataUrl(tile));
+        }
+        const zip = createZip([
+            { name: tileset.imageName, data: png },
+            { name: `${name}.tsx`, data: serializeTiledTileset(tileset) },
+            { name: `${name}.tmj`, data: serializeTiledMap(tileset, `${name}.tsx`) },
+            { name: `${name}.tres`, data: serializeGodotTileSet(tileset) },
+        ]);
+        downloadBlob(zip, `pixel-dreamer-tileset-${name}-${Date.now()}.zip`);
+    } catch (e) {
+        console.error("Error exporting tileset", e);
+        setError("Không thể xuất tileset.");
+    }
+  };
+
+  // Map Painter Handlers
+  const addMapBrush = (brush: MapBrush) => {
+    setMapBrushes(prev => [...prev, { ...brush, url: pixelBufferToDataUrl(brushPreview(brush)) }]);
+    setActiveMapBrush(brush.id);
+  };
+
+  const handleAddMapTile = async () => {
+    if (!generatedImage) return;
+    try {
+        // Paint with the texture at its real pixel resolution so cells match the other tiles
+        const tile = snapToPixelGrid(await getPixelBuffer(generatedImage));
+        addMapBrush({ id: LibraryService.createAssetId(), name: tileName(generatedImage, 'tile'), kind: 'tile', tile });
+    } catch (e) {
+        console.error("Error adding map tile", e);
+        setError("Không thể thêm tile vào bản đồ.");
+    }
+  };
+
+  const handleAddMapAutotile = () => {
+    if (!autotileSet) return;
+    const { url, name, ...set } = autotileSet;
+    addMapBrush({ id: LibraryService.createAssetId(), name, kind: 'autotile', set });
+  };
+
+  const handleRemoveMapBrush = (id: string) => {
+    setMapBrushes(prev => prev.filter(b => b.id !== id));
+    setTileMap(m => eraseBrush(m, id));
+    if (activeMapBrush === id) setActiveMapBrush(null);
+  };
+
+  const handlePaintMapCell = (cell: { x: number; y: number }, erase: boolean) => {
+    if (!erase && !activeMapBrush) return;
+    setTileMap(m => paintCell(m, cell.x, cell.y, erase ? null : activeMapBrush));
+  };
+
+  const handleFillMap = () => {
+    if (!activeMapBrush) return;
+    setTileMap(m => ({ ...m, cells: m.cells.map(() => activeMapBrush) }));
+  };
+
+  const handleDownloadMap = () => {
+    if (!mapPixels) return;
+    downloadBlob(new Blob([dataUrlToBytes(pixelBufferToDataUrl(mapPixels))], { type: 'image/png' }), `pixel-dreamer-map-${Date.now()}.png`);
+  };
+
+  // Animation Set Handlers
+  const updateAnimationSetEntry = (id: string, changes: Partial<AnimationSetEntry>) =>
+    setAnimationSet(prev => prev.map(e => (e.id === id ? { ...e, ...changes } : e)));
+
+  const handleAddAnimationSetAction = () => {
+    const preset = ANIMATION_PRESETS.find(p => p.name === animationSetPreset);
+    if (!preset) return;
+    setAnimationSet(prev => [...prev, createAnimationSetEntry(preset, prev.map(e => e.name), LibraryService.createAssetId())]);
+  };
+
+  const handleAnimationSetNameBlur = (id: string) =>
+    setAnimationSet(prev => prev.map(e => (e.id === id ? { ...e, name: uniqueActionName(e.name, prev.filter(o => o.id !== id).map(o => o.name)) } : e)));
+
+  // One action of the set, snapped to real pixels and brought to the reference's scale
+  const renderAnimationAction = async (reference: string, entry: AnimationSetEntry, referenceHeight: number, signal: AbortSignal) => {
+    const [strip] = await provider.generateAnimationFrames(reference, entry.action, entry.frames, entry.loop, signal);
+    // Slice before the palette lock, which may recolour the white gaps the slicer looks for
+    const sliced = matchReferenceScale(sliceAnimationStrip(snapToPixelGrid(await getPixelBuffer(strip)), entry.frames), referenceHeight);
+    const stable = animStabilize ? stabilizeFrames(sliced, frameAnchor) : sliced;
+    const frames = await Promise.all(stable.map(f => applyPaletteLock(pixelBufferToDataUrl(f))));
+    const lockedStrip = await applyPaletteLock(strip);
+    signal.throwIfAborted();
+    recordAsset(lockedStrip, 'animation', entry.action, provider.modelName(ModelTier.STANDARD), { parentId: assets.find(a => a.url === reference)?.id });
+    return frames;
+  };
+
+  // Every finished action goes onto one shared cell, so frame size and anchor match across the set
+  const alignAnimationSet = async (entries: AnimationSetEntry[], anchor: FrameAnchor) => {
+    const finished = entries.filter(e => e.status === 'done' && e.sourceFrames.length > 0);
+    const buffers = await Promise.all(finished.map(e => Promise.all(e.sourceFrames.map(getPixelBuffer))));
+    const cell = commonCellSize(buffers.flat());
+    const aligned = new Map(finished.map((e, i) => [e.id, buffers[i].map(f => pixelBufferToDataUrl(alignFrameToCell(f, cell, anchor)))]));
+    setAnimationSet(prev => prev.map(e => (aligned.has(e.id) ? { ...e, frameUrls: aligned.get(e.id)! } : e)));
+  };
+
+  const handleGenerateAnimationSet = async () => {
+    if (!generatedImage) {
+        setError("Vui lòng tạo hoặc tải lên sprite trước.");
+        return;
+    }
+    const reference = generatedImage;
+    const entries = animationSet;
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+
+        setAnimationSetReference(reference);
+        setAnimationSet(prev => prev.map(e => ({ ...e, status: 'pending', sourceFrames: [], frameUrls: [], error: undefined })));
+
+        const { height } = await getPixelBuffer(reference);
+        const results = await runWithConcurrency(entries.length, GENERATION_CONCURRENCY, async (i) => {
+            signal.throwIfAborted();
+            updateAnimationSetEntry(entries[i].id, { status: 'running' });
+            const frames = await renderAnimationAction(reference, entries[i], height, signal);
+            updateAnimationSetEntry(entries[i].id, { status: 'done', sourceFrames: frames, frameUrls: frames });
+            return frames;
+        });
+        if (isSuperseded(signal)) return;
+        results.forEach((r, i) => {
+            if (r.status === 'rejected') updateAnimationSetEntry(entries[i].id, { status: 'error', error: describeError(signal.aborted ? cancelledError() : r.reason) });
+        });
+
+        await alignAnimationSet(entries.map((e, i) => {
+            const r = results[i];
+            return r.status === 'fulfilled' ? { ...e, status: 'done', sourceFrames: r.value } : e;
+        }), frameAnchor);
+
+        const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (!signal.aborted && entries.length > 0 && failures.length === entries.length) await handleApiError(failures[0].reason);
+    } catch (err: any) {
+        // The key check or reading the reference failed before any action was requested
+        if (isSuperseded(signal)) return;
+        setAnimationSet(prev => prev.map(e => (e.status === 'pending' ? { ...e, status: 'error', error: describeError(signal.aborted ? cancelledError() : err) } : e)));
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
+  const handleRegenerateAnimationSetAction = async (id: string) => {
+    const entry = animationSet.find(e => e.id === id);
+    const reference = animationSetReference ?? generatedImage;
+    if (!entry || !reference) return;
+    const signal = beginRequest();
+    setAnimationSetReference(reference);
+    updateAnimationSetEntry(id, { status: 'running', error: undefined });
+    try {
+        await ensureApiKey();
+        const frames = await renderAnimationAction(reference, entry, (await getPixelBuffer(reference)).height, signal);
+        updateAnimationSetEntry(id, { status: 'done', sourceFrames: frames, frameUrls: frames });
+        // A taller or wider action changes the shared cell for everyone
+        await alignAnimationSet(animationSet.map(e => (e.id === id ? { ...e, status: 'done', sourceFrames: frames } : e)), frameAnchor);
+    } catch (err: any) {
+        if (isSuperseded(signal)) return;
+        updateAnimationSetEntry(id, { status: 'error', error: describeError(signal.aborted ? cancelledError() : err) });
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
+  const handleSetFrameAnchor = (anchor: FrameAnchor) => {
+    setFrameAnchor(anchor);
+    alignAnimationSet(animationSet, anchor).catch(e => console.error("Error aligning animation set", e));
+  };
+
+  // Loads one action into the single-animation preview, where its frames can be edited and exported
+  const handlePreviewAnimationSetAction = (entry: AnimationSetEntry) => {
+    setAnimationFrames(entry.frameUrls);
+    setAnimationAction(entry.action);
+    setAnimFrameCount(entry.frames);
+    setAnimFps(entry.fps);
+    setAnimLoop(entry.loop);
+    setEditingFrameIndex(null);
+  };
+
+  const handleSendAnimationSetToSheet = () => {
+    const items = animationSetSheetItems(animationSet);
+    if (items.length === 0) return;
+    setSheetImages(prev => [...prev, ...items]);
+    // One action per row, as engines expect for character sheets
+    setSheetLayout('grid');
+    setSheetRowPerTag(true);
+  };
+
+  // Turnaround Handlers
+  const updateTurnaroundView = (direction: Direction, changes: Partial<TurnaroundView>) =>
+    setTurnaroundViews(prev => prev.map(v => (v.direction === direction ? { ...v, ...changes } : v)));
+
+  // One facing of the reference, resampled to the reference's size so every view lines up in the sheet
+  const renderTurnaroundView = async (reference: string, direction: Direction, pixels: number | null, signal: AbortSignal) => {
+    const result = await provider.generateTurnaroundView(reference, direction, signal);
+    const resized = pixels ? await enforcePixelSize(result, pixels) : await snapImageToPixelGrid(result);
+    const url = await applyPaletteLock(resized);
+    signal.throwIfAborted();
+    const basePrompt = assets.find(a => a.url === reference)?.prompt;
+    recordAsset(url, 'sprite', basePrompt ? `${basePrompt} (${direction})` : direction, provider.modelName(ModelTier.STANDARD));
+    return url;
+  };
+
+  const referencePixels = async (reference: string) => {
+    const { width, height } = await getPixelBuffer(reference);
+    return width === height ? width : null;
+  };
+
+  const handleGenerateTurnaround = async () => {
+    if (!generatedImage) {
+        setError("Vui lòng tạo hoặc tải lên sprite trước.");
+        return;
+    }
+    const reference = generatedImage;
+    const plan = planTurnaround(activeDirections, { keepReference: turnaroundKeepFront, mirror: turnaroundMirror });
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+
+        setTurnaroundReference(reference);
+        setTurnaroundViews(plan.map(step => (
+            step.source === 'reference'
+                ? { direction: step.direction, source: step.source, status: 'done', url: reference }
+                : { direction: step.direction, source: step.source, status: 'pending' }
+        )));
+
+        const pixels = await referencePixels(reference);
+        const urls: Partial<Record<Direction, string>> = {};
+        const generated = plan.filter(step => step.source === 'generate');
+        const results = await runWithConcurrency(generated.length, GENERATION_CONCURRENCY, async (i) => {
+            const { direction } = generated[i];
+            signal.throwIfAborted();
+            updateTurnaroundView(direction, { status: 'running' });
+            urls[direction] = await renderTurnaroundView(reference, direction, pixels, signal);
+            updateTurnaroundView(direction, { status: 'done', url: urls[direction] });
+        });
+        if (isSuperseded(signal)) return;
+        results.forEach((r, i) => {
+            if (r.status === 'rejected') updateTurnaroundView(generated[i].direction, { status: 'error', error: describeError(signal.aborted ? cancelledError() : r.reason) });
+        });
+
+        // Mirrored views are flipped locally once their counterpart exists
+        for (const step of plan.filter(s => s.source === 'mirror')) {
+            const source = urls[step.mirrorOf!];
+            if (signal.aborted || !source) {
+                updateTurnaroundView(step.direction, { status: 'error', error: signal.aborted ? describeError(cancelledError()) : 'Hướng gốc bị lỗi' });
+                continue;
+            }
+            updateTurnaroundView(step.direction, { status: 'done', url: await flipImageHorizontal(source) });
+        }
+
+        const failures = results.filter((r): r is PromiseRejectedResult => r.status === 'rejected');
+        if (!signal.aborted && generated.length > 0 && failures.length === generated.length) await handleApiError(failures[0].reason);
+    } catch (err: any) {
+        // The key check or reading the reference failed before any view was requested
+        if (isSuperseded(signal)) return;
+        setTurnaroundViews(prev => prev.map(v => (v.status === 'pending' ? { ...v, status: 'error', error: describeError(signal.aborted ? cancelledError() : err) } : v)));
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
+  const handleRegenerateTurnaroundView = async (direction: Direction) => {
+    const view = turnaroundViews.find(v => v.direction === direction);
+    if (!view || !turnaroundReference) return;
+    const mirrorOf = MIRRORED_DIRECTIONS[direction];
+    // Views flipped from this one have to follow it
+    const dependents = turnaroundViews.filter(v => v.source === 'mirror' && MIRRORED_DIRECTIONS[v.direction] === direction);
+
+    if (view.source === 'mirror' && mirrorOf) {
+        const source = turnaroundViews.find(v => v.direction === mirrorOf)?.url;
+        if (source) updateTurnaroundView(direction, { status: 'done', url: await flipImageHorizontal(source), error: undefined });
+        return;
+    }
+
+    const signal = beginRequest();
+    updateTurnaroundView(direction, { status: 'running', error: undefined });
+    try {
+        await ensureApiKey();
+        const url = await renderTurnaroundView(turnaroundReference, direction, await referencePixels(turnaroundReference), signal);
+        updateTurnaroundView(direction, { status: 'done', url });
+        for (const dependent of dependents) {
+            updateTurnaroundView(dependent.direction, { status: 'done', url: await flipImageHorizontal(url), error: undefined });
+        }
+    } catch (err: any) {
+        if (isSuperseded(signal)) return;
+        updateTurnaroundView(direction, { status: 'error', error: describeError(signal.aborted ? cancelledError() : err) });
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
+  const handleSendTurnaroundToSheet = () => {
+    const basePrompt = assets.find(a => a.url === turnaroundReference)?.prompt;
+    const items = turnaroundSheetItems(turnaroundViews, slugify(basePrompt || '') || 'character');
+    if (items.length === 0) return;
+    setSheetImages(prev => [...prev, ...items]);
+    // One facing per row is the layout engines expect for directional sheets
+    setSheetLayout('grid');
+    setSheetRowPerTag(true);
+  };
+
+  // Animation Frame Handlers
+  const handleMoveFrame = (index: number, direction: -1 | 1) => {
+    const target = index + direction;
+    if (target < 0 || target >= animationFrames.length) return;
+    const updated = [...animationFrames];
+    [updated[index], updated[target]] = [updated[target], updated[index]];
+    setAnimationFrames(updated);
+    if (editingFrameIndex === index) setEditingFrameIndex(target);
+    else if (editingFrameIndex === target) setEditingFrameIndex(index);
+  };
+
+  const handleDeleteFrame = (index: number) => {
+    setAnimationFrames(prev => prev.filter((_, i) => i !== index));
+    if (editingFrameIndex === index) setEditingFrameIndex(null);
+    else if (editingFrameIndex !== null && editingFrameIndex > index) setEditingFrameIndex(editingFrameIndex - 1);
+  };
+
+  const handleOpenFrame = (index: number) => {
+    setEditingFrameIndex(index);
+    // The frames are already in the library; only the editor history needs the step
+    setHistory(h => pushHistory(h, animationFrames[index], 'animate', `${animationAction} #${index + 1}`));
+  };
+
+  // Re-runs the stabilization pass on the current frames, e.g. after changing the anchor or editing a pose
+  const handleStabilizeFrames = async () => {
+    if (animationFrames.length === 0) return;
+    try {
+        const buffers = await Promise.all(animationFrames.map(getPixelBuffer));
+        setAnimationFrames(stabilizeFrames(buffers, frameAnchor).map(pixelBufferToDataUrl));
+        setEditingFrameIndex(null);
+    } catch (e) {
+        console.error("Stabilization failed", e);
+        setError("Không thể căn chỉnh frame.");
+    }
+  };
+
+  const handleWriteCurrentToFrame = () => {
+    if (editingFrameIndex === null || !generatedImage) return;
+    setAnimationFrames(prev => prev.map((f, i) => (i === editingFrameIndex ? generatedImage : f)));
+  };
+
+  const handleExportAnimation = async (format: AnimationFormat) => {
+    if (animationFrames.length === 0) return;
+    setError(null);
+    try {
+        const blob = await exportAnimation(animationFrames, format, { fps: animFps, loop: animLoop, scale: exportScale });
+        downloadBlob(blob, `pixel-dreamer-${animationAction.toLowerCase().replace(/\s+/g, '-')}-${Date.now()}.${format === 'gif' ? 'gif' : 'png'}`);
+    } catch (e) {
+        console.error("Error exporting animation", e);
+        setError("Không thể xuất hoạt hình");
+    }
+  };
+
+  const handleEditorSave = (url: string) => {
+    // Manual edits to an opened frame flow straight back into the sequence
+    if (editingFrameIndex !== null && animationFrames[editingFrameIndex] === generatedImage) {
+        setAnimationFrames(prev => prev.map((f, i) => (i === editingFrameIndex ? url : f)));
+    }
+    commitImage(url, 'manual');
+  };
+
+  const handleBackgroundRemoval = async () => {
+    if (!generatedImage) return;
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+        // Let the provider isolate the subject on a magenta background, then key it out locally
+        const result = await provider.removeBackground(generatedImage, signal);
+        const keyed = await applyPaletteLock(await chromaKeyImage(result, { tolerance: keyTolerance, defringe: keyDefringe }));
+        signal.throwIfAborted();
+        setKeySource({ source: result, keyed });
+        commitImage(keyed, 'background');
+    } catch (err: any) {
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
+  const handleReapplyChromaKey = async () => {
+    // Re-key from the untouched magenta image so tolerance changes are not cumulative
+    const source = keySource && keySource.keyed === generatedImage ? keySource.source : generatedImage;
+    if (!source) return;
+    setError(null);
+    try {
+        const keyed = await applyPaletteLock(await chromaKeyImage(source, { tolerance: keyTolerance, defringe: keyDefringe }));
+        setKeySource({ source, keyed });
+        commitImage(keyed, 'chroma-key', `${keyTolerance}%`);
+    } catch (e) {
+        console.error("Error applying chroma key", e);
+        setError("Không thể tách màu nền");
     }
   };
 
@@ -231,14 +1201,14 @@ const App: React.FC = () => {
 
     if (currentMode === AppMode.SPRITE_SHEET) {
         // Handle multiple files for sprite sheet
-        const newImages: string[] = [];
+        const newImages: SheetItem[] = [];
         for (let i = 0; i < files.length; i++) {
             const file = files[i];
             const reader = new FileReader();
             await new Promise<void>((resolve) => {
                 reader.onloadend = () => {
                     if (typeof reader.result === 'string') {
-                        newImages.push(reader.result);
+                        newImages.push({ src: reader.result, name: file.name.replace(/\.[^.]+$/, ''), tag: sheetTag.trim() || undefined });
                     }
                     resolve();
                 };
@@ -248,114 +1218,230 @@ const App: React.FC = () => {
         setSheetImages(prev => [...prev, ...newImages]);
     } else if (currentMode === AppMode.STYLE_TRANSFER || currentMode === AppMode.BACKGROUND_REMOVAL) {
         const file = files[0];
-        // For style transfer we process, for bg removal we just load to canvas first
+        // Both load to canvas first: style transfer runs with the panel's options, bg removal on request
         const reader = new FileReader();
-        reader.onloadend = async () => {
+        reader.onloadend = () => {
             const base64 = reader.result as string;
-            if (currentMode === AppMode.STYLE_TRANSFER) {
-                 setIsGenerating(true);
-                 setError(null);
-                 await ensureApiKey();
-                 try {
-                     const pixelArt = await GeminiService.convertToPixelArt(base64);
-                     setGeneratedImage(pixelArt);
-                 } catch (err: any) {
-                     await handleApiError(err);
-                 } finally {
-                     setIsGenerating(false);
-                 }
-            } else {
-                setGeneratedImage(base64);
-            }
+            if (currentMode === AppMode.STYLE_TRANSFER) setTransferSource({ url: base64, name: file.name });
+            // Keep the original colours here so the magenta key still matches
+            commitImage(base64, 'upload', file.name);
         };
         reader.readAsDataURL(file);
     } else {
         // Just load into editor for editing or animation
         const file = files[0];
         const reader = new FileReader();
-        reader.onloadend = () => {
-            setGeneratedImage(reader.result as string);
+        reader.onloadend = async () => {
+            try {
+                commitImage(await applyPaletteLock(reader.result as string), 'upload', file.name);
+            } catch (e) {
+                console.error("Error quantizing upload", e);
+                commitImage(reader.result as string, 'upload', file.name);
+            }
         };
         reader.readAsDataURL(file);
     }
   };
 
+  const handleStyleTransfer = async () => {
+    if (!transferSource) return;
+    const signal = beginRequest();
+    try {
+        await ensureApiKey();
+        const palette = resolvePalette(paletteSelection, style, customPalettes);
+        const pixelArt = await provider.convertToPixelArt(transferSource.url, {
+            style: style === ArtStyle.CUSTOM ? customStyle : style,
+            size,
+            outline: transferOutline,
+            palette: palette ? { name: palette.name, colors: palette.colors } : undefined,
+        }, signal);
+        const resized = enforceSize ? await enforceSpriteSize(pixelArt, size) : pixelArt;
+        const locked = await applyPaletteLock(resized);
+        signal.throwIfAborted();
+        setTransferComparison({ source: transferSource.url, result: locked });
+        commitImage(locked, 'style-transfer', transferSource.name);
+    } catch (err: any) {
+        if (!signal.aborted) await handleApiError(err);
+    } finally {
+        endRequest(signal);
+    }
+  };
+
   const handleAddCurrentToSheet = () => {
     if (generatedImage) {
-        setSheetImages(prev => [...prev, generatedImage]);
+        const tag = sheetTag.trim() || undefined;
+        setSheetImages(prev => [...prev, { src: generatedImage, name: tag ? `${tag}_${prev.length}` : `sprite_${prev.length}`, tag }]);
     }
   };
 
+  const handleAddFramesToSheet = () => {
+    if (animationFrames.length === 0) return;
+    const tag = sheetTag.trim() || animationAction.toLowerCase().trim().replace(/\s+/g, '_');
+    setSheetImages(prev => [...prev, ...animationFrames.map((src, i) => ({ src, name: `${tag}_${i}`, tag }))]);
+  };
+
+  const handleTagSheetItem = (index: number) => {
+    const tag = sheetTag.trim() || undefined;
+    setSheetImages(prev => prev.map((item, i) => (i === index ? { ...item, tag } : item)));
+  };
+
   const handleRemoveFromSheet = (index: number) => {
     setSheetImages(prev => prev.filter((_, i) => i !== index));
   };
 
+  const assembleSheet = (items: SheetItem[] = sheetImages): Promise<AssembledSheet> => {
+    if (sheetLayout === 'packed') {
+        return assemblePackedSheet(items, {
+            maxSize: sheetMaxSize,
+            powerOfTwo: sheetPowerOfTwo,
+            padding: sheetSpacing,
+            trim: sheetTrim,
+            extrude: sheetExtrude,
+            pivot: alignmentPivot(sheetHorizontalAlignment, sheetVerticalAlignment),
+        });
+    }
+    return assembleGridSheet(items, {
+        columns: sheetColumns,
+        spacing: sheetSpacing,
+        horizontalAlignment: sheetHorizontalAlignment,
+        verticalAlignment: sheetVerticalAlignment,
+        rowPerTag: sheetRowPerTag,
+    });
+  };
+
   const handleAssembleSheet = async () => {
     if (sheetImages.length === 0) return;
     setIsGenerating(true);
 
     try {
-        const loadedImages = await Promise.all(sheetImages.map(src => {
-            return new Promise<HTMLImageElement>((resolve, reject) => {
-                const img = new Image();
-                img.onload = () => resolve(img);
-                img.onerror = reject;
-                img.src = src;
-            });
-        }));
+        const sheet = await assembleSheet();
+        setSheetRegions({ imageUrl: sheet.imageUrl, rects: sheet.frames.map(f => f.frame) });
+        commitImage(sheet.imageUrl, 'sheet', `${sheetImages.length} ảnh`);
+    } catch (e: any) {
+        console.error("Error assembling sheet", e);
+        setError(e instanceof SheetOverflowError ? `Ảnh vượt quá giới hạn ${e.maxSize}px` : "Không thể ghép ảnh");
+    } finally {
+        setIsGenerating(false);
+    }
+  };
 
-        if (loadedImages.length === 0) return;
+  const handleDownloadSheetZip = async () => {
+    if (sheetImages.length === 0) return;
+    setIsGenerating(true);
+    setError(null);
 
-        const maxWidth = Math.max(...loadedImages.map(i => i.width));
-        const maxHeight = Math.max(...loadedImages.map(i => i.height));
-        
-        const cols = sheetColumns;
-        const spacing = sheetSpacing;
-        const rows = Math.ceil(loadedImages.length / cols);
-        
-        const canvas = document.createElement('canvas');
-        canvas.width = cols * maxWidth + (cols - 1) * spacing;
-        canvas.height = rows * maxHeight + (rows - 1) * spacing;
-        
-        // Ensure minimum size if only 1 image and no spacing
-        if (loadedImages.length === 1) {
-             canvas.width = maxWidth;
-             canvas.height = maxHeight;
-        }
+    try {
+        const sheet = await assembleSheet();
+        const json = serializeAtlas(sheet, atlasFormat, { imageName: 'sheet.png', fps: animFps, loop: animLoop });
+        const zip = createZip([
+            { name: 'sheet.png', data: dataUrlToBytes(sheet.imageUrl) },
+            { name: 'sheet.json', data: json },
+        ]);
+        downloadBlob(zip, `pixel-dreamer-sheet-${Date.now()}.zip`);
+    } catch (e) {
+        console.error("Error exporting sheet", e);
+        setError("Không thể xuất sheet");
+    } finally {
+        setIsGenerating(false);
+    }
+  };
 
-        const ctx = canvas.getContext('2d');
-        if (!ctx) return;
+  // Batch Job Handlers
+  const handleBatchFileUpload = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) setBatchText(await file.text());
+  };
 
-        loadedImages.forEach((img, i) => {
-            const col = i % cols;
-            const row = Math.floor(i / cols);
-            
-            const x = col * (maxWidth + spacing);
-            const y = row * (maxHeight + spacing);
-            
-            // Horizontal alignment
-            let xOffset = 0;
-            if (sheetHorizontalAlignment === 'center') {
-                xOffset = Math.floor((maxWidth - img.width) / 2);
-            } else if (sheetHorizontalAlignment === 'right') {
-                xOffset = maxWidth - img.width;
-            }
-            
-            // Vertical alignment
-            let yOffset = 0;
-            if (sheetVerticalAlignment === 'center') {
-                yOffset = Math.floor((maxHeight - img.height) / 2);
-            } else if (sheetVerticalAlignment === 'bottom') {
-                yOffset = maxHeight - img.height;
+  const handleQueueBatch = () => {
+    setError(null);
+    try {
+        const jobs = createBatchJobs(parseBatchInput(batchText), LibraryService.createAssetId, batchQueueRef.current.map(j => j.name));
+        if (jobs.length === 0) return;
+        updateBatchJobs(prev => [...prev, ...jobs]);
+        setBatchText('');
+    } catch (e: any) {
+        setError(`Danh sách không hợp lệ: ${e?.message || e}`);
+    }
+  };
+
+  // Works through the queue with a few parallel workers; the batch settings are taken from the panel at start
+  const handleRunBatch = async () => {
+    setError(null);
+    const controller = new AbortController();
+    const { signal } = controller;
+    batchRequest.current = controller;
+    setIsBatchRunning(true);
+
+    const panelStyle = style === ArtStyle.CUSTOM ? customStyle : style;
+    const model = provider.modelName(ModelTier.STANDARD);
+    const update = (id: string, change: (job: BatchJob) => BatchJob) =>
+        updateBatchJobs(jobs => jobs.map(j => (j.id === id ? change(j) : j)));
+
+    const worker = async () => {
+        let job: BatchJob | undefined;
+        while (!signal.aborted && (job = nextBatchJob(batchQueueRef.current))) {
+            const { id, prompt: jobPrompt } = job;
+            const jobStyle = job.style ?? panelStyle;
+            const jobSize = job.size ?? size;
+            update(id, j => ({ ...j, status: 'running' }));
+            try {
+                const result = await provider.generateSprite({ prompt: jobPrompt, size: jobSize, style: jobStyle, tier: ModelTier.STANDARD, resolution }, signal);
+                const resized = enforceSize ? await enforceSpriteSize(result, jobSize) : result;
+                const locked = await applyPaletteLock(resized);
+                signal.throwIfAborted();
+                const asset = recordAsset(locked, 'sprite', jobPrompt, model, {
+                    mode: AppMode.BATCH,
+                    style: jobStyle,
+                    size: jobSize,
+                    parentId: undefined,
+                });
+                update(id, j => ({ ...j, status: 'done', assetId: asset.id, error: undefined }));
+            } catch (err: any) {
+                // A stopped job goes back to the queue without using up an attempt
+                if (signal.aborted) {
+                    update(id, j => ({ ...j, status: 'pending' }));
+                    continue;
+                }
+                console.error("Batch job failed", err);
+                const error = toImageServiceError(err);
+                update(id, j => failBatchJob(j, describeError(error), error.type !== 'auth' && error.type !== 'safety'));
             }
-            
-            ctx.drawImage(img, x + xOffset, y + yOffset);
-        });
+        }
+    };
 
-        setGeneratedImage(canvas.toDataURL());
-    } catch (e) {
-        console.error("Error assembling sheet", e);
-        setError("Không thể ghép ảnh");
+    try {
+        await ensureApiKey();
+        updateBatchJobs(restoreBatchJobs);
+        await Promise.all(Array.from({ length: GENERATION_CONCURRENCY }, worker));
+    } catch (err: any) {
+        await handleApiError(err);
+    } finally {
+        batchRequest.current = null;
+        setIsBatchRunning(false);
+    }
+  };
+
+  const batchSheetItems = (): SheetItem[] =>
+    batchJobs.filter(j => batchResultUrls[j.id]).map(j => ({ src: batchResultUrls[j.id], name: j.name, tag: sheetTag.trim() || undefined }));
+
+  const handleDownloadBatchZip = async () => {
+    const items = batchSheetItems();
+    if (items.length === 0) return;
+    setIsGenerating(true);
+    setError(null);
+
+    try {
+        const sheet = await assembleSheet(items);
+        const zip = createZip([
+            ...items.map(item => ({ name: `sprites/${item.name}.png`, data: dataUrlToBytes(item.src) })),
+            { name: 'sheet.png', data: dataUrlToBytes(sheet.imageUrl) },
+            { name: 'sheet.json', data: serializeAtlas(sheet, atlasFormat, { imageName: 'sheet.png', fps: animFps, loop: animLoop }) },
+        ]);
+        downloadBlob(zip, `pixel-dreamer-batch-${Date.now()}.zip`);
+    } catch (e: any) {
+        console.error("Error exporting batch", e);
+        setError(e instanceof SheetOverflowError ? `Ảnh vượt quá giới hạn ${e.maxSize}px` : "Không thể xuất batch");
     } finally {
         setIsGenerating(false);
     }
@@ -389,6 +1475,20 @@ const App: React.FC = () => {
             onClick={() => setCurrentMode(AppMode.TILE_GENERATOR)}
             isOpen={isSidebarOpen}
         />
+        <SidebarItem 
+            icon={<MapIcon size={20} />} 
+            label="BẢN ĐỒ THỬ" 
+            active={currentMode === AppMode.MAP_PAINTER} 
+            onClick={() => setCurrentMode(AppMode.MAP_PAINTER)}
+            isOpen={isSidebarOpen}
+        />
+        <SidebarItem 
+            icon={<ListChecks size={20} />} 
+            label="HÀNG LOẠT" 
+            active={currentMode === AppMode.BATCH} 
+            onClick={() => setCurrentMode(AppMode.BATCH)}
+            isOpen={isSidebarOpen}
+        />
         <SidebarItem 
             icon={<ImagePlus size={20} />} 
             label="CHỈNH SỬA" 
@@ -410,6 +1510,13 @@ const App: React.FC = () => {
             onClick={() => setCurrentMode(AppMode.ANIMATION)}
             isOpen={isSidebarOpen}
         />
+        <SidebarItem 
+            icon={<Compass size={20} />} 
+            label="XOAY HƯỚNG" 
+            active={currentMode === AppMode.TURNAROUND} 
+            onClick={() => setCurrentMode(AppMode.TURNAROUND)}
+            isOpen={isSidebarOpen}
+        />
         <SidebarItem 
             icon={<Grid size={20} />} 
             label="GHÉP SHEET" 
@@ -424,6 +1531,20 @@ const App: React.FC = () => {
             onClick={() => setCurrentMode(AppMode.STYLE_TRANSFER)}
             isOpen={isSidebarOpen}
         />
+        <SidebarItem 
+            icon={<Library size={20} />} 
+            label="THƯ VIỆN" 
+            active={currentMode === AppMode.LIBRARY} 
+            onClick={() => setCurrentMode(AppMode.LIBRARY)}
+            isOpen={isSidebarOpen}
+        />
+        <SidebarItem 
+            icon={<Server size={20} />} 
+            label="CÀI ĐẶT" 
+            active={currentMode === AppMode.SETTINGS} 
+            onClick={() => setCurrentMode(AppMode.SETTINGS)}
+            isOpen={isSidebarOpen}
+        />
       </nav>
 
       <div className="p-2 border-t-2 border-cyber-dim bg-cyber-black/30">
@@ -434,6 +1555,220 @@ const App: React.FC = () => {
     </div>
   );
 
+  const renderModelControls = () => (
+    <div className="space-y-2">
+        <Label><span className="flex items-center gap-1"><Cpu size={10}/> MÔ HÌNH</span></Label>
+        <div className="flex bg-cyber-black border-2 border-cyber-dim">
+            <button 
+                onClick={() => setModelTier(ModelTier.STANDARD)}
+                className={`flex-1 p-2 text-xs font-bold font-mono transition-colors ${modelTier === ModelTier.STANDARD ? 'bg-cyber-secondary text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+            >
+                FLASH
+            </button>
+            <button 
+                onClick={() => setModelTier(ModelTier.PRO)}
+                className={`flex-1 p-2 text-xs font-bold font-mono transition-colors border-l-2 border-cyber-dim ${modelTier === ModelTier.PRO ? 'bg-cyber-primary text-white' : 'text-cyber-dim hover:text-white'}`}
+            >
+                PRO
+            </button>
+        </div>
+        {modelTier === ModelTier.PRO && (
+            <div className="flex items-center justify-between">
+                <span className="text-[10px] text-cyber-dim font-mono">ĐỘ PHÂN GIẢI RENDER</span>
+                <select 
+                    value={resolution}
+                    onChange={(e) => setResolution(e.target.value as ImageResolution)}
+                    className="bg-cyber-black border-2 border-cyber-dim text-cyber-text p-1 text-xs font-mono focus:border-cyber-primary outline-none cursor-pointer"
+                >
+                    {Object.values(ImageResolution).map(r => <option key={r} value={r}>{r}</option>)}
+                </select>
+            </div>
+        )}
+        <p className="text-[10px] text-cyber-dim font-mono">{provider.modelName(modelTier)}{modelTier === ModelTier.PRO ? ' // tự thu nhỏ về lưới pixel' : ''}</p>
+    </div>
+  );
+
+  // Definition box for ArtStyle.CUSTOM, with the saved styles
+  const renderCustomStyleControls = () => style === ArtStyle.CUSTOM && (
+    <div className="space-y-3 p-3 bg-cyber-black border border-cyber-dim/50 rounded-sm">
+        <Label>ĐỊNH NGHĨA STYLE</Label>
+        <textarea
+            value={customStyle}
+            onChange={(e) => setCustomStyle(e.target.value)}
+            placeholder="> Mô tả chi tiết phong cách (VD: Dark souls pixel art, flat design, pastel palette...)"
+            className="w-full bg-cyber-dark border border-cyber-dim text-cyber-accent p-2 text-xs font-mono focus:border-cyber-accent focus:outline-none min-h-[60px] resize-none"
+        />
+
+        {/* Save Controls */}
+        <div className="flex gap-2">
+            <input 
+                type="text" 
+                value={styleName}
+                onChange={(e) => setStyleName(e.target.value)}
+                placeholder="Đặt tên style..."
+                className="flex-1 bg-cyber-dark border border-cyber-dim text-cyber-text px-2 text-xs font-mono focus:border-cyber-primary outline-none"
+            />
+            <button 
+                onClick={saveCustomStyle}
+                disabled={!customStyle || !styleName}
+                className="bg-cyber-panel border border-cyber-dim text-cyber-primary p-2 hover:bg-cyber-primary hover:text-white disabled:opacity-50 transition-colors"
+                title="Lưu Style"
+            >
+                <Save size={14} />
+            </button>
+        </div>
+
+        {/* Saved List */}
+        {savedStyles.length > 0 && (
+            <div className="mt-2">
+                <Label><span className="flex items-center gap-1"><Bookmark size={10}/> ĐÃ LƯU</span></Label>
+                <div className="max-h-32 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+                    {savedStyles.map(s => (
+                        <div key={s.id} className="flex items-center justify-between group bg-cyber-panel/50 border border-transparent hover:border-cyber-dim p-1 px-2 transition-all">
+                            <button 
+                                onClick={() => loadCustomStyle(s.prompt)}
+                                className="text-xs font-mono text-cyber-dim group-hover:text-cyber-secondary truncate flex-1 text-left"
+                            >
+                                {s.name}
+                            </button>
+                            <button 
+                                onClick={(e) => { e.stopPropagation(); deleteCustomStyle(s.id); }}
+                                className="text-cyber-dim hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                            >
+                                <Trash2 size={12} />
+                            </button>
+                        </div>
+                    ))}
+                </div>
+            </div>
+        )}
+    </div>
+  );
+
+  const renderVariationControls = () => (
+    <div className="space-y-2">
+        <div className="flex items-center justify-between">
+            <Label><span className="flex items-center gap-1"><Images size={10}/> BIẾN THỂ</span></Label>
+            <span className="text-[10px] font-mono text-cyber-secondary">{variationCount === 1 ? 'ĐƠN' : `x${variationCount}`}</span>
+        </div>
+        <input
+            type="range"
+            min={1}
+            max={MAX_VARIATIONS}
+            value={variationCount}
+            onChange={(e) => setVariationCount(Number(e.target.value))}
+            className="w-full accent-cyber-primary cursor-pointer"
+        />
+    </div>
+  );
+
+  // Sprite and tile batches share the grid state, so only show the ones made in this mode
+  const renderVariationGrid = (operation: HistoryOperation) => (
+    <VariationGrid
+        variations={variations.filter(v => v.operation === operation)}
+        selectedIds={selectedVariationIds}
+        promotedId={promotedVariationId}
+        onToggleSelect={handleToggleVariation}
+        onPromote={handlePromoteVariation}
+        onSendToSheet={handleSendVariationsToSheet}
+    />
+  );
+
+  const renderPaletteControls = () => {
+    const activePalette = resolvePalette(paletteSelection, style, customPalettes);
+    const autoPalette = BUILT_IN_PALETTES.find(p => p.id === STYLE_PALETTES[style]);
+    return (
+        <div className="mt-6 space-y-3 pt-4 border-t-2 border-cyber-dim/50">
+            <Label><span className="flex items-center gap-1"><Pipette size={10}/> KHÓA BẢNG MÀU</span></Label>
+            <select 
+                value={paletteSelection}
+                onChange={(e) => setPaletteSelection(e.target.value)}
+                className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text rounded-none p-2 text-sm font-mono focus:border-cyber-primary outline-none appearance-none cursor-pointer hover:border-cyber-text transition-colors shadow-pixel-sm"
+            >
+                <option value={PALETTE_AUTO}>Tự động theo style ({autoPalette ? autoPalette.name : 'Tắt'})</option>
+                <option value={PALETTE_NONE}>Không giới hạn</option>
+                {BUILT_IN_PALETTES.map(p => <option key={p.id} value={p.id}>{p.name} ({p.colors.length} màu)</option>)}
+                {customPalettes.map(p => <option key={p.id} value={p.id}>★ {p.name} ({p.colors.length} màu)</option>)}
+            </select>
+
+            {activePalette && (
+                <div className="flex flex-wrap gap-[2px] p-2 bg-cyber-black border border-cyber-dim">
+                    {activePalette.colors.map(c => (
+                        <div key={c} className="w-3 h-3 border border-black/50" style={{ backgroundColor: c }} title={c}></div>
+                    ))}
+                </div>
+            )}
+
+            {/* Dither Toggle */}
+            <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                <Label><span className="flex items-center gap-1"><Grid size={10}/> DITHER (BAYER 4x4)</span></Label>
+                <button 
+                    onClick={() => setPaletteDither(!paletteDither)}
+                    className={`w-10 h-5 rounded-full relative transition-colors ${paletteDither ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                >
+                    <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${paletteDither ? 'left-6' : 'left-1'}`}></div>
+                </button>
+            </div>
+
+            {/* Custom Palette Editor */}
+            <div className="space-y-2 p-3 bg-cyber-black border border-cyber-dim/50 rounded-sm">
+                <Label>BẢNG MÀU TỰ TẠO</Label>
+                <textarea
+                    value={paletteText}
+                    onChange={(e) => setPaletteText(e.target.value)}
+                    placeholder="> Mã màu HEX, VD: #1A1C2C, #5D275D, #B13E53..."
+                    className="w-full bg-cyber-dark border border-cyber-dim text-cyber-accent p-2 text-xs font-mono focus:border-cyber-accent focus:outline-none min-h-[50px] resize-none"
+                />
+                <div className="flex gap-2">
+                    <input 
+                        type="text" 
+                        value={paletteName}
+                        onChange={(e) => setPaletteName(e.target.value)}
+                        placeholder="Đặt tên bảng màu..."
+                        className="flex-1 bg-cyber-dark border border-cyber-dim text-cyber-text px-2 text-xs font-mono focus:border-cyber-primary outline-none"
+                    />
+                    <button 
+                        onClick={saveCustomPalette}
+                        disabled={!paletteName || parsePaletteText(paletteText).length === 0}
+                        className="bg-cyber-panel border border-cyber-dim text-cyber-primary p-2 hover:bg-cyber-primary hover:text-white disabled:opacity-50 transition-colors"
+                        title="Lưu bảng màu"
+                    >
+                        <Save size={14} />
+                    </button>
+                </div>
+                {customPalettes.length > 0 && (
+                    <div className="max-h-24 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+                        {customPalettes.map(p => (
+                            <div key={p.id} className="flex items-center justify-between group bg-cyber-panel/50 border border-transparent hover:border-cyber-dim p-1 px-2 transition-all">
+                                <button 
+                                    onClick={() => setPaletteSelection(p.id)}
+                                    className="text-xs font-mono text-cyber-dim group-hover:text-cyber-secondary truncate flex-1 text-left"
+                                >
+                                    {p.name}
+                                </button>
+                                <button 
+                                    onClick={(e) => { e.stopPropagation(); deleteCustomPalette(p.id); }}
+                                    className="text-cyber-dim hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
+                                >
+                                    <Trash2 size={12} />
+                                </button>
+                            </div>
+                        ))}
+                    </div>
+                )}
+            </div>
+
+            <button 
+                onClick={handleApplyPaletteNow}
+                disabled={isGenerating || !generatedImage || !activePalette}
+                className="w-full bg-cyber-panel border-2 border-cyber-dim text-cyber-text hover:border-cyber-secondary hover:text-cyber-secondary text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+            >
+                <Palette size={14} /> ÁP DỤNG CHO ẢNH HIỆN TẠI
+            </button>
+        </div>
+    );
+  };
+
   const renderConfigurationPanel = () => {
     switch (currentMode) {
         case AppMode.TEXT_TO_SPRITE:
@@ -468,70 +1803,34 @@ const App: React.FC = () => {
                         </div>
                     </div>
                     
-                    {style === ArtStyle.CUSTOM && (
-                        <div className="space-y-3 p-3 bg-cyber-black border border-cyber-dim/50 rounded-sm">
-                            <Label>ĐỊNH NGHĨA STYLE</Label>
-                            <textarea
-                                value={customStyle}
-                                onChange={(e) => setCustomStyle(e.target.value)}
-                                placeholder="> Mô tả chi tiết phong cách (VD: Dark souls pixel art, flat design, pastel palette...)"
-                                className="w-full bg-cyber-dark border border-cyber-dim text-cyber-accent p-2 text-xs font-mono focus:border-cyber-accent focus:outline-none min-h-[60px] resize-none"
-                            />
-                            
-                            {/* Save Controls */}
-                            <div className="flex gap-2">
-                                <input 
-                                    type="text" 
-                                    value={styleName}
-                                    onChange={(e) => setStyleName(e.target.value)}
-                                    placeholder="Đặt tên style..."
-                                    className="flex-1 bg-cyber-dark border border-cyber-dim text-cyber-text px-2 text-xs font-mono focus:border-cyber-primary outline-none"
-                                />
-                                <button 
-                                    onClick={saveCustomStyle}
-                                    disabled={!customStyle || !styleName}
-                                    className="bg-cyber-panel border border-cyber-dim text-cyber-primary p-2 hover:bg-cyber-primary hover:text-white disabled:opacity-50 transition-colors"
-                                    title="Lưu Style"
-                                >
-                                    <Save size={14} />
-                                </button>
-                            </div>
+                    {/* Enforce Size Toggle */}
+                    <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                        <Label><span className="flex items-center gap-1"><Grid size={10}/> ÉP ĐÚNG {size} PX</span></Label>
+                        <button 
+                            onClick={() => setEnforceSize(!enforceSize)}
+                            disabled={modelTier === ModelTier.PRO}
+                            title={modelTier === ModelTier.PRO ? 'Luôn bật với mô hình PRO' : undefined}
+                            className={`w-10 h-5 rounded-full relative transition-colors disabled:opacity-50 ${enforceSize || modelTier === ModelTier.PRO ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                        >
+                            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${enforceSize || modelTier === ModelTier.PRO ? 'left-6' : 'left-1'}`}></div>
+                        </button>
+                    </div>
 
-                            {/* Saved List */}
-                            {savedStyles.length > 0 && (
-                                <div className="mt-2">
-                                    <Label><span className="flex items-center gap-1"><Bookmark size={10}/> ĐÃ LƯU</span></Label>
-                                    <div className="max-h-32 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
-                                        {savedStyles.map(s => (
-                                            <div key={s.id} className="flex items-center justify-between group bg-cyber-panel/50 border border-transparent hover:border-cyber-dim p-1 px-2 transition-all">
-                                                <button 
-                                                    onClick={() => loadCustomStyle(s.prompt)}
-                                                    className="text-xs font-mono text-cyber-dim group-hover:text-cyber-secondary truncate flex-1 text-left"
-                                                >
-                                                    {s.name}
-                                                </button>
-                                                <button 
-                                                    onClick={(e) => { e.stopPropagation(); deleteCustomStyle(s.id); }}
-                                                    className="text-cyber-dim hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity"
-                                                >
-                                                    <Trash2 size={12} />
-                                                </button>
-                                            </div>
-                                        ))}
-                                    </div>
-                                </div>
-                            )}
-                        </div>
-                    )}
+                    {renderModelControls()}
+                    {renderVariationControls()}
+                    
+                    {renderCustomStyleControls()}
 
                     <ActionButton 
                         onClick={handleGenerate}
                         disabled={isGenerating || !prompt || (style === ArtStyle.CUSTOM && !customStyle)}
                         loading={isGenerating}
                         icon={<Sparkles size={18} />}
-                        label="KHỞI TẠO"
+                        label={variationCount > 1 ? `KHỞI TẠO x${variationCount}` : "KHỞI TẠO"}
                         variant="primary"
                     />
+
+                    {renderVariationGrid('generate')}
                 </div>
             );
         case AppMode.TILE_GENERATOR:
@@ -583,12 +1882,203 @@ const App: React.FC = () => {
                         />
                     </div>
 
+                    {renderModelControls()}
+                    {renderVariationControls()}
+
                     <ActionButton 
                         onClick={handleGenerate}
                         disabled={isGenerating || !prompt}
                         loading={isGenerating}
                         icon={<BrickWall size={18} />}
-                        label="TẠO TILE SET"
+                        label={variationCount > 1 ? `TẠO TILE SET x${variationCount}` : "TẠO TILE SET"}
+                        variant="accent"
+                    />
+
+                    {renderVariationGrid('tile')}
+
+                    {tileType === 'autotile' && (
+                        <div className="space-y-3 pt-2 border-t border-cyber-dim/50">
+                            <div className="flex justify-between items-center">
+                                <Label><span className="flex items-center gap-1"><Grid3x3 size={10}/> CẮT LƯỚI 3x3</span></Label>
+                                <button 
+                                    onClick={() => handleSliceAutotile()}
+                                    disabled={!generatedImage}
+                                    className="text-[10px] font-mono text-cyber-dim hover:text-cyber-accent flex items-center gap-1 mb-2 disabled:opacity-50"
+                                    title="Cắt ảnh đang mở thành 9 ô"
+                                >
+                                    <Scissors size={10} /> CẮT ẢNH HIỆN TẠI
+                                </button>
+                            </div>
+                            {autotileSlice && (
+                                <>
+                                    <AutotileGrid tileUrls={autotileSlice.urls} onOpen={(position) => commitImage(autotileSlice.urls[position], 'autotile', position)} />
+                                    <p className={`text-[10px] font-mono ${autotileSlice.detected ? 'text-cyber-dim' : 'text-yellow-400'}`}>
+                                        {autotileSlice.tileSize}x{autotileSlice.tileSize}PX // {autotileSlice.detected ? 'ĐÃ TÌM THẤY KHE GIỮA CÁC Ô' : 'KHÔNG THẤY KHE GIỮA CÁC Ô, ĐÃ CHIA ĐỀU'}
+                                    </p>
+
+                                    <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                                        {([['wang16', '16 TILE (WANG)'], ['blob47', '47 TILE (BLOB)']] as const).map(([layout, label], i) => (
+                                            <button 
+                                                key={layout}
+                                                onClick={() => setAutotileLayout(layout)}
+                                                className={`flex-1 p-2 text-xs font-bold font-mono transition-colors ${i > 0 ? 'border-l-2 border-cyber-dim' : ''} ${autotileLayout === layout ? 'bg-cyber-accent text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                                            >
+                                                {label}
+                                            </button>
+                                        ))}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button 
+                                            onClick={handleBuildAutotileSet}
+                                            className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                                        >
+                                            <LayoutGrid size={14} /> GHÉP BỘ TILE
+                                        </button>
+                                        <button 
+                                            onClick={handleDownloadTileset}
+                                            disabled={!autotileSet}
+                                            className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                        >
+                                            <Download size={14} /> TẢI PNG
+                                        </button>
+                                    </div>
+                                    <button 
+                                        onClick={handleExportTilesetBundle}
+                                        disabled={!autotileSet}
+                                        className="w-full bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                        title="PNG + tileset Tiled (.tsx), bản đồ mẫu (.tmj) và TileSet Godot 4 (.tres) có terrain"
+                                    >
+                                        <Package size={14} /> XUẤT TILED + GODOT (.ZIP)
+                                    </button>
+                                </>
+                            )}
+                        </div>
+                    )}
+
+                    {tileType === 'seamless' && (
+                        <div className="space-y-3 pt-2 border-t border-cyber-dim/50">
+                            <Label><span className="flex items-center gap-1"><ScanLine size={10}/> KIỂM TRA ĐƯỜNG NỐI</span></Label>
+                            {seamReport && (
+                                <div className="p-2 bg-cyber-black border border-cyber-dim font-mono text-[10px] space-y-1">
+                                    <div className="flex justify-between text-cyber-dim">
+                                        <span>TRÁI-PHẢI {seamReport.wrapX.toFixed(1)} / {seamReport.interiorX.toFixed(1)}</span>
+                                        <span>TRÊN-DƯỚI {seamReport.wrapY.toFixed(1)} / {seamReport.interiorY.toFixed(1)}</span>
+                                    </div>
+                                    <div className={`font-bold ${isSeamless(seamReport) ? 'text-cyber-accent' : 'text-red-400'}`}>
+                                        {isSeamless(seamReport) ? 'LIỀN MẠCH' : 'CÓ ĐƯỜNG NỐI'} // ĐIỂM LỆCH {seamReport.score.toFixed(2)}
+                                    </div>
+                                </div>
+                            )}
+                            <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                                <Label>TỰ SỬA SAU KHI TẠO</Label>
+                                <button 
+                                    onClick={() => setAutoRepairSeams(!autoRepairSeams)}
+                                    className={`w-10 h-5 rounded-full relative transition-colors ${autoRepairSeams ? 'bg-cyber-accent' : 'bg-cyber-dim'}`}
+                                >
+                                    <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${autoRepairSeams ? 'left-6' : 'left-1'}`}></div>
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-2 gap-2">
+                                <button 
+                                    onClick={handleRepairSeams}
+                                    disabled={isGenerating || !generatedImage}
+                                    className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                    title="Dời nửa ô rồi hòa trộn đường nối (không gọi mô hình)"
+                                >
+                                    <Blend size={14} /> SỬA CỤC BỘ
+                                </button>
+                                <button 
+                                    onClick={handleRepairSeamsWithModel}
+                                    disabled={isGenerating || !generatedImage}
+                                    className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                    title="Dời nửa ô rồi để mô hình vẽ lại vùng đường nối"
+                                >
+                                    <Wand2 size={14} /> SỬA BẰNG AI
+                                </button>
+                            </div>
+                            <button 
+                                onClick={handleExportTilesetBundle}
+                                disabled={isGenerating || !generatedImage}
+                                className="w-full bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                title="PNG + tileset Tiled (.tsx), bản đồ mẫu (.tmj) và TileSet Godot 4 (.tres)"
+                            >
+                                <Package size={14} /> XUẤT TILED + GODOT (.ZIP)
+                            </button>
+                        </div>
+                    )}
+                </div>
+            );
+        case AppMode.MAP_PAINTER:
+            return (
+                <div className="space-y-6">
+                    <InfoBox borderColor="border-green-400/30" textColor="text-green-400">
+                        {'>'} THÊM TILE TỪ TAB TILE SET<br/>{'>'} VẼ LÊN LƯỚI, AUTOTILE TỰ CHỌN Ô THEO Ô KỀ
+                    </InfoBox>
+
+                    <div className="space-y-2">
+                        <Label>TILE ĐỂ VẼ</Label>
+                        <div className="grid grid-cols-2 gap-2">
+                            <button 
+                                onClick={handleAddMapTile}
+                                disabled={!generatedImage}
+                                className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                title="Thêm ảnh đang mở (tile liền mạch) làm một ô vẽ"
+                            >
+                                <Plus size={14} /> ẢNH ĐANG MỞ
+                            </button>
+                            <button 
+                                onClick={handleAddMapAutotile}
+                                disabled={!autotileSet}
+                                className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                                title="Thêm bộ autotile đã ghép ở tab TILE SET"
+                            >
+                                <Plus size={14} /> BỘ AUTOTILE
+                            </button>
+                        </div>
+                        {mapBrushes.length > 0 ? (
+                            <MapBrushList brushes={mapBrushes} activeId={activeMapBrush} onSelect={setActiveMapBrush} onRemove={handleRemoveMapBrush} />
+                        ) : (
+                            <p className="text-[10px] font-mono text-cyber-dim">CHƯA CÓ TILE. Ô ĐẦU TIÊN QUYẾT ĐỊNH KÍCH THƯỚC Ô LƯỚI.</p>
+                        )}
+                    </div>
+
+                    <div>
+                        <Label>KÍCH THƯỚC BẢN ĐỒ</Label>
+                        <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                            {MAP_SIZES.map((mapSize, i) => (
+                                <button 
+                                    key={`${mapSize.width}x${mapSize.height}`}
+                                    onClick={() => setTileMap(m => resizeTileMap(m, mapSize.width, mapSize.height))}
+                                    className={`flex-1 p-2 text-xs font-bold font-mono transition-colors ${i > 0 ? 'border-l-2 border-cyber-dim' : ''} ${tileMap.width === mapSize.width && tileMap.height === mapSize.height ? 'bg-cyber-accent text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                                >
+                                    {mapSize.width}x{mapSize.height}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <button 
+                            onClick={handleFillMap}
+                            disabled={!activeMapBrush}
+                            className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1 disabled:opacity-50"
+                        >
+                            <Droplet size={14} /> PHỦ KÍN
+                        </button>
+                        <button 
+                            onClick={() => setTileMap(m => createTileMap(m.width, m.height))}
+                            className="bg-cyber-panel border-2 border-red-500/50 text-red-400 hover:bg-red-500 hover:text-white text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                        >
+                            <Trash2 size={14} /> XÓA BẢN ĐỒ
+                        </button>
+                    </div>
+
+                    <ActionButton 
+                        onClick={handleDownloadMap}
+                        disabled={!mapPixels}
+                        loading={false}
+                        icon={<Download size={18} />}
+                        label="XUẤT BẢN ĐỒ PNG"
                         variant="accent"
                     />
                 </div>
@@ -633,21 +2123,62 @@ const App: React.FC = () => {
                         > SỬ DỤNG AI ĐỂ TÁCH NỀN TỰ ĐỘNG
                     </InfoBox>
 
-                    <div>
-                         <Label>1. TẢI ẢNH GỐC</Label>
-                         <FileInput onChange={handleFileUpload} />
-                    </div>
+                    <div>
+                         <Label>1. TẢI ẢNH GỐC</Label>
+                         <FileInput onChange={handleFileUpload} />
+                    </div>
+
+                    <div>
+                        <Label>2. CHUẨN HÓA NỀN (AI)</Label>
+                        <p className="text-[10px] text-cyber-dim mb-2">Dùng AI để đổi nền sang màu đơn sắc (Hồng/Xanh) để dễ dàng xử lý trong Game Engine.</p>
+                        <ActionButton 
+                            onClick={handleBackgroundRemoval}
+                            disabled={isGenerating || !generatedImage}
+                            loading={isGenerating}
+                            icon={<Scissors size={18} />}
+                            label="LỌC NỀN BẰNG AI"
+                            variant="primary"
+                        />
+                    </div>
+
+                    <div className="space-y-3 pt-2 border-t border-cyber-dim/50">
+                        <Label>3. XÓA MÀU HỒNG (CHROMA KEY)</Label>
+                        <p className="text-[10px] text-cyber-dim">Chuyển các điểm ảnh gần màu #FF00FF thành trong suốt.</p>
+
+                        {/* Tolerance Slider */}
+                        <div>
+                            <div className="flex justify-between items-center mb-1">
+                                <Label><span className="flex items-center gap-1"><Gauge size={10}/> ĐỘ DUNG SAI</span></Label>
+                                <span className="text-pink-300 font-mono text-xs">{keyTolerance}%</span>
+                            </div>
+                            <input 
+                                type="range" 
+                                min="0" 
+                                max="60" 
+                                value={keyTolerance} 
+                                onChange={(e) => setKeyTolerance(parseInt(e.target.value))}
+                                className="w-full accent-pink-400 h-2 bg-cyber-dark rounded-lg appearance-none cursor-pointer"
+                            />
+                        </div>
+
+                        {/* Defringe Toggle */}
+                        <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                            <Label><span className="flex items-center gap-1"><Eraser size={10}/> LÀM SẠCH VIỀN</span></Label>
+                            <button 
+                                onClick={() => setKeyDefringe(!keyDefringe)}
+                                className={`w-10 h-5 rounded-full relative transition-colors ${keyDefringe ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${keyDefringe ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                        </div>
 
-                    <div>
-                        <Label>2. CHUẨN HÓA NỀN (AI)</Label>
-                        <p className="text-[10px] text-cyber-dim mb-2">Dùng AI để đổi nền sang màu đơn sắc (Hồng/Xanh) để dễ dàng xử lý trong Game Engine.</p>
                         <ActionButton 
-                            onClick={handleBackgroundRemoval}
+                            onClick={handleReapplyChromaKey}
                             disabled={isGenerating || !generatedImage}
-                            loading={isGenerating}
-                            icon={<Scissors size={18} />}
-                            label="LỌC NỀN BẰNG AI"
-                            variant="primary"
+                            loading={false}
+                            icon={<Droplet size={18} />}
+                            label="ÁP DỤNG CHROMA KEY"
+                            variant="warning"
                         />
                     </div>
                 </div>
@@ -716,6 +2247,32 @@ const App: React.FC = () => {
                                 <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${animLoop ? 'left-6' : 'left-1'}`}></div>
                             </button>
                         </div>
+
+                        {/* Stabilization */}
+                        <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim" title="Tắt cho hành động rời mặt đất như nhảy">
+                            <Label><span className="flex items-center gap-1"><Crosshair size={10}/> TỰ CĂN CHỈNH FRAME</span></Label>
+                            <button 
+                                onClick={() => setAnimStabilize(!animStabilize)}
+                                className={`w-10 h-5 rounded-full relative transition-colors ${animStabilize ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${animStabilize ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                        </div>
+                        <div>
+                            <Label>ĐIỂM NEO</Label>
+                            <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                                {([['bottom', 'CHÂN (GIỮA ĐÁY)'], ['center', 'TÂM']] as const).map(([anchor, label], i) => (
+                                    <button 
+                                        key={anchor}
+                                        onClick={() => handleSetFrameAnchor(anchor)}
+                                        disabled={isGenerating}
+                                        className={`flex-1 p-2 text-xs font-bold font-mono transition-colors ${i > 0 ? 'border-l-2 border-cyber-dim' : ''} ${frameAnchor === anchor ? 'bg-cyber-secondary text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                                    >
+                                        {label}
+                                    </button>
+                                ))}
+                            </div>
+                        </div>
                     </div>
 
                     <ActionButton 
@@ -726,6 +2283,132 @@ const App: React.FC = () => {
                         label="TẠO FRAMES"
                         variant="secondary"
                     />
+
+                    {animationFrames.length > 0 && (
+                        <div className="space-y-3 pt-2 border-t border-cyber-dim/50">
+                            <Label><span className="flex items-center gap-1"><Play size={10}/> XEM TRƯỚC</span></Label>
+                            <AnimationPreview frames={animationFrames} fps={animFps} loop={animLoop} />
+
+                            <div className="flex justify-between items-center">
+                                <Label>FRAMES ({animationFrames.length})</Label>
+                                <button 
+                                    onClick={handleStabilizeFrames}
+                                    className="text-[10px] font-mono text-cyber-dim hover:text-cyber-secondary flex items-center gap-1 mb-2"
+                                    title="Căn mọi frame về cùng điểm neo"
+                                >
+                                    <Crosshair size={10} /> CĂN CHỈNH
+                                </button>
+                            </div>
+                            <div className="grid grid-cols-4 gap-2 p-2 bg-cyber-black border-2 border-cyber-dim">
+                                {animationFrames.map((src, idx) => (
+                                    <div 
+                                        key={idx} 
+                                        className={`relative group aspect-square bg-cyber-panel border-2 overflow-hidden ${editingFrameIndex === idx ? 'border-cyber-secondary' : 'border-cyber-dim'}`}
+                                    >
+                                        <button onClick={() => handleOpenFrame(idx)} className="w-full h-full" title="Mở frame trong trình chỉnh sửa">
+                                            <img src={src} className="pixelated w-full h-full object-contain" />
+                                        </button>
+                                        <span className="absolute top-0 left-0 px-1 bg-cyber-black/80 text-[9px] font-mono text-cyber-dim">{idx + 1}</span>
+                                        <div className="absolute bottom-0 inset-x-0 hidden group-hover:flex justify-between bg-cyber-black/90">
+                                            <button onClick={() => handleMoveFrame(idx, -1)} disabled={idx === 0} className="p-[2px] text-cyber-dim hover:text-cyber-secondary disabled:opacity-30"><ArrowLeft size={10} /></button>
+                                            <button onClick={() => handleDeleteFrame(idx)} className="p-[2px] text-cyber-dim hover:text-red-400"><Trash2 size={10} /></button>
+                                            <button onClick={() => handleMoveFrame(idx, 1)} disabled={idx === animationFrames.length - 1} className="p-[2px] text-cyber-dim hover:text-cyber-secondary disabled:opacity-30"><ArrowRight size={10} /></button>
+                                        </div>
+                                    </div>
+                                ))}
+                            </div>
+
+                            {editingFrameIndex !== null && (
+                                <button 
+                                    onClick={handleWriteCurrentToFrame}
+                                    disabled={!generatedImage || generatedImage === animationFrames[editingFrameIndex]}
+                                    className="w-full bg-cyber-panel border-2 border-cyber-dim text-cyber-text hover:border-cyber-secondary hover:text-cyber-secondary text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all disabled:opacity-50"
+                                >
+                                    <Save size={14} /> GHI ẢNH HIỆN TẠI VÀO FRAME {editingFrameIndex + 1}
+                                </button>
+                            )}
+
+                            {/* Export */}
+                            <div className="pt-2 border-t border-cyber-dim/50 space-y-2">
+                                <div className="flex justify-between items-center">
+                                    <Label><span className="flex items-center gap-1"><Download size={10}/> XUẤT FILE</span></Label>
+                                    <div className="flex items-center gap-2">
+                                        <span className="text-[10px] font-mono text-cyber-dim">PHÓNG TO</span>
+                                        <select 
+                                            value={exportScale}
+                                            onChange={(e) => setExportScale(parseInt(e.target.value))}
+                                            className="bg-cyber-black border-2 border-cyber-dim text-cyber-text p-1 text-xs font-mono focus:border-cyber-primary outline-none cursor-pointer"
+                                        >
+                                            {EXPORT_SCALES.map(n => <option key={n} value={n}>{n}x</option>)}
+                                        </select>
+                                    </div>
+                                </div>
+                                <div className="grid grid-cols-2 gap-2">
+                                    <button 
+                                        onClick={() => handleExportAnimation('gif')}
+                                        className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                                    >
+                                        <Download size={14} /> GIF
+                                    </button>
+                                    <button 
+                                        onClick={() => handleExportAnimation('apng')}
+                                        className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                                    >
+                                        <Download size={14} /> APNG
+                                    </button>
+                                </div>
+                                <p className="text-[10px] text-cyber-dim font-mono">{Math.round(1000 / animFps)}ms/frame // {animLoop ? 'lặp vô hạn' : 'phát 1 lần'}</p>
+                            </div>
+                        </div>
+                    )}
+
+                    {/* Animation Set */}
+                    <div className="space-y-3 pt-4 border-t-2 border-cyber-dim/50">
+                        <Label><span className="flex items-center gap-1"><Layers size={10}/> BỘ HOẠT ẢNH (MỖI HÀNH ĐỘNG MỘT HÀNG)</span></Label>
+                        <AnimationSetList 
+                            entries={animationSet}
+                            onChange={updateAnimationSetEntry}
+                            onNameBlur={handleAnimationSetNameBlur}
+                            onRemove={(id) => setAnimationSet(prev => prev.filter(e => e.id !== id))}
+                            onPreview={handlePreviewAnimationSetAction}
+                            onRegenerate={handleRegenerateAnimationSetAction}
+                            canEdit={!isGenerating && (!!generatedImage || !!animationSetReference)}
+                        />
+                        <div className="flex gap-2">
+                            <select 
+                                value={animationSetPreset}
+                                onChange={(e) => setAnimationSetPreset(e.target.value)}
+                                className="flex-1 bg-cyber-black border-2 border-cyber-dim text-cyber-text p-1 text-xs font-mono focus:border-cyber-primary outline-none cursor-pointer"
+                            >
+                                {ANIMATION_PRESETS.map(p => <option key={p.name} value={p.name}>{p.name.toUpperCase()} ({p.frames} FRAME)</option>)}
+                            </select>
+                            <button 
+                                onClick={handleAddAnimationSetAction}
+                                disabled={isGenerating}
+                                className="bg-cyber-panel border-2 border-cyber-dim text-cyber-text hover:border-cyber-primary hover:text-cyber-primary text-xs font-bold font-mono px-3 flex items-center gap-1 transition-all disabled:opacity-50"
+                            >
+                                <Plus size={12} /> THÊM
+                            </button>
+                        </div>
+
+                        <ActionButton 
+                            onClick={handleGenerateAnimationSet}
+                            disabled={isGenerating || !generatedImage || animationSet.length === 0}
+                            loading={isGenerating}
+                            icon={<Layers size={18} />}
+                            label={`TẠO BỘ ${animationSet.length} HÀNH ĐỘNG`}
+                            variant="secondary"
+                        />
+
+                        {animationSet.some(e => e.status === 'done') && (
+                            <button
+                                onClick={handleSendAnimationSetToSheet}
+                                className="w-full bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                            >
+                                <Grid size={12} /> GỬI BỘ VÀO SHEET
+                            </button>
+                        )}
+                    </div>
                 </div>
             );
         case AppMode.SPRITE_SHEET:
@@ -751,18 +2434,48 @@ const App: React.FC = () => {
                                 </button>
                              )}
                         </div>
+                        {animationFrames.length > 0 && (
+                            <button 
+                                onClick={handleAddFramesToSheet}
+                                className="w-full mb-2 bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                            >
+                                <Film size={14} /> THÊM {animationFrames.length} FRAME HOẠT ẢNH
+                            </button>
+                        )}
+                        <div className="flex items-center gap-2 mb-2">
+                            <Tag size={14} className="text-cyber-dim shrink-0" />
+                            <input 
+                                type="text"
+                                value={sheetTag}
+                                onChange={(e) => setSheetTag(e.target.value)}
+                                placeholder="Tag hoạt ảnh (vd: walk)..."
+                                className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-2 text-xs font-mono focus:border-cyber-accent outline-none"
+                            />
+                        </div>
 
                         {/* Thumbnail Grid */}
                         <div className="grid grid-cols-4 gap-2 max-h-40 overflow-y-auto p-2 bg-cyber-black border-2 border-cyber-dim scrollbar-thin">
-                            {sheetImages.map((src, idx) => (
-                                <div key={idx} className="relative group aspect-square bg-cyber-panel border border-cyber-dim overflow-hidden pixelated">
-                                    <img src={src} className="w-full h-full object-contain" />
-                                    <button 
-                                        onClick={() => handleRemoveFromSheet(idx)}
-                                        className="absolute inset-0 bg-red-900/90 hidden group-hover:flex items-center justify-center text-white"
-                                    >
-                                        <Trash2 size={16} />
-                                    </button>
+                            {sheetImages.map((item, idx) => (
+                                <div key={idx} className="relative group aspect-square bg-cyber-panel border border-cyber-dim overflow-hidden pixelated" title={item.name}>
+                                    <img src={item.src} className="w-full h-full object-contain" />
+                                    {item.tag && (
+                                        <span className="absolute bottom-0 inset-x-0 bg-cyber-black/80 text-cyber-secondary text-[8px] font-mono truncate px-1">{item.tag}</span>
+                                    )}
+                                    <div className="absolute inset-0 hidden group-hover:flex">
+                                        <button 
+                                            onClick={() => handleTagSheetItem(idx)}
+                                            className="flex-1 bg-cyber-secondary/90 flex items-center justify-center text-cyber-black"
+                                            title={sheetTag.trim() ? `Gán tag "${sheetTag.trim()}"` : 'Xóa tag'}
+                                        >
+                                            <Tag size={12} />
+                                        </button>
+                                        <button 
+                                            onClick={() => handleRemoveFromSheet(idx)}
+                                            className="flex-1 bg-red-900/90 flex items-center justify-center text-white"
+                                        >
+                                            <Trash2 size={12} />
+                                        </button>
+                                    </div>
                                 </div>
                             ))}
                             {sheetImages.length === 0 && (
@@ -771,7 +2484,27 @@ const App: React.FC = () => {
                         </div>
                     </div>
 
+                    {/* Layout Mode */}
+                    <div>
+                        <Label>BỐ CỤC</Label>
+                        <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                            <button 
+                                onClick={() => setSheetLayout('grid')}
+                                className={`flex-1 flex items-center justify-center gap-2 p-2 text-xs font-bold font-mono transition-colors ${sheetLayout === 'grid' ? 'bg-cyber-accent text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                            >
+                                <Grid size={14} /> LƯỚI
+                            </button>
+                            <button 
+                                onClick={() => setSheetLayout('packed')}
+                                className={`flex-1 flex items-center justify-center gap-2 p-2 text-xs font-bold font-mono transition-colors border-l-2 border-cyber-dim ${sheetLayout === 'packed' ? 'bg-cyber-accent text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                            >
+                                <Package size={14} /> ĐÓNG GÓI
+                            </button>
+                        </div>
+                    </div>
+
                     <div className="grid grid-cols-2 gap-4">
+                        {sheetLayout === 'grid' ? (
                          <div>
                             <Label>SỐ CỘT</Label>
                             <input 
@@ -780,9 +2513,23 @@ const App: React.FC = () => {
                                 max="20"
                                 value={sheetColumns}
                                 onChange={(e) => setSheetColumns(parseInt(e.target.value) || 1)}
+                                disabled={sheetRowPerTag}
+                                className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-2 text-sm font-mono focus:border-cyber-accent outline-none disabled:opacity-50"
+                            />
+                        </div>
+                        ) : (
+                        <div>
+                            <Label>VIỀN KÉO DÃN (PX)</Label>
+                            <input 
+                                type="number" 
+                                min="0" 
+                                max="8"
+                                value={sheetExtrude}
+                                onChange={(e) => setSheetExtrude(Math.min(8, Math.max(0, parseInt(e.target.value) || 0)))}
                                 className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-2 text-sm font-mono focus:border-cyber-accent outline-none"
                             />
                         </div>
+                        )}
                         <div>
                             <Label>KHOẢNG CÁCH (PX)</Label>
                             <input 
@@ -796,6 +2543,52 @@ const App: React.FC = () => {
                         </div>
                     </div>
 
+                    {sheetLayout === 'grid' && (
+                        <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                            <Label>MỖI TAG MỘT HÀNG</Label>
+                            <button 
+                                onClick={() => setSheetRowPerTag(!sheetRowPerTag)}
+                                className={`w-10 h-5 rounded-full relative transition-colors ${sheetRowPerTag ? 'bg-cyber-accent' : 'bg-cyber-dim'}`}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${sheetRowPerTag ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                        </div>
+                    )}
+
+                    {sheetLayout === 'packed' && (
+                        <div className="space-y-2 p-3 bg-cyber-black border-2 border-cyber-dim">
+                            <div className="flex items-center justify-between">
+                                <Label>CẮT VIỀN TRONG SUỐT</Label>
+                                <button 
+                                    onClick={() => setSheetTrim(!sheetTrim)}
+                                    className={`w-10 h-5 rounded-full relative transition-colors ${sheetTrim ? 'bg-cyber-accent' : 'bg-cyber-dim'}`}
+                                >
+                                    <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${sheetTrim ? 'left-6' : 'left-1'}`}></div>
+                                </button>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <Label>KÍCH THƯỚC LŨY THỪA 2</Label>
+                                <button 
+                                    onClick={() => setSheetPowerOfTwo(!sheetPowerOfTwo)}
+                                    className={`w-10 h-5 rounded-full relative transition-colors ${sheetPowerOfTwo ? 'bg-cyber-accent' : 'bg-cyber-dim'}`}
+                                >
+                                    <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${sheetPowerOfTwo ? 'left-6' : 'left-1'}`}></div>
+                                </button>
+                            </div>
+                            <div className="flex items-center justify-between">
+                                <Label>KÍCH THƯỚC TỐI ĐA</Label>
+                                <select 
+                                    value={sheetMaxSize}
+                                    onChange={(e) => setSheetMaxSize(parseInt(e.target.value))}
+                                    className="bg-cyber-black border-2 border-cyber-dim text-cyber-text p-1 text-xs font-mono focus:border-cyber-accent outline-none cursor-pointer"
+                                >
+                                    {[256, 512, 1024, 2048, 4096].map(n => <option key={n} value={n}>{n}px</option>)}
+                                </select>
+                            </div>
+                            <p className="text-[10px] text-cyber-dim font-mono">Căn lề bên dưới dùng làm pivot của frame</p>
+                        </div>
+                    )}
+
                     {/* Alignment Controls */}
                     <div className="grid grid-cols-2 gap-4">
                         <div>
@@ -860,13 +2653,33 @@ const App: React.FC = () => {
                         label="XUẤT SHEET"
                         variant="accent"
                     />
+
+                    {/* Atlas Export */}
+                    <div className="space-y-2 p-3 bg-cyber-black border-2 border-cyber-dim">
+                        <Label><span className="flex items-center gap-1"><FileArchive size={10}/> ATLAS JSON</span></Label>
+                        <select 
+                            value={atlasFormat}
+                            onChange={(e) => setAtlasFormat(e.target.value as AtlasFormat)}
+                            className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-2 text-xs font-mono focus:border-cyber-accent outline-none cursor-pointer"
+                        >
+                            {ATLAS_FORMATS.map(f => <option key={f.id} value={f.id}>{f.label}</option>)}
+                        </select>
+                        <button 
+                            onClick={handleDownloadSheetZip}
+                            disabled={isGenerating || sheetImages.length === 0}
+                            className="w-full bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black disabled:opacity-50 disabled:pointer-events-none text-xs font-bold font-mono py-2 px-3 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                        >
+                            <Download size={14} /> TẢI ZIP (PNG + JSON)
+                        </button>
+                        <p className="text-[10px] text-cyber-dim font-mono">Ảnh liên tiếp cùng tag = 1 animation // {animFps} FPS</p>
+                    </div>
                 </div>
             );
         case AppMode.STYLE_TRANSFER:
             return (
                 <div className="space-y-6">
                      <InfoBox>
-                        > ĐẦU VÀO: ẢNH THẬT<br/>> XỬ LÝ: 16-BIT PIXEL HÓA
+                        {'>'} ĐẦU VÀO: ẢNH THẬT<br/>{'>'} XỬ LÝ: PIXEL HÓA THEO STYLE, KÍCH THƯỚC VÀ BẢNG MÀU ĐÃ CHỌN
                     </InfoBox>
 
                     <div className="border-2 border-dashed border-cyber-dim hover:border-cyber-primary bg-cyber-black p-8 flex flex-col items-center justify-center transition-all group">
@@ -875,8 +2688,61 @@ const App: React.FC = () => {
                             CHỌN TỆP ẢNH
                             <input type="file" className="hidden" accept="image/*" onChange={handleFileUpload} />
                         </label>
+                        {transferSource && <p className="mt-3 text-[10px] font-mono text-cyber-dim truncate max-w-full">{transferSource.name}</p>}
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <Label>KÍCH THƯỚC</Label>
+                            <Select 
+                                value={size}
+                                onChange={(e) => setSize(e.target.value as SpriteSize)}
+                                options={Object.values(SpriteSize)}
+                            />
+                        </div>
+                        <div>
+                            <Label>PHONG CÁCH</Label>
+                            <Select 
+                                value={style}
+                                onChange={(e) => setStyle(e.target.value as ArtStyle)}
+                                options={Object.values(ArtStyle)}
+                            />
+                        </div>
+                    </div>
+
+                    {renderCustomStyleControls()}
+
+                    <div className="space-y-2">
+                        <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                            <Label>VIỀN NGOÀI (OUTLINE)</Label>
+                            <button 
+                                onClick={() => setTransferOutline(!transferOutline)}
+                                className={`w-10 h-5 rounded-full relative transition-colors ${transferOutline ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${transferOutline ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                        </div>
+                        <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                            <Label><span className="flex items-center gap-1"><Grid size={10}/> ÉP ĐÚNG {size} PX</span></Label>
+                            <button 
+                                onClick={() => setEnforceSize(!enforceSize)}
+                                className={`w-10 h-5 rounded-full relative transition-colors ${enforceSize ? 'bg-cyber-primary' : 'bg-cyber-dim'}`}
+                            >
+                                <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${enforceSize ? 'left-6' : 'left-1'}`}></div>
+                            </button>
+                        </div>
+                        <p className="text-[10px] text-cyber-dim font-mono">BẢNG MÀU: THEO MỤC KHÓA BẢNG MÀU BÊN DƯỚI</p>
                     </div>
 
+                    <ActionButton 
+                        onClick={handleStyleTransfer}
+                        disabled={isGenerating || !transferSource || (style === ArtStyle.CUSTOM && !customStyle)}
+                        loading={isGenerating}
+                        icon={<Layers size={18} />}
+                        label="CHUYỂN ĐỔI"
+                        variant="primary"
+                    />
+
                      {isGenerating && (
                         <div className="flex items-center justify-center gap-2 text-cyber-primary font-mono animate-pulse">
                             <Loader2 className="animate-spin" /> ĐANG XỬ LÝ DỮ LIỆU...
@@ -884,6 +2750,248 @@ const App: React.FC = () => {
                      )}
                 </div>
             );
+        case AppMode.SETTINGS:
+            return (
+                <div className="space-y-6">
+                    <InfoBox>
+                        {'>'} NHÀ CUNG CẤP ẢNH<br/>{'>'} ĐANG DÙNG: {provider.label.toUpperCase()}
+                    </InfoBox>
+
+                    <div>
+                        <Label>NHÀ CUNG CẤP</Label>
+                        <select 
+                            value={providerSettings.providerId}
+                            onChange={(e) => setProviderSettings(prev => ({ ...prev, providerId: e.target.value as ProviderSettings['providerId'] }))}
+                            className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text rounded-none p-2 text-sm font-mono focus:border-cyber-primary outline-none cursor-pointer hover:border-cyber-text transition-colors shadow-pixel-sm"
+                        >
+                            {PROVIDER_OPTIONS.map(o => <option key={o.id} value={o.id}>{o.label}</option>)}
+                        </select>
+                    </div>
+
+                    {providerSettings.providerId === 'http' && (
+                        <div className="space-y-3 p-3 bg-cyber-black border border-cyber-dim/50">
+                            {([
+                                ['baseUrl', 'ĐỊA CHỈ MÁY CHỦ', 'http://localhost:8188', 'text'],
+                                ['model', 'MODEL / WORKFLOW', 'sdxl-pixel-art', 'text'],
+                                ['apiKey', 'API KEY (TÙY CHỌN)', '', 'password'],
+                            ] as const).map(([key, label, placeholder, type]) => (
+                                <div key={key}>
+                                    <Label>{label}</Label>
+                                    <input 
+                                        type={type}
+                                        value={providerSettings.http[key]}
+                                        onChange={(e) => setProviderSettings(prev => ({ ...prev, http: { ...prev.http, [key]: e.target.value } }))}
+                                        placeholder={placeholder}
+                                        className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-2 text-xs font-mono focus:border-cyber-secondary outline-none"
+                                    />
+                                </div>
+                            ))}
+                            <p className="text-[10px] text-cyber-dim font-mono leading-relaxed">
+                                POST {providerSettings.http.baseUrl.replace(/\/+$/, '')}/sprite | edit | animate | convert | remove-background | tileset | turnaround → {'{ image }'}
+                            </p>
+                        </div>
+                    )}
+                </div>
+            );
+        case AppMode.TURNAROUND:
+            return (
+                <div className="space-y-6">
+                    <InfoBox borderColor="border-cyber-secondary/50" textColor="text-cyber-secondary">
+                        {'>'} NGUỒN: SPRITE ĐANG MỞ<br/>
+                        {'>'} THỨ TỰ HÀNG: XUỐNG, TRÁI, PHẢI, LÊN{activeDirections.length === 8 ? ', CHÉO' : ''}
+                    </InfoBox>
+
+                    <div>
+                        <Label>SỐ HƯỚNG {turnaroundDirections === null && <span className="text-cyber-dim">(THEO STYLE)</span>}</Label>
+                        <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                            {([['4 HƯỚNG', FOUR_DIRECTIONS], ['8 HƯỚNG', EIGHT_DIRECTIONS]] as const).map(([label, directions], i) => (
+                                <button 
+                                    key={label}
+                                    onClick={() => setTurnaroundDirections(directions)}
+                                    className={`flex-1 p-2 text-xs font-bold font-mono transition-colors ${i > 0 ? 'border-l-2 border-cyber-dim' : ''} ${activeDirections.length === directions.length ? 'bg-cyber-secondary text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                    </div>
+
+                    <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                        <Label>DÙNG SPRITE GỐC LÀM MẶT TRƯỚC</Label>
+                        <button 
+                            onClick={() => setTurnaroundKeepFront(!turnaroundKeepFront)}
+                            className={`w-10 h-5 rounded-full relative transition-colors ${turnaroundKeepFront ? 'bg-cyber-secondary' : 'bg-cyber-dim'}`}
+                        >
+                            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${turnaroundKeepFront ? 'left-6' : 'left-1'}`}></div>
+                        </button>
+                    </div>
+                    <div className="flex items-center justify-between p-2 bg-cyber-black border border-cyber-dim">
+                        <Label>LẬT HƯỚNG TRÁI THÀNH PHẢI</Label>
+                        <button 
+                            onClick={() => setTurnaroundMirror(!turnaroundMirror)}
+                            className={`w-10 h-5 rounded-full relative transition-colors ${turnaroundMirror ? 'bg-cyber-secondary' : 'bg-cyber-dim'}`}
+                        >
+                            <div className={`absolute top-1 w-3 h-3 bg-white rounded-full transition-transform ${turnaroundMirror ? 'left-6' : 'left-1'}`}></div>
+                        </button>
+                    </div>
+
+                    <ActionButton 
+                        onClick={handleGenerateTurnaround}
+                        disabled={isGenerating || !generatedImage}
+                        loading={isGenerating}
+                        icon={<Compass size={18} />}
+                        label={`TẠO ${activeDirections.length} HƯỚNG`}
+                        variant="secondary"
+                    />
+
+                    <TurnaroundGrid 
+                        views={turnaroundViews}
+                        referenceUrl={turnaroundReference}
+                        onOpen={(view) => commitImage(view.url!, 'turnaround', view.direction)}
+                        onRegenerate={handleRegenerateTurnaroundView}
+                        canRegenerate={!isGenerating}
+                    />
+
+                    {turnaroundViews.some(v => v.status === 'done') && (
+                        <button
+                            onClick={handleSendTurnaroundToSheet}
+                            className="w-full bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+                        >
+                            <Grid size={12} /> GỬI VÀO SHEET (MỖI HƯỚNG MỘT HÀNG)
+                        </button>
+                    )}
+                </div>
+            );
+        case AppMode.BATCH:
+            return (
+                <div className="space-y-6">
+                    <InfoBox borderColor="border-cyber-accent/50" textColor="text-cyber-accent">
+                        {'>'} CSV: prompt,style,size (HOẶC CÓ TIÊU ĐỀ)<br/>
+                        {'>'} JSON: ["iron sword", {'{"prompt": "...", "size": 16}'}]<br/>
+                        {'>'} MÔ HÌNH: FLASH // TỰ THỬ LẠI KHI LỖI
+                    </InfoBox>
+
+                    <div>
+                        <Label>DANH SÁCH PROMPT</Label>
+                        <textarea 
+                            value={batchText}
+                            onChange={(e) => setBatchText(e.target.value)}
+                            placeholder={"iron sword\nhealth potion,Pico-8 Palette,16"}
+                            className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-secondary p-3 text-xs font-mono focus:border-cyber-primary focus:outline-none min-h-[120px] resize-y placeholder-cyber-dim/50"
+                        />
+                        <div className="flex gap-2 mt-2">
+                            <label className="flex-1 bg-cyber-black border-2 border-cyber-dim text-cyber-dim hover:text-white hover:border-cyber-text text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 cursor-pointer transition-colors">
+                                <Upload size={12} /> TẢI CSV/JSON
+                                <input type="file" accept=".csv,.json,.txt" onChange={handleBatchFileUpload} className="hidden" />
+                            </label>
+                            <button
+                                onClick={handleQueueBatch}
+                                disabled={!batchText.trim()}
+                                className="flex-1 bg-cyber-black border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black disabled:opacity-50 disabled:pointer-events-none text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-colors"
+                            >
+                                <Plus size={12} /> THÊM VÀO HÀNG ĐỢI
+                            </button>
+                        </div>
+                    </div>
+
+                    <div className="grid grid-cols-2 gap-4">
+                        <div>
+                            <Label>KÍCH THƯỚC MẶC ĐỊNH</Label>
+                            <Select 
+                                value={size}
+                                onChange={(e) => setSize(e.target.value as SpriteSize)}
+                                options={Object.values(SpriteSize)}
+                            />
+                        </div>
+                        <div>
+                            <Label>STYLE MẶC ĐỊNH</Label>
+                            <Select 
+                                value={style}
+                                onChange={(e) => setStyle(e.target.value as ArtStyle)}
+                                options={Object.values(ArtStyle)}
+                            />
+                        </div>
+                    </div>
+
+                    <BatchQueue
+                        jobs={batchJobs}
+                        resultUrls={batchResultUrls}
+                        onOpen={(job) => commitImage(batchResultUrls[job.id], 'library', job.prompt)}
+                        onRemove={(id) => updateBatchJobs(prev => prev.filter(j => j.id !== id))}
+                        canEdit={!isBatchRunning}
+                    />
+
+                    {isBatchRunning ? (
+                        <ActionButton 
+                            onClick={() => batchRequest.current?.abort()}
+                            disabled={false}
+                            loading={false}
+                            icon={<Pause size={18} />}
+                            label="DỪNG"
+                            variant="secondary"
+                        />
+                    ) : (
+                        <ActionButton 
+                            onClick={handleRunBatch}
+                            disabled={!batchJobs.some(j => j.status === 'pending' || j.status === 'running') || (style === ArtStyle.CUSTOM && !customStyle)}
+                            loading={false}
+                            icon={<Play size={18} />}
+                            label={batchJobs.some(j => j.status === 'done') ? 'TIẾP TỤC' : 'CHẠY HÀNG ĐỢI'}
+                            variant="primary"
+                        />
+                    )}
+
+                    <div className="grid grid-cols-2 gap-2">
+                        <button
+                            onClick={() => updateBatchJobs(retryFailedBatchJobs)}
+                            disabled={isBatchRunning || !batchJobs.some(j => j.status === 'error')}
+                            className="bg-cyber-black border-2 border-cyber-dim text-cyber-dim hover:text-white hover:border-cyber-text disabled:opacity-50 disabled:pointer-events-none text-[10px] font-bold font-mono py-2 flex items-center justify-center gap-1 transition-colors"
+                        >
+                            <RotateCcw size={12} /> THỬ LẠI LỖI
+                        </button>
+                        <button
+                            onClick={() => confirm('Xóa toàn bộ hàng đợi? Ảnh đã tạo vẫn còn trong thư viện.') && updateBatchJobs(() => [])}
+                            disabled={isBatchRunning || batchJobs.length === 0}
+                            className="bg-cyber-black border-2 border-cyber-dim text-cyber-dim hover:text-red-400 hover:border-red-400 disabled:opacity-50 disabled:pointer-events-none text-[10px] font-bold font-mono py-2 flex items-center justify-center gap-1 transition-colors"
+                        >
+                            <Trash2 size={12} /> XÓA HÀNG ĐỢI
+                        </button>
+                        <button
+                            onClick={() => setSheetImages(prev => [...prev, ...batchSheetItems()])}
+                            disabled={Object.keys(batchResultUrls).length === 0}
+                            className="bg-cyber-black border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black disabled:opacity-50 disabled:pointer-events-none text-[10px] font-bold font-mono py-2 flex items-center justify-center gap-1 transition-colors"
+                        >
+                            <Grid size={12} /> GỬI VÀO SHEET
+                        </button>
+                        <button
+                            onClick={handleDownloadBatchZip}
+                            disabled={isGenerating || Object.keys(batchResultUrls).length === 0}
+                            className="bg-cyber-black border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black disabled:opacity-50 disabled:pointer-events-none text-[10px] font-bold font-mono py-2 flex items-center justify-center gap-1 transition-colors"
+                        >
+                            <FileArchive size={12} /> TẢI ZIP + SHEET
+                        </button>
+                    </div>
+                    <p className="text-[10px] text-cyber-dim font-mono leading-relaxed">
+                        Sheet dùng bố cục, định dạng atlas và tag của tab GHÉP SHEET.
+                    </p>
+                </div>
+            );
+        case AppMode.LIBRARY:
+            return (
+                <div className="space-y-6">
+                    <InfoBox borderColor="border-yellow-400/50" textColor="text-yellow-400">
+                        {'>'} LƯU TRỮ: INDEXEDDB<br/>{'>'} TỰ ĐỘNG GHI MỌI KẾT QUẢ TẠO
+                    </InfoBox>
+                    <AssetLibrary 
+                        assets={assets}
+                        onLoad={handleLoadAsset}
+                        onAddToSheet={handleAddAssetsToSheet}
+                        onToggleFavorite={(a) => updateLibraryAsset(a.id, { favorite: !a.favorite })}
+                        onSetTags={(a, tags) => updateLibraryAsset(a.id, { tags })}
+                        onDelete={handleDeleteAssets}
+                    />
+                </div>
+            );
         default:
             return null;
     }
@@ -909,7 +3017,12 @@ const App: React.FC = () => {
                   {currentMode === AppMode.ANIMATION && <><Film size={16} className="text-cyber-secondary"/><span className="text-cyber-secondary">TẠO HOẠT HÌNH</span></>}
                   {currentMode === AppMode.SPRITE_SHEET && <><Grid size={16} className="text-cyber-accent"/><span className="text-cyber-accent">GHÉP SPRITE SHEET</span></>}
                   {currentMode === AppMode.STYLE_TRANSFER && <><Layers size={16} className="text-pink-400"/><span className="text-pink-400">CHUYỂN ĐỔI STYLE</span></>}
+                  {currentMode === AppMode.SETTINGS && <><Server size={16} className="text-cyber-secondary"/><span className="text-cyber-secondary">CÀI ĐẶT BACKEND</span></>}
+                  {currentMode === AppMode.TURNAROUND && <><Compass size={16} className="text-cyber-secondary"/><span className="text-cyber-secondary">XOAY HƯỚNG NHÂN VẬT</span></>}
+                  {currentMode === AppMode.BATCH && <><ListChecks size={16} className="text-cyber-accent"/><span className="text-cyber-accent">TẠO HÀNG LOẠT</span></>}
+                  {currentMode === AppMode.LIBRARY && <><Library size={16} className="text-yellow-400"/><span className="text-yellow-400">THƯ VIỆN ASSET</span></>}
                   {currentMode === AppMode.TILE_GENERATOR && <><BrickWall size={16} className="text-green-400"/><span className="text-green-400 drop-shadow-[0_0_5px_rgba(0,255,0,0.5)]">TẠO TILE SET</span></>}
+                  {currentMode === AppMode.MAP_PAINTER && <><MapIcon size={16} className="text-green-400"/><span className="text-green-400">BẢN ĐỒ THỬ TILE</span></>}
                </h2>
             </div>
             
@@ -943,7 +3056,49 @@ const App: React.FC = () => {
                          <div className="absolute bottom-0 left-0 w-8 h-8 border-b-2 border-l-2 border-cyber-secondary z-20 pointer-events-none"></div>
                          <div className="absolute bottom-0 right-0 w-8 h-8 border-b-2 border-r-2 border-cyber-secondary z-20 pointer-events-none"></div>
                         
-                        <PixelEditor imageUrl={generatedImage} />
+                        {currentMode === AppMode.MAP_PAINTER ? (
+                            <PixelEditor 
+                                key="map"
+                                imageUrl={null}
+                                pixels={mapPixels}
+                                regions={mapGrid}
+                                cellSize={mapCell}
+                                onPaintCell={handlePaintMapCell}
+                            />
+                        ) : (
+                            <PixelEditor 
+                                imageUrl={generatedImage} 
+                                onSave={handleEditorSave} 
+                                regions={sheetRegions && sheetRegions.imageUrl === generatedImage ? sheetRegions.rects : undefined}
+                                onionSkin={onionSkinFrames}
+                                tileable={checksSeams}
+                                compareWith={transferComparison && transferComparison.result === generatedImage ? transferComparison.source : undefined}
+                            />
+                        )}
+                        
+                        <HistoryTimeline 
+                            entries={history.entries}
+                            currentId={history.currentId}
+                            activePath={getActivePath(history)}
+                            canUndo={canUndo(history)}
+                            canRedo={canRedo(history)}
+                            onSelect={(id) => setHistory(h => jumpToHistory(h, id))}
+                            onUndo={handleUndo}
+                            onRedo={handleRedo}
+                        />
+
+                        {isCancellable && (
+                            <div className="absolute inset-0 z-30 bg-cyber-black/70 flex flex-col items-center justify-center gap-4 font-mono">
+                                <Loader2 size={32} className="animate-spin text-cyber-primary" />
+                                <span className="text-cyber-primary text-xs tracking-widest animate-pulse">ĐANG CHỜ MÔ HÌNH...</span>
+                                <button 
+                                    onClick={handleCancelRequest}
+                                    className="bg-cyber-panel border-2 border-red-500/70 text-red-400 hover:bg-red-500 hover:text-white px-4 py-2 text-xs font-bold flex items-center gap-2 shadow-pixel-sm transition-all active:translate-y-1"
+                                >
+                                    <X size={14} /> HỦY YÊU CẦU
+                                </button>
+                            </div>
+                        )}
                     </div>
                 </div>
             </div>
@@ -966,6 +3121,7 @@ const App: React.FC = () => {
                 
                 <div className="p-5 overflow-y-auto flex-1 scrollbar-thin">
                     {renderConfigurationPanel()}
+                    {currentMode !== AppMode.SPRITE_SHEET && currentMode !== AppMode.LIBRARY && currentMode !== AppMode.SETTINGS && renderPaletteControls()}
                     
                     {error && (
                         <div className="mt-6 p-4 bg-red-900/20 border-l-4 border-red-500 text-xs font-mono text-red-300 relative animate-pulse">
@@ -976,7 +3132,7 @@ const App: React.FC = () => {
                 </div>
                 
                 <div className="p-2 border-t-2 border-cyber-dim bg-cyber-black text-[9px] text-cyber-dim text-center font-mono shrink-0">
-                    MÔ HÌNH: GEMINI_2.5_FLASH // ĐỘ TRỄ: THẤP
+                    MÔ HÌNH: {currentModel.toUpperCase().replace(/[-.]/g, '_')} // ĐỘ TRỄ: {provider.id === 'http' ? 'TỰ HOST' : currentModel === provider.modelName(ModelTier.PRO) ? 'CAO' : 'THẤP'}
                 </div>
             </div>
 
@@ -0,0 +1,66 @@
+import React, { useEffect, useState } from 'react';
+import { Pause, Play, RotateCcw } from 'lucide-react';
+
+interface AnimationPreviewProps {
+  frames: string[];
+  fps: number;
+  loop: boolean;
+}
+
+const AnimationPreview: React.FC<AnimationPreviewProps> = ({ frames, fps, loop }) => {
+  const [frameIndex, setFrameIndex] = useState(0);
+  const [isPlaying, setIsPlaying] = useState(true);
+
+  // Restart whenever the sequence itself changes (new generation, re-order, delete)
+  useEffect(() => {
+    setFrameIndex(0);
+    setIsPlaying(true);
+  }, [frames]);
+
+  useEffect(() => {
+    if (!isPlaying || frames.length < 2) return;
+    const timer = setTimeout(() => {
+        if (frameIndex < frames.length - 1) {
+            setFrameIndex(frameIndex + 1);
+        } else if (loop) {
+            setFrameIndex(0);
+        } else {
+            setIsPlaying(false); // One-shot animations hold on the last frame
+        }
+    }, 1000 / Math.max(1, fps));
+    return () => clearTimeout(timer);
+  }, [isPlaying, frameIndex, frames, fps, loop]);
+
+  const handleTogglePlay = () => {
+    if (!isPlaying && frameIndex === frames.length - 1) setFrameIndex(0);
+    setIsPlaying(!isPlaying);
+  };
+
+  if (frames.length === 0) return null;
+
+  return (
+    <div className="bg-cyber-black border-2 border-cyber-dim">
+      <div className="aspect-square flex items-center justify-center bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAHElEQVQYlWNgYGD4z8AARwYYU4WJchJG68KBAwUAl+oH8V206XAAAAAASUVORK5CYII=')] bg-repeat">
+        <img
+            src={frames[Math.min(frameIndex, frames.length - 1)]}
+            className="pixelated w-full h-full object-contain"
+        />
+      </div>
+      <div className="flex items-center justify-between px-2 py-1 border-t-2 border-cyber-dim bg-cyber-dark">
+        <div className="flex items-center gap-2">
+            <button onClick={handleTogglePlay} className="text-cyber-dim hover:text-cyber-secondary" title={isPlaying ? 'Tạm dừng' : 'Phát'}>
+                {isPlaying ? <Pause size={14} /> : <Play size={14} />}
+            </button>
+            <button onClick={() => { setFrameIndex(0); setIsPlaying(true); }} className="text-cyber-dim hover:text-cyber-secondary" title="Phát lại">
+                <RotateCcw size={14} />
+            </button>
+        </div>
+        <span className="text-[10px] font-mono text-cyber-secondary">
+            {Math.min(frameIndex, frames.length - 1) + 1}/{frames.length} @ {fps} FPS {loop ? '∞' : '1x'}
+        </span>
+      </div>
+    </div>
+  );
+};
+
+export default AnimationPreview;
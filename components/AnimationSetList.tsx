@@ -0,0 +1,108 @@
+import React from 'react';
+import { AlertTriangle, Check, Loader2, Play, Repeat, RotateCcw, X } from 'lucide-react';
+import { AnimationSetEntry } from '../utils/animationSet';
+
+interface AnimationSetListProps {
+  entries: AnimationSetEntry[];
+  onChange: (id: string, changes: Partial<AnimationSetEntry>) => void;
+  onNameBlur: (id: string) => void; // Names are turned into unique tags once editing ends
+  onRemove: (id: string) => void;
+  onPreview: (entry: AnimationSetEntry) => void;
+  onRegenerate: (id: string) => void;
+  canEdit: boolean; // Settings are locked while the set is generating
+}
+
+const STATUS_LABELS: Record<AnimationSetEntry['status'], string> = {
+  pending: 'CHỜ',
+  running: 'ĐANG TẠO',
+  done: 'XONG',
+  error: 'LỖI',
+};
+
+const inputClass = 'bg-cyber-black border border-cyber-dim text-cyber-text px-1 py-[2px] text-[10px] font-mono focus:border-cyber-primary outline-none disabled:opacity-50';
+
+const AnimationSetList: React.FC<AnimationSetListProps> = ({ entries, onChange, onNameBlur, onRemove, onPreview, onRegenerate, canEdit }) => {
+  if (entries.length === 0) {
+    return <div className="text-center text-cyber-dim text-xs font-mono py-4 border-2 border-dashed border-cyber-dim">CHƯA CÓ HÀNH ĐỘNG</div>;
+  }
+
+  return (
+    <div className="space-y-1">
+      {entries.map(entry => (
+        <div key={entry.id} className="bg-cyber-black border border-cyber-dim/50 p-1 space-y-1 group">
+          <div className="flex items-center gap-1">
+            <input
+              value={entry.name}
+              onChange={(e) => onChange(entry.id, { name: e.target.value })}
+              onBlur={() => onNameBlur(entry.id)}
+              disabled={!canEdit}
+              className={`${inputClass} w-16`}
+              title="Tag của hàng trong sheet"
+            />
+            <input
+              value={entry.action}
+              onChange={(e) => onChange(entry.id, { action: e.target.value })}
+              disabled={!canEdit}
+              className={`${inputClass} flex-1 min-w-0`}
+              title="Mô tả hành động gửi cho mô hình"
+            />
+            <input
+              type="number"
+              min={3}
+              max={12}
+              value={entry.frames}
+              onChange={(e) => onChange(entry.id, { frames: Math.min(12, Math.max(3, parseInt(e.target.value) || 3)) })}
+              disabled={!canEdit}
+              className={`${inputClass} w-9`}
+              title="Số frame"
+            />
+            <button
+              onClick={() => onChange(entry.id, { loop: !entry.loop })}
+              disabled={!canEdit}
+              className={`p-[2px] ${entry.loop ? 'text-cyber-primary' : 'text-cyber-dim'} disabled:opacity-50`}
+              title={entry.loop ? 'Lặp lại' : 'Phát 1 lần'}
+            >
+              <Repeat size={12} />
+            </button>
+            {canEdit && (
+              <button onClick={() => onRemove(entry.id)} className="text-cyber-dim hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Xóa khỏi bộ">
+                <X size={12} />
+              </button>
+            )}
+          </div>
+
+          <div className="flex items-center gap-1">
+            <div className="flex-1 min-w-0 flex gap-[2px] overflow-hidden h-6">
+              {entry.frameUrls.map((src, i) => (
+                <img key={i} src={src} className="h-6 w-6 shrink-0 object-contain bg-cyber-dark" style={{ imageRendering: 'pixelated' }} />
+              ))}
+              {entry.status === 'error' && <span className="text-[9px] font-mono text-red-400 truncate self-center" title={entry.error}>{entry.error}</span>}
+            </div>
+            <span
+              className={`text-[9px] font-mono shrink-0 flex items-center gap-1 ${
+                entry.status === 'done' ? 'text-cyber-accent' : entry.status === 'error' ? 'text-red-400' : entry.status === 'running' ? 'text-cyber-primary' : 'text-cyber-dim'
+              }`}
+            >
+              {entry.status === 'done' && <Check size={10} />}
+              {entry.status === 'running' && <Loader2 size={10} className="animate-spin" />}
+              {entry.status === 'error' && <AlertTriangle size={10} />}
+              {STATUS_LABELS[entry.status]}
+            </span>
+            {entry.status === 'done' && (
+              <button onClick={() => onPreview(entry)} className="p-[2px] text-cyber-dim hover:text-cyber-secondary" title="Xem trước và chỉnh frame">
+                <Play size={12} />
+              </button>
+            )}
+            {canEdit && entry.status !== 'running' && (
+              <button onClick={() => onRegenerate(entry.id)} className="p-[2px] text-cyber-dim hover:text-cyber-primary" title={entry.status === 'pending' ? 'Tạo hành động này' : 'Tạo lại hành động này'}>
+                <RotateCcw size={12} />
+              </button>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default AnimationSetList;
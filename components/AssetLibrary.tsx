@@ -0,0 +1,225 @@
+import React, { useMemo, useState } from 'react';
+import { Grid, ImagePlus, Search, Star, Tag, Trash2, X } from 'lucide-react';
+import { GeneratedAsset } from '../types';
+
+interface AssetLibraryProps {
+  assets: GeneratedAsset[];
+  onLoad: (asset: GeneratedAsset) => void;
+  onAddToSheet: (assets: GeneratedAsset[]) => void;
+  onToggleFavorite: (asset: GeneratedAsset) => void;
+  onSetTags: (asset: GeneratedAsset, tags: string[]) => void;
+  onDelete: (ids: string[]) => void;
+}
+
+const TYPE_LABELS: Record<GeneratedAsset['type'], string> = {
+  sprite: 'SPRITE',
+  animation: 'HOẠT HÌNH',
+  background: 'TÁCH NỀN',
+  tile: 'TILE',
+};
+
+const matchesQuery = (asset: GeneratedAsset, query: string) => {
+  if (!query) return true;
+  const haystack = [asset.prompt, asset.style, asset.size, asset.mode, asset.model, TYPE_LABELS[asset.type], ...asset.tags]
+    .filter(Boolean)
+    .join(' ')
+    .toLowerCase();
+  // Every word has to appear somewhere
+  return query.toLowerCase().split(/\s+/).every(word => haystack.includes(word));
+};
+
+const AssetLibrary: React.FC<AssetLibraryProps> = ({
+  assets,
+  onLoad,
+  onAddToSheet,
+  onToggleFavorite,
+  onSetTags,
+  onDelete,
+}) => {
+  const [query, setQuery] = useState('');
+  const [favoritesOnly, setFavoritesOnly] = useState(false);
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [focusedId, setFocusedId] = useState<string | null>(null);
+  const [tagInput, setTagInput] = useState('');
+
+  const visible = useMemo(
+    () => assets.filter(a => (!favoritesOnly || a.favorite) && matchesQuery(a, query.trim())),
+    [assets, favoritesOnly, query]
+  );
+  const focused = assets.find(a => a.id === focusedId) ?? null;
+  const parent = focused?.parentId ? assets.find(a => a.id === focused.parentId) : undefined;
+  const selected = assets.filter(a => selectedIds.has(a.id));
+
+  const toggleSelected = (id: string) => {
+    setSelectedIds(prev => {
+      const next = new Set(prev);
+      if (next.has(id)) next.delete(id);
+      else next.add(id);
+      return next;
+    });
+  };
+
+  const toggleSelectAll = () => {
+    const allSelected = visible.length > 0 && visible.every(a => selectedIds.has(a.id));
+    setSelectedIds(allSelected ? new Set() : new Set(visible.map(a => a.id)));
+  };
+
+  const handleAddTag = () => {
+    const tag = tagInput.trim().toLowerCase();
+    if (!focused || !tag || focused.tags.includes(tag)) return;
+    onSetTags(focused, [...focused.tags, tag]);
+    setTagInput('');
+  };
+
+  const handleDeleteSelected = () => {
+    if (selected.length === 0) return;
+    if (!window.confirm(`Xóa ${selected.length} ảnh khỏi thư viện?`)) return;
+    onDelete(selected.map(a => a.id));
+    if (focusedId && selectedIds.has(focusedId)) setFocusedId(null);
+    setSelectedIds(new Set());
+  };
+
+  return (
+    <div className="space-y-4">
+      {/* Search & Filters */}
+      <div className="flex gap-2">
+        <div className="flex-1 flex items-center gap-2 bg-cyber-black border-2 border-cyber-dim px-2 focus-within:border-cyber-secondary">
+          <Search size={14} className="text-cyber-dim shrink-0" />
+          <input
+            type="text"
+            value={query}
+            onChange={(e) => setQuery(e.target.value)}
+            placeholder="Tìm prompt, tag, style..."
+            className="w-full bg-transparent text-cyber-text py-2 text-xs font-mono outline-none"
+          />
+        </div>
+        <button
+          onClick={() => setFavoritesOnly(v => !v)}
+          className={`px-2 border-2 transition-colors ${favoritesOnly ? 'border-yellow-400 text-yellow-400 bg-yellow-400/10' : 'border-cyber-dim text-cyber-dim hover:text-white'}`}
+          title="Chỉ hiện yêu thích"
+        >
+          <Star size={14} fill={favoritesOnly ? 'currentColor' : 'none'} />
+        </button>
+      </div>
+
+      {/* Bulk Actions */}
+      <div className="flex items-center justify-between text-[10px] font-mono text-cyber-dim">
+        <button onClick={toggleSelectAll} className="hover:text-cyber-secondary uppercase tracking-widest">
+          [{visible.length > 0 && visible.every(a => selectedIds.has(a.id)) ? 'BỎ CHỌN' : 'CHỌN TẤT CẢ'}]
+        </button>
+        <span>{visible.length}/{assets.length} ẢNH</span>
+      </div>
+      {selected.length > 0 && (
+        <div className="grid grid-cols-2 gap-2">
+          <button
+            onClick={() => onAddToSheet(selected)}
+            className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+          >
+            <Grid size={12} /> SHEET ({selected.length})
+          </button>
+          <button
+            onClick={handleDeleteSelected}
+            className="bg-cyber-panel border-2 border-red-500/50 text-red-400 hover:bg-red-600 hover:text-white text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+          >
+            <Trash2 size={12} /> XÓA ({selected.length})
+          </button>
+        </div>
+      )}
+
+      {/* Gallery */}
+      <div className="grid grid-cols-3 gap-2 max-h-72 overflow-y-auto p-2 bg-cyber-black border-2 border-cyber-dim scrollbar-thin">
+        {visible.map(asset => (
+          <div
+            key={asset.id}
+            onClick={() => setFocusedId(asset.id)}
+            className={`relative aspect-square bg-cyber-panel border-2 cursor-pointer overflow-hidden transition-colors ${
+              asset.id === focusedId ? 'border-cyber-secondary' : selectedIds.has(asset.id) ? 'border-cyber-primary' : 'border-cyber-dim hover:border-cyber-text'
+            }`}
+            title={asset.prompt}
+          >
+            <img src={asset.url} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+            <input
+              type="checkbox"
+              checked={selectedIds.has(asset.id)}
+              onClick={(e) => e.stopPropagation()}
+              onChange={() => toggleSelected(asset.id)}
+              className="absolute top-1 left-1 accent-cyber-primary cursor-pointer"
+            />
+            {asset.favorite && <Star size={10} className="absolute top-1 right-1 text-yellow-400" fill="currentColor" />}
+          </div>
+        ))}
+        {visible.length === 0 && (
+          <div className="col-span-3 text-center py-8 text-xs font-mono text-cyber-dim">
+            {assets.length === 0 ? 'THƯ VIỆN TRỐNG' : 'KHÔNG TÌM THẤY'}
+          </div>
+        )}
+      </div>
+
+      {/* Details */}
+      {focused && (
+        <div className="space-y-3 p-3 bg-cyber-black border-2 border-cyber-dim">
+          <div className="flex items-start justify-between gap-2">
+            <p className="text-xs font-mono text-cyber-text break-words">{focused.prompt || '(không có prompt)'}</p>
+            <button
+              onClick={() => onToggleFavorite(focused)}
+              className={focused.favorite ? 'text-yellow-400' : 'text-cyber-dim hover:text-yellow-400'}
+              title="Yêu thích"
+            >
+              <Star size={14} fill={focused.favorite ? 'currentColor' : 'none'} />
+            </button>
+          </div>
+          <div className="text-[10px] font-mono text-cyber-dim space-y-1">
+            <div>{TYPE_LABELS[focused.type]}{focused.size ? ` // ${focused.size}` : ''}{focused.style ? ` // ${focused.style}` : ''}</div>
+            {focused.model && <div>MÔ HÌNH: {focused.model}</div>}
+            <div>{new Date(focused.timestamp).toLocaleString()}</div>
+            {parent && (
+              <button onClick={() => setFocusedId(parent.id)} className="hover:text-cyber-secondary text-left">
+                ← TỪ: {parent.prompt || parent.id}
+              </button>
+            )}
+          </div>
+
+          {/* Tags */}
+          <div className="flex flex-wrap gap-1">
+            {focused.tags.map(tag => (
+              <span key={tag} className="flex items-center gap-1 bg-cyber-panel border border-cyber-dim text-cyber-secondary text-[10px] font-mono px-1">
+                {tag}
+                <button onClick={() => onSetTags(focused, focused.tags.filter(t => t !== tag))} className="hover:text-red-400">
+                  <X size={10} />
+                </button>
+              </span>
+            ))}
+          </div>
+          <div className="flex items-center gap-2">
+            <Tag size={12} className="text-cyber-dim shrink-0" />
+            <input
+              type="text"
+              value={tagInput}
+              onChange={(e) => setTagInput(e.target.value)}
+              onKeyDown={(e) => e.key === 'Enter' && handleAddTag()}
+              placeholder="Thêm tag + Enter"
+              className="w-full bg-cyber-black border-2 border-cyber-dim text-cyber-text p-1 text-xs font-mono focus:border-cyber-secondary outline-none"
+            />
+          </div>
+
+          <div className="grid grid-cols-2 gap-2">
+            <button
+              onClick={() => onLoad(focused)}
+              className="bg-cyber-panel border-2 border-cyber-secondary/50 text-cyber-secondary hover:bg-cyber-secondary hover:text-cyber-black text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+            >
+              <ImagePlus size={12} /> MỞ
+            </button>
+            <button
+              onClick={() => onAddToSheet([focused])}
+              className="bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+            >
+              <Grid size={12} /> VÀO SHEET
+            </button>
+          </div>
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default AssetLibrary;
@@ -0,0 +1,38 @@
+import React from 'react';
+import { TILE_POSITIONS, TilePosition } from '../utils/autotile';
+
+interface AutotileGridProps {
+  tileUrls: Record<TilePosition, string>;
+  onOpen: (position: TilePosition) => void;
+}
+
+const POSITION_LABELS: Record<TilePosition, string> = {
+  'top-left': 'GÓC TT',
+  'top': 'CẠNH TRÊN',
+  'top-right': 'GÓC TP',
+  'left': 'CẠNH TRÁI',
+  'center': 'NỀN',
+  'right': 'CẠNH PHẢI',
+  'bottom-left': 'GÓC DT',
+  'bottom': 'CẠNH DƯỚI',
+  'bottom-right': 'GÓC DP',
+};
+
+// The nine tiles sliced from a 3x3 autotile, in their grid positions
+const AutotileGrid: React.FC<AutotileGridProps> = ({ tileUrls, onOpen }) => (
+  <div className="grid grid-cols-3 gap-1">
+    {TILE_POSITIONS.map(position => (
+      <button
+        key={position}
+        onClick={() => onOpen(position)}
+        className="relative aspect-square bg-cyber-black border-2 border-cyber-dim hover:border-cyber-accent overflow-hidden"
+        title="Mở trong trình chỉnh sửa"
+      >
+        <img src={tileUrls[position]} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+        <span className="absolute top-0 left-0 bg-cyber-black/80 text-[8px] font-mono text-cyber-accent px-1">{POSITION_LABELS[position]}</span>
+      </button>
+    ))}
+  </div>
+);
+
+export default AutotileGrid;
@@ -0,0 +1,83 @@
+import React from 'react';
+import { AlertTriangle, Check, Loader2, RotateCcw, X } from 'lucide-react';
+import { BatchJob, MAX_BATCH_ATTEMPTS } from '../utils/batchJobs';
+
+interface BatchQueueProps {
+  jobs: BatchJob[];
+  resultUrls: Record<string, string>; // Job id -> generated image
+  onOpen: (job: BatchJob) => void;
+  onRemove: (id: string) => void;
+  canEdit: boolean; // Removing is locked while the queue runs
+}
+
+const STATUS_LABELS: Record<BatchJob['status'], string> = {
+  pending: 'CHỜ',
+  running: 'ĐANG TẠO',
+  done: 'XONG',
+  error: 'LỖI',
+};
+
+const BatchQueue: React.FC<BatchQueueProps> = ({ jobs, resultUrls, onOpen, onRemove, canEdit }) => {
+  if (jobs.length === 0) {
+    return <div className="text-center text-cyber-dim text-xs font-mono py-4 border-2 border-dashed border-cyber-dim">HÀNG ĐỢI TRỐNG</div>;
+  }
+
+  const done = jobs.filter(j => j.status === 'done').length;
+  const failed = jobs.filter(j => j.status === 'error').length;
+
+  return (
+    <div className="space-y-2">
+      <div className="flex items-center justify-between text-[10px] font-mono text-cyber-dim uppercase tracking-widest">
+        <span>{done}/{jobs.length} XONG</span>
+        {failed > 0 && <span className="text-red-400">{failed} LỖI</span>}
+      </div>
+      <div className="h-1 bg-cyber-black border border-cyber-dim">
+        <div className="h-full bg-cyber-accent transition-all" style={{ width: `${(done / jobs.length) * 100}%` }}></div>
+      </div>
+
+      <div className="max-h-80 overflow-y-auto space-y-1 pr-1 scrollbar-thin">
+        {jobs.map(job => {
+          const url = resultUrls[job.id];
+          return (
+            <div key={job.id} className="flex items-center gap-2 bg-cyber-black border border-cyber-dim/50 p-1 group">
+              <button
+                onClick={() => onOpen(job)}
+                disabled={!url}
+                className="w-8 h-8 shrink-0 bg-cyber-dark border border-cyber-dim flex items-center justify-center disabled:cursor-default hover:border-cyber-secondary"
+                title={url ? 'Mở trong trình chỉnh sửa' : undefined}
+              >
+                {url && <img src={url} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />}
+                {!url && job.status === 'running' && <Loader2 size={12} className="animate-spin text-cyber-primary" />}
+                {!url && job.status === 'error' && <AlertTriangle size={12} className="text-red-400" />}
+              </button>
+              <div className="flex-1 min-w-0">
+                <div className="text-[10px] font-mono text-cyber-text truncate" title={job.prompt}>{job.name}</div>
+                <div className="text-[9px] font-mono text-cyber-dim truncate" title={job.error}>
+                  {[job.size, job.style].filter(Boolean).join(' · ') || 'MẶC ĐỊNH'}
+                  {job.error && job.status !== 'done' && <span className="text-red-400"> · {job.error}</span>}
+                </div>
+              </div>
+              <span
+                className={`text-[9px] font-mono shrink-0 flex items-center gap-1 ${
+                  job.status === 'done' ? 'text-cyber-accent' : job.status === 'error' ? 'text-red-400' : job.status === 'running' ? 'text-cyber-primary' : 'text-cyber-dim'
+                }`}
+              >
+                {job.status === 'done' && <Check size={10} />}
+                {job.status === 'pending' && job.attempts > 0 && <RotateCcw size={10} />}
+                {STATUS_LABELS[job.status]}
+                {job.status === 'pending' && job.attempts > 0 && ` ${job.attempts}/${MAX_BATCH_ATTEMPTS}`}
+              </span>
+              {canEdit && (
+                <button onClick={() => onRemove(job.id)} className="text-cyber-dim hover:text-red-400 opacity-0 group-hover:opacity-100 transition-opacity" title="Xóa khỏi hàng đợi">
+                  <X size={12} />
+                </button>
+              )}
+            </div>
+          );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default BatchQueue;
@@ -0,0 +1,111 @@
+import React, { useEffect, useRef } from 'react';
+import { GitBranch, History, Redo2, Undo2 } from 'lucide-react';
+import { HistoryEntry, HistoryOperation } from '../types';
+
+interface HistoryTimelineProps {
+  entries: HistoryEntry[];
+  currentId: string | null;
+  activePath: Set<string>;
+  canUndo: boolean;
+  canRedo: boolean;
+  onSelect: (id: string) => void;
+  onUndo: () => void;
+  onRedo: () => void;
+}
+
+const OPERATION_LABELS: Record<HistoryOperation, string> = {
+  'generate': 'TẠO ẢNH',
+  'tile': 'TILE SET',
+  'edit': 'SỬA AI',
+  'animate': 'HOẠT HÌNH',
+  'background': 'TÁCH NỀN',
+  'chroma-key': 'CHROMA KEY',
+  'style-transfer': 'CHUYỂN ĐỔI',
+  'palette': 'BẢNG MÀU',
+  'upload': 'TẢI LÊN',
+  'manual': 'VẼ TAY',
+  'sheet': 'GHÉP SHEET',
+  'library': 'THƯ VIỆN',
+  'turnaround': 'XOAY HƯỚNG',
+  'seam-repair': 'SỬA ĐƯỜNG NỐI',
+  'autotile': 'AUTOTILE',
+};
+
+const HistoryTimeline: React.FC<HistoryTimelineProps> = ({
+  entries,
+  currentId,
+  activePath,
+  canUndo,
+  canRedo,
+  onSelect,
+  onUndo,
+  onRedo,
+}) => {
+  const currentRef = useRef<HTMLButtonElement>(null);
+
+  // Keep the selected step in view as the history grows
+  useEffect(() => {
+    currentRef.current?.scrollIntoView({ block: 'nearest', inline: 'nearest' });
+  }, [currentId]);
+
+  if (entries.length === 0) return null;
+
+  return (
+    <div className="flex items-stretch bg-cyber-panel border-t-2 border-cyber-dim shrink-0">
+      <div className="flex flex-col items-center justify-center gap-1 px-2 border-r-2 border-cyber-dim bg-cyber-dark">
+        <History size={12} className="text-cyber-dim" />
+        <button
+            onClick={onUndo}
+            disabled={!canUndo}
+            className="text-cyber-dim hover:text-cyber-secondary disabled:opacity-30"
+            title="Hoàn tác (Ctrl+Z)"
+        >
+            <Undo2 size={14} />
+        </button>
+        <button
+            onClick={onRedo}
+            disabled={!canRedo}
+            className="text-cyber-dim hover:text-cyber-secondary disabled:opacity-30"
+            title="Làm lại (Ctrl+Shift+Z)"
+        >
+            <Redo2 size={14} />
+        </button>
+      </div>
+
+      <div className="flex-1 flex gap-2 p-2 overflow-x-auto scrollbar-thin">
+        {entries.map((entry, index) => {
+            const isCurrent = entry.id === currentId;
+            const onPath = activePath.has(entry.id);
+            return (
+                <button
+                    key={entry.id}
+                    ref={isCurrent ? currentRef : undefined}
+                    onClick={() => onSelect(entry.id)}
+                    className={`relative shrink-0 w-20 flex flex-col items-center gap-1 p-1 border-2 transition-all ${
+                        isCurrent
+                        ? 'border-cyber-secondary bg-cyber-secondary/10'
+                        : onPath
+                            ? 'border-cyber-dim hover:border-cyber-text'
+                            : 'border-dashed border-cyber-dim/50 opacity-50 hover:opacity-100'
+                    }`}
+                    title={`#${index + 1} ${OPERATION_LABELS[entry.operation]}${entry.prompt ? `: ${entry.prompt}` : ''}\nChọn để quay lại bước này. Thao tác tiếp theo sẽ tạo nhánh mới.`}
+                >
+                    {!onPath && <GitBranch size={10} className="absolute top-1 right-1 text-cyber-dim" />}
+                    <div className="w-12 h-12 bg-cyber-black border border-cyber-dim/50 flex items-center justify-center overflow-hidden">
+                        <img src={entry.imageUrl} className="pixelated max-w-full max-h-full object-contain" />
+                    </div>
+                    <span className={`text-[9px] font-mono leading-none ${isCurrent ? 'text-cyber-secondary' : 'text-cyber-dim'}`}>
+                        {OPERATION_LABELS[entry.operation]}
+                    </span>
+                    {entry.prompt && (
+                        <span className="w-full text-[9px] font-mono leading-none text-cyber-text/60 truncate">{entry.prompt}</span>
+                    )}
+                </button>
+            );
+        })}
+      </div>
+    </div>
+  );
+};
+
+export default HistoryTimeline;
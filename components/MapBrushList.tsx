@@ -0,0 +1,38 @@
+import React from 'react';
+import { X } from 'lucide-react';
+import { MapBrush } from '../utils/tileMap';
+
+interface MapBrushListProps {
+  brushes: (MapBrush & { url: string })[];
+  activeId: string | null;
+  onSelect: (id: string) => void;
+  onRemove: (id: string) => void;
+}
+
+// Tiles that can be painted onto the test map; the active one is highlighted
+const MapBrushList: React.FC<MapBrushListProps> = ({ brushes, activeId, onSelect, onRemove }) => (
+  <div className="grid grid-cols-3 gap-2">
+    {brushes.map(brush => (
+      <div
+        key={brush.id}
+        onClick={() => onSelect(brush.id)}
+        className={`relative group cursor-pointer bg-cyber-black border-2 ${brush.id === activeId ? 'border-cyber-accent' : 'border-cyber-dim hover:border-cyber-text'}`}
+        title={brush.name}
+      >
+        <img src={brush.url} className="w-full aspect-square object-contain" style={{ imageRendering: 'pixelated' }} />
+        <span className="absolute bottom-0 left-0 right-0 bg-cyber-black/80 text-[8px] font-mono text-cyber-accent px-1 truncate">
+          {brush.kind === 'autotile' ? `AUTO ${brush.set.layout === 'wang16' ? '16' : '47'}` : 'TILE'} // {brush.name}
+        </span>
+        <button
+          onClick={(e) => { e.stopPropagation(); onRemove(brush.id); }}
+          className="absolute top-0 right-0 p-0.5 bg-red-500/80 text-white opacity-0 group-hover:opacity-100 transition-opacity"
+          title="Bỏ tile này (xóa các ô đã vẽ bằng nó)"
+        >
+          <X size={10} />
+        </button>
+      </div>
+    ))}
+  </div>
+);
+
+export default MapBrushList;
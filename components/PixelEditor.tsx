@@ -1,17 +1,89 @@
 import React, { useRef, useEffect, useState } from 'react';
-import { Download, ZoomIn, ZoomOut } from 'lucide-react';
+import { Download, ZoomIn, ZoomOut, Pencil, Eraser, PaintBucket, Pipette, Minus, Square, ArrowLeftRight, LayoutGrid, Layers, Grid3x3, Hand, Paintbrush, Columns2 } from 'lucide-react';
+import { Point, floodFill, hexToRgba, linePoints, rectPoints, rgbaToHex } from '../utils/drawing';
+import { Rect } from '../utils/spriteSheet';
+import { PixelBuffer } from '../utils/imageData';
 
 interface PixelEditorProps {
   imageUrl: string | null;
+  pixels?: PixelBuffer | null; // Drawn straight into the canvas instead of imageUrl, for content that changes on every stroke
   onSave?: (url: string) => void;
+  regions?: Rect[]; // Frame rects drawn over the image, e.g. of an assembled sprite sheet
+  onionSkin?: string[]; // Neighbouring animation frames shown faintly over the canvas
+  tileable?: boolean; // Offer a 3x3 repeat preview for seamless textures
+  cellSize?: number; // With onPaintCell: paint whole cells of this size instead of pixels
+  onPaintCell?: (cell: Point, erase: boolean) => void;
+  compareWith?: string; // Image before a conversion, revealed left of a before/after slider
 }
 
-const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, onSave }) => {
+type Tool = 'pencil' | 'eraser' | 'fill' | 'eyedropper' | 'line' | 'rect' | 'hand';
+
+const TOOLS: { id: Tool; label: string; icon: React.ReactNode }[] = [
+  { id: 'pencil', label: 'Bút chì', icon: <Pencil size={14} /> },
+  { id: 'eraser', label: 'Tẩy', icon: <Eraser size={14} /> },
+  { id: 'fill', label: 'Đổ màu', icon: <PaintBucket size={14} /> },
+  { id: 'eyedropper', label: 'Hút màu', icon: <Pipette size={14} /> },
+  { id: 'line', label: 'Đường thẳng', icon: <Minus size={14} className="-rotate-45" /> },
+  { id: 'rect', label: 'Hình chữ nhật', icon: <Square size={14} /> },
+  { id: 'hand', label: 'Kéo khung nhìn (hoặc giữ chuột giữa)', icon: <Hand size={14} /> },
+];
+
+// Tools when painting cells, e.g. tiles onto a map
+const CELL_TOOLS: { id: Tool; label: string; icon: React.ReactNode }[] = [
+  { id: 'pencil', label: 'Vẽ ô (chuột phải để xóa)', icon: <Paintbrush size={14} /> },
+  { id: 'eraser', label: 'Xóa ô', icon: <Eraser size={14} /> },
+  { id: 'hand', label: 'Kéo khung nhìn (hoặc giữ chuột giữa)', icon: <Hand size={14} /> },
+];
+
+// Active stroke: the colour being painted, and where the drag started/last was
+interface Stroke {
+  color: string;
+  start: Point;
+  last: Point;
+  snapshot: ImageData; // Canvas before the stroke, used to preview line/rect shapes
+}
+
+interface CellStroke {
+  erase: boolean;
+  last: Point; // In cells
+}
+
+interface PanDrag {
+  startX: number; // Pointer position where the drag started, in screen pixels
+  startY: number;
+  origin: Point; // Pan offset at that time
+}
+
+const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, pixels, onSave, regions, onionSkin, tileable, cellSize, onPaintCell, compareWith }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
+  const [viewport, setViewport] = useState<HTMLDivElement | null>(null); // Unmounted while the editor is empty
   const [zoom, setZoom] = useState(1);
+  const [pan, setPan] = useState<Point>({ x: 0, y: 0 });
+  const panRef = useRef<PanDrag | null>(null);
+  const paintsCells = !!cellSize && !!onPaintCell;
+  const lastSizeRef = useRef('');
+  const [dimensions, setDimensions] = useState<{ width: number; height: number } | null>(null);
+  const [showRegions, setShowRegions] = useState(true);
+  const [showOnionSkin, setShowOnionSkin] = useState(true);
+  const [showTiling, setShowTiling] = useState(true);
+  const tiling = !!tileable && showTiling && !!dimensions;
+  const [showCompare, setShowCompare] = useState(true);
+  const [comparePosition, setComparePosition] = useState(50); // Percent of the width showing the before image
+  const comparing = !!compareWith && showCompare;
+
+  // Drawing States
+  const [tool, setTool] = useState<Tool>('pencil');
+  const [primaryColor, setPrimaryColor] = useState('#000000');
+  const [secondaryColor, setSecondaryColor] = useState('#FFFFFF');
+  const strokeRef = useRef<Stroke | null>(null);
+  const cellStrokeRef = useRef<CellStroke | null>(null);
+  const savedUrlRef = useRef<string | null>(null); // Last URL we emitted through onSave
 
   // Load image into canvas
   useEffect(() => {
+    // Our own save round-tripping back through props: the canvas already shows it
+    if (imageUrl && imageUrl === savedUrlRef.current) return;
+    savedUrlRef.current = null;
     if (imageUrl && canvasRef.current) {
       const canvas = canvasRef.current;
       const ctx = canvas.getContext('2d');
@@ -24,12 +96,184 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, onSave }) => {
         canvas.height = img.height;
         ctx.imageSmoothingEnabled = false; // Critical for pixel art
         ctx.drawImage(img, 0, 0);
+        fitToSize(img.width, img.height);
       };
       img.src = imageUrl;
       img.crossOrigin = "Anonymous"; // Handle potential CORS
     }
   }, [imageUrl]);
 
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!pixels || !canvas || !ctx) return;
+    if (canvas.width !== pixels.width || canvas.height !== pixels.height) {
+        canvas.width = pixels.width;
+        canvas.height = pixels.height;
+    }
+    ctx.putImageData(new ImageData(new Uint8ClampedArray(pixels.data), pixels.width, pixels.height), 0, 0);
+    fitToSize(pixels.width, pixels.height);
+  }, [pixels]);
+
+  // Ctrl/Cmd + wheel zooms, as does the plain wheel when painting cells. Registered natively
+  // because React's wheel listener is passive and could not stop the page from zooming.
+  useEffect(() => {
+    if (!viewport) return;
+    const handleWheel = (e: WheelEvent) => {
+        if (e.deltaY === 0 || !(paintsCells || e.ctrlKey || e.metaKey)) return;
+        e.preventDefault();
+        setZoom(z => Math.max(1, Math.min(20, z + (e.deltaY < 0 ? 1 : -1))));
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [viewport, paintsCells]);
+
+  // Fit small sprites to the viewport, but keep the user's zoom while the size is unchanged
+  const fitToSize = (width: number, height: number) => {
+    const sizeKey = `${width}x${height}`;
+    if (lastSizeRef.current !== sizeKey) {
+        lastSizeRef.current = sizeKey;
+        setZoom(Math.max(1, Math.min(20, Math.floor(512 / Math.max(width, height)))));
+        setPan({ x: 0, y: 0 });
+    }
+    setDimensions({ width, height });
+  };
+
+  const getPixelCoords = (e: React.PointerEvent<HTMLCanvasElement>): Point => {
+    const canvas = e.currentTarget;
+    const rect = canvas.getBoundingClientRect();
+    return {
+        x: Math.floor(((e.clientX - rect.left) / rect.width) * canvas.width),
+        y: Math.floor(((e.clientY - rect.top) / rect.height) * canvas.height),
+    };
+  };
+
+  const plot = (ctx: CanvasRenderingContext2D, points: Point[], color: string | null) => {
+    if (color) ctx.fillStyle = color;
+    for (const p of points) {
+        if (color) ctx.fillRect(p.x, p.y, 1, 1);
+        else ctx.clearRect(p.x, p.y, 1, 1);
+    }
+  };
+
+  const commitCanvas = () => {
+    if (!canvasRef.current || !onSave) return;
+    const url = canvasRef.current.toDataURL();
+    savedUrlRef.current = url;
+    onSave(url);
+  };
+
+  const toCell = (point: Point): Point => ({ x: Math.floor(point.x / cellSize!), y: Math.floor(point.y / cellSize!) });
+
+  const handlePointerDown = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const canvas = canvasRef.current;
+    const ctx = canvas?.getContext('2d');
+    if (!canvas || !ctx || tool === 'hand' || (e.button !== 0 && e.button !== 2)) return;
+    e.preventDefault();
+
+    if (paintsCells) {
+        const cell = toCell(getPixelCoords(e));
+        canvas.setPointerCapture(e.pointerId);
+        cellStrokeRef.current = { erase: tool === 'eraser' || e.button === 2, last: cell };
+        onPaintCell!(cell, cellStrokeRef.current.erase);
+        return;
+    }
+
+    const slot = e.button === 2 ? 'secondary' : 'primary';
+    const color = slot === 'primary' ? primaryColor : secondaryColor;
+    const point = getPixelCoords(e);
+
+    if (tool === 'eyedropper') {
+        const [r, g, b, a] = ctx.getImageData(point.x, point.y, 1, 1).data;
+        if (a > 0) (slot === 'primary' ? setPrimaryColor : setSecondaryColor)(rgbaToHex(r, g, b));
+        return;
+    }
+
+    if (tool === 'fill') {
+        const imageData = ctx.getImageData(0, 0, canvas.width, canvas.height);
+        if (floodFill(imageData, point.x, point.y, hexToRgba(color)) > 0) {
+            ctx.putImageData(imageData, 0, 0);
+            commitCanvas();
+        }
+        return;
+    }
+
+    canvas.setPointerCapture(e.pointerId);
+    strokeRef.current = {
+        color,
+        start: point,
+        last: point,
+        snapshot: ctx.getImageData(0, 0, canvas.width, canvas.height),
+    };
+    if (tool === 'pencil' || tool === 'eraser') {
+        plot(ctx, [point], tool === 'eraser' ? null : color);
+    }
+  };
+
+  const handlePointerMove = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    const cellStroke = cellStrokeRef.current;
+    if (cellStroke) {
+        const cell = toCell(getPixelCoords(e));
+        if (cell.x === cellStroke.last.x && cell.y === cellStroke.last.y) return;
+        linePoints(cellStroke.last.x, cellStroke.last.y, cell.x, cell.y).forEach(c => onPaintCell!(c, cellStroke.erase));
+        cellStroke.last = cell;
+        return;
+    }
+
+    const stroke = strokeRef.current;
+    const ctx = canvasRef.current?.getContext('2d');
+    if (!stroke || !ctx) return;
+    const point = getPixelCoords(e);
+    if (point.x === stroke.last.x && point.y === stroke.last.y) return;
+
+    if (tool === 'pencil' || tool === 'eraser') {
+        // Connect to the previous sample so fast strokes don't leave gaps
+        plot(ctx, linePoints(stroke.last.x, stroke.last.y, point.x, point.y), tool === 'eraser' ? null : stroke.color);
+    } else {
+        ctx.putImageData(stroke.snapshot, 0, 0);
+        const shape = tool === 'line' ? linePoints : rectPoints;
+        plot(ctx, shape(stroke.start.x, stroke.start.y, point.x, point.y), stroke.color);
+    }
+    stroke.last = point;
+  };
+
+  const handlePointerUp = (e: React.PointerEvent<HTMLCanvasElement>) => {
+    if (cellStrokeRef.current) {
+        cellStrokeRef.current = null;
+        e.currentTarget.releasePointerCapture(e.pointerId);
+        return;
+    }
+    if (!strokeRef.current) return;
+    strokeRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+    commitCanvas();
+  };
+
+  // Panning: drag with the hand tool or the middle mouse button anywhere in the viewport
+  const handlePanStart = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (e.button !== 1 && !(tool === 'hand' && e.button === 0)) return;
+    e.preventDefault();
+    e.currentTarget.setPointerCapture(e.pointerId);
+    panRef.current = { startX: e.clientX, startY: e.clientY, origin: pan };
+  };
+
+  const handlePanMove = (e: React.PointerEvent<HTMLDivElement>) => {
+    const drag = panRef.current;
+    if (!drag) return;
+    setPan({ x: drag.origin.x + e.clientX - drag.startX, y: drag.origin.y + e.clientY - drag.startY });
+  };
+
+  const handlePanEnd = (e: React.PointerEvent<HTMLDivElement>) => {
+    if (!panRef.current) return;
+    panRef.current = null;
+    e.currentTarget.releasePointerCapture(e.pointerId);
+  };
+
+  const swapColors = () => {
+    setPrimaryColor(secondaryColor);
+    setSecondaryColor(primaryColor);
+  };
+
   const handleDownload = () => {
     if (!canvasRef.current) return;
     const link = document.createElement('a');
@@ -38,7 +282,7 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, onSave }) => {
     link.click();
   };
 
-  if (!imageUrl) {
+  if (!imageUrl && !pixels) {
     return (
       <div className="h-full w-full flex flex-col items-center justify-center text-cyber-dim bg-cyber-black/80 relative overflow-hidden">
         <div className="absolute inset-0 grid grid-cols-[40px_auto] grid-rows-[40px_auto] opacity-5 pointer-events-none">
@@ -55,10 +299,93 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, onSave }) => {
     <div className="flex flex-col h-full bg-cyber-black overflow-hidden relative">
       {/* Toolbar */}
       <div className="flex items-center justify-between p-2 bg-cyber-panel border-b-2 border-cyber-dim z-20 shadow-md">
-        <div className="flex gap-2">
-             <div className="text-xs font-mono text-cyber-dim uppercase flex items-center h-full px-2">
-                Trình Xem (View Mode)
-             </div>
+        <div className="flex items-center gap-2">
+            <div className="flex bg-cyber-black border-2 border-cyber-dim">
+                {(paintsCells ? CELL_TOOLS : TOOLS).map(t => (
+                    <button 
+                        key={t.id}
+                        onClick={() => setTool(t.id)}
+                        className={`p-2 transition-colors ${tool === t.id ? 'bg-cyber-secondary text-cyber-black' : 'text-cyber-dim hover:text-white'}`}
+                        title={t.label}
+                    >
+                        {t.icon}
+                    </button>
+                ))}
+            </div>
+
+            {/* Primary / Secondary colours (left / right mouse button) */}
+            {!paintsCells && <div className="flex items-center gap-1 bg-cyber-black border-2 border-cyber-dim px-1 py-1">
+                <input 
+                    type="color" 
+                    value={primaryColor}
+                    onChange={(e) => setPrimaryColor(e.target.value.toUpperCase())}
+                    className="w-6 h-6 bg-transparent border border-cyber-dim cursor-pointer"
+                    title={`Màu chính (chuột trái): ${primaryColor}`}
+                />
+                <button onClick={swapColors} className="text-cyber-dim hover:text-cyber-secondary" title="Đổi màu">
+                    <ArrowLeftRight size={12} />
+                </button>
+                <input 
+                    type="color" 
+                    value={secondaryColor}
+                    onChange={(e) => setSecondaryColor(e.target.value.toUpperCase())}
+                    className="w-6 h-6 bg-transparent border border-cyber-dim cursor-pointer"
+                    title={`Màu phụ (chuột phải): ${secondaryColor}`}
+                />
+            </div>}
+
+            {regions && regions.length > 0 && (
+                <button 
+                    onClick={() => setShowRegions(v => !v)}
+                    className={`p-2 border-2 border-cyber-dim transition-colors ${showRegions ? 'bg-cyber-accent text-cyber-black' : 'bg-cyber-black text-cyber-dim hover:text-white'}`}
+                    title={`Hiện khung frame (${regions.length})`}
+                >
+                    <LayoutGrid size={14} />
+                </button>
+            )}
+
+            {onionSkin && onionSkin.length > 0 && (
+                <button 
+                    onClick={() => setShowOnionSkin(v => !v)}
+                    className={`p-2 border-2 border-cyber-dim transition-colors ${showOnionSkin ? 'bg-cyber-primary text-cyber-black' : 'bg-cyber-black text-cyber-dim hover:text-white'}`}
+                    title="Onion skin: hiện mờ frame trước và sau"
+                >
+                    <Layers size={14} />
+                </button>
+            )}
+
+            {tileable && (
+                <button 
+                    onClick={() => setShowTiling(v => !v)}
+                    className={`p-2 border-2 border-cyber-dim transition-colors ${showTiling ? 'bg-cyber-accent text-cyber-black' : 'bg-cyber-black text-cyber-dim hover:text-white'}`}
+                    title="Xem lặp 3x3 để kiểm tra đường nối"
+                >
+                    <Grid3x3 size={14} />
+                </button>
+            )}
+
+            {compareWith && (
+                <div className="flex items-center gap-2">
+                    <button 
+                        onClick={() => setShowCompare(v => !v)}
+                        className={`p-2 border-2 border-cyber-dim transition-colors ${showCompare ? 'bg-cyber-secondary text-cyber-black' : 'bg-cyber-black text-cyber-dim hover:text-white'}`}
+                        title="So sánh trước / sau"
+                    >
+                        <Columns2 size={14} />
+                    </button>
+                    {showCompare && (
+                        <input 
+                            type="range"
+                            min={0}
+                            max={100}
+                            value={comparePosition}
+                            onChange={(e) => setComparePosition(Number(e.target.value))}
+                            className="w-24 accent-cyber-secondary"
+                            title={`Trước ${comparePosition}% / Sau ${100 - comparePosition}%`}
+                        />
+                    )}
+                </div>
+            )}
         </div>
         
         <div className="flex items-center bg-cyber-black border-2 border-cyber-dim px-2 py-1 gap-2">
@@ -88,26 +415,89 @@ const PixelEditor: React.FC<PixelEditorProps> = ({ imageUrl, onSave }) => {
       </div>
 
       {/* Canvas Container */}
-      <div className="flex-1 overflow-auto flex items-center justify-center p-8 bg-[#100b1a] relative">
+      <div 
+        ref={setViewport}
+        className={`flex-1 ${paintsCells ? 'overflow-hidden' : 'overflow-auto'} flex items-center justify-center p-8 bg-[#100b1a] relative`}
+        onPointerDown={handlePanStart}
+        onPointerMove={handlePanMove}
+        onPointerUp={handlePanEnd}
+        onPointerCancel={handlePanEnd}
+      >
         {/* Checkboard pattern for transparency */}
         <div 
             style={{ 
-                transform: `scale(${zoom})`, 
+                transform: `translate(${pan.x}px, ${pan.y}px) scale(${zoom})`, 
                 transformOrigin: 'center',
                 boxShadow: '0 0 0 2px #39FF14', // Neon border around canvas
                 imageRendering: 'pixelated'
             }}
-            className="bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAHElEQVQYlWNgYGD4z8AARwYYU4WJchJG68KBAwUAl+oH8V206XAAAAAASUVORK5CYII=')] bg-repeat" 
+            className="relative bg-[url('data:image/png;base64,iVBORw0KGgoAAAANSUhEUgAAAAoAAAAKCAYAAACNMs+9AAAAHElEQVQYlWNgYGD4z8AARwYYU4WJchJG68KBAwUAl+oH8V206XAAAAAASUVORK5CYII=')] bg-repeat" 
         >
             <canvas
                 ref={canvasRef}
-                className="block cursor-default"
+                onPointerDown={handlePointerDown}
+                onPointerMove={handlePointerMove}
+                onPointerUp={handlePointerUp}
+                onPointerCancel={handlePointerUp}
+                onContextMenu={(e) => e.preventDefault()}
+                className={`block touch-none ${tool === 'hand' ? 'cursor-grab' : 'cursor-crosshair'}`}
             />
+            {/* The eight neighbours of a 3x3 repeat; seams show up where they meet the canvas */}
+            {tiling && imageUrl && [-1, 0, 1].flatMap(ty => [-1, 0, 1].map(tx => (tx === 0 && ty === 0) ? null : (
+                <img 
+                    key={`${tx},${ty}`}
+                    src={imageUrl}
+                    className="absolute w-full h-full pointer-events-none"
+                    style={{ left: `${tx * 100}%`, top: `${ty * 100}%`, imageRendering: 'pixelated' }}
+                />
+            )))}
+            {/* Before image over the left part of the canvas, split at the slider */}
+            {comparing && (
+                <>
+                    <img 
+                        src={compareWith}
+                        className="absolute inset-0 w-full h-full object-contain bg-cyber-black pointer-events-none"
+                        style={{ clipPath: `inset(0 ${100 - comparePosition}% 0 0)` }}
+                    />
+                    <div className="absolute top-0 bottom-0 w-px bg-cyber-secondary pointer-events-none" style={{ left: `${comparePosition}%` }} />
+                </>
+            )}
+            {/* Multiply keeps the neighbours' white backgrounds from washing out the frame */}
+            {showOnionSkin && onionSkin?.map((src, i) => (
+                <img 
+                    key={i}
+                    src={src}
+                    className="absolute inset-0 w-full h-full pointer-events-none opacity-30"
+                    style={{ imageRendering: 'pixelated', mixBlendMode: 'multiply' }}
+                />
+            ))}
+            {showRegions && regions && dimensions && (
+                <svg 
+                    className="absolute inset-0 w-full h-full pointer-events-none"
+                    viewBox={`0 0 ${dimensions.width} ${dimensions.height}`}
+                    preserveAspectRatio="none"
+                >
+                    {regions.map((r, i) => (
+                        <rect 
+                            key={i}
+                            x={r.x}
+                            y={r.y}
+                            width={r.width}
+                            height={r.height}
+                            fill="none"
+                            stroke="#39FF14"
+                            strokeWidth={1}
+                            vectorEffect="non-scaling-stroke"
+                        />
+                    ))}
+                </svg>
+            )}
         </div>
       </div>
       
       <div className="px-4 py-1 bg-cyber-panel text-[10px] text-cyber-dim text-center font-mono border-t-2 border-cyber-dim uppercase tracking-widest">
-        KÍCH THƯỚC: {canvasRef.current?.width}x{canvasRef.current?.height}PX
+        KÍCH THƯỚC: {dimensions?.width}x{dimensions?.height}PX
+        {paintsCells && dimensions && ` // ${Math.floor(dimensions.width / cellSize!)}x${Math.floor(dimensions.height / cellSize!)} Ô`}
       </div>
     </div>
   );
@@ -0,0 +1,82 @@
+import React from 'react';
+import { AlertTriangle, FlipHorizontal2, Loader2, RotateCcw } from 'lucide-react';
+import { Direction } from '../types';
+import { TurnaroundView } from '../utils/turnaround';
+
+interface TurnaroundGridProps {
+  views: TurnaroundView[];
+  referenceUrl: string | null;
+  onOpen: (view: TurnaroundView) => void;
+  onRegenerate: (direction: Direction) => void;
+  canRegenerate: boolean;
+}
+
+const DIRECTION_LABELS: Record<Direction, string> = {
+  'down': 'XUỐNG',
+  'up': 'LÊN',
+  'left': 'TRÁI',
+  'right': 'PHẢI',
+  'down-left': 'XUỐNG-TRÁI',
+  'down-right': 'XUỐNG-PHẢI',
+  'up-left': 'LÊN-TRÁI',
+  'up-right': 'LÊN-PHẢI',
+};
+
+// Compass layout with the reference sprite in the middle
+const COMPASS: (Direction | 'reference')[] = ['up-left', 'up', 'up-right', 'left', 'reference', 'right', 'down-left', 'down', 'down-right'];
+
+const TurnaroundGrid: React.FC<TurnaroundGridProps> = ({ views, referenceUrl, onOpen, onRegenerate, canRegenerate }) => {
+  if (views.length === 0) return null;
+
+  return (
+    <div className="grid grid-cols-3 gap-1">
+      {COMPASS.map(slot => {
+        if (slot === 'reference') {
+          return (
+            <div key={slot} className="aspect-square bg-cyber-black border-2 border-dashed border-cyber-dim flex items-center justify-center" title="Sprite gốc">
+              {referenceUrl && <img src={referenceUrl} className="w-3/4 h-3/4 object-contain opacity-60" style={{ imageRendering: 'pixelated' }} />}
+            </div>
+          );
+        }
+        const view = views.find(v => v.direction === slot);
+        if (!view) return <div key={slot} className="aspect-square" />;
+
+        return (
+          <div key={slot} className="relative group aspect-square bg-cyber-black border-2 border-cyber-dim hover:border-cyber-secondary overflow-hidden">
+            {view.status === 'done' && view.url && (
+              <button onClick={() => onOpen(view)} className="w-full h-full" title="Mở trong trình chỉnh sửa">
+                <img src={view.url} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+              </button>
+            )}
+            {(view.status === 'pending' || view.status === 'running') && (
+              <div className="w-full h-full flex items-center justify-center">
+                {view.status === 'running' ? <Loader2 size={14} className="animate-spin text-cyber-primary" /> : <span className="text-[9px] font-mono text-cyber-dim">CHỜ</span>}
+              </div>
+            )}
+            {view.status === 'error' && (
+              <div className="w-full h-full flex items-center justify-center text-red-400" title={view.error}>
+                <AlertTriangle size={14} />
+              </div>
+            )}
+
+            <span className="absolute top-0 left-0 bg-cyber-black/80 text-[8px] font-mono text-cyber-secondary px-1 flex items-center gap-0.5">
+              {view.source === 'mirror' && <FlipHorizontal2 size={8} />}
+              {DIRECTION_LABELS[view.direction]}
+            </span>
+            {canRegenerate && view.source !== 'reference' && view.status !== 'running' && (
+              <button
+                onClick={() => onRegenerate(view.direction)}
+                className="absolute bottom-0 right-0 bg-cyber-black/80 text-cyber-dim hover:text-cyber-primary p-1 opacity-0 group-hover:opacity-100 transition-opacity"
+                title={view.source === 'mirror' ? 'Lật lại từ hướng đối diện' : 'Tạo lại hướng này'}
+              >
+                <RotateCcw size={10} />
+              </button>
+            )}
+          </div>
+        );
+      })}
+    </div>
+  );
+};
+
+export default TurnaroundGrid;
@@ -0,0 +1,90 @@
+import React from 'react';
+import { AlertTriangle, Check, Grid, Loader2, Wand2 } from 'lucide-react';
+import { Variation } from '../types';
+
+interface VariationGridProps {
+  variations: Variation[];
+  selectedIds: Set<string>;
+  promotedId: string | null; // Candidate currently in the editor
+  onToggleSelect: (id: string) => void;
+  onPromote: (variation: Variation) => void;
+  onSendToSheet: (variations: Variation[]) => void;
+}
+
+const VariationGrid: React.FC<VariationGridProps> = ({
+  variations,
+  selectedIds,
+  promotedId,
+  onToggleSelect,
+  onPromote,
+  onSendToSheet,
+}) => {
+  if (variations.length === 0) return null;
+
+  const finished = variations.filter(v => v.status === 'done' || v.status === 'error').length;
+  const selected = variations.filter(v => v.status === 'done' && selectedIds.has(v.id));
+
+  return (
+    <div className="space-y-2 pt-4 border-t-2 border-cyber-dim/50">
+      <div className="flex items-center justify-between text-[10px] font-mono text-cyber-dim uppercase tracking-widest">
+        <span>BIẾN THỂ</span>
+        <span>{finished}/{variations.length}</span>
+      </div>
+      <div className="h-1 bg-cyber-black border border-cyber-dim">
+        <div className="h-full bg-cyber-primary transition-all" style={{ width: `${(finished / variations.length) * 100}%` }}></div>
+      </div>
+
+      <div className="grid grid-cols-2 gap-2">
+        {variations.map((v, i) => (
+          <div
+            key={v.id}
+            className={`relative group aspect-square bg-cyber-black border-2 overflow-hidden ${
+              v.id === promotedId ? 'border-cyber-secondary' : selectedIds.has(v.id) ? 'border-cyber-primary' : 'border-cyber-dim'
+            }`}
+          >
+            {v.status === 'done' && v.url && (
+              <>
+                <img src={v.url} className="w-full h-full object-contain" style={{ imageRendering: 'pixelated' }} />
+                <input
+                  type="checkbox"
+                  checked={selectedIds.has(v.id)}
+                  onChange={() => onToggleSelect(v.id)}
+                  className="absolute top-1 left-1 accent-cyber-primary cursor-pointer"
+                  title="Chọn để gửi vào sheet"
+                />
+                <button
+                  onClick={() => onPromote(v)}
+                  className="absolute bottom-0 inset-x-0 bg-cyber-secondary/90 text-cyber-black text-[10px] font-bold font-mono py-1 hidden group-hover:flex items-center justify-center gap-1"
+                >
+                  {v.id === promotedId ? <><Check size={10} /> ĐANG MỞ</> : <><Wand2 size={10} /> CHỌN</>}
+                </button>
+              </>
+            )}
+            {(v.status === 'pending' || v.status === 'running') && (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-1 text-cyber-dim font-mono text-[10px]">
+                {v.status === 'running' ? <Loader2 size={16} className="animate-spin text-cyber-primary" /> : <span>#{i + 1}</span>}
+                {v.status === 'running' ? 'ĐANG TẠO' : 'CHỜ'}
+              </div>
+            )}
+            {v.status === 'error' && (
+              <div className="w-full h-full flex flex-col items-center justify-center gap-1 p-2 text-red-400 font-mono text-[9px] text-center" title={v.error}>
+                <AlertTriangle size={16} />
+                <span className="line-clamp-3 break-words">{v.error || 'LỖI'}</span>
+              </div>
+            )}
+          </div>
+        ))}
+      </div>
+
+      <button
+        onClick={() => onSendToSheet(selected)}
+        disabled={selected.length === 0}
+        className="w-full bg-cyber-panel border-2 border-cyber-accent/50 text-cyber-accent hover:bg-cyber-accent hover:text-cyber-black disabled:opacity-50 disabled:pointer-events-none text-xs font-bold font-mono py-2 flex items-center justify-center gap-2 transition-all active:translate-y-1"
+      >
+        <Grid size={12} /> GỬI {selected.length} VÀO SHEET
+      </button>
+    </div>
+  );
+};
+
+export default VariationGrid;
@@ -0,0 +1,75 @@
+import { GeneratedAsset } from "../types";
+
+// IndexedDB-backed store for generated assets. Images are kept as data URLs,
+// which quickly outgrow the few MB localStorage allows.
+
+const DB_NAME = 'pixelDreamer';
+const DB_VERSION = 1;
+const STORE = 'assets';
+
+let dbPromise: Promise<IDBDatabase> | null = null;
+
+const openDatabase = (): Promise<IDBDatabase> => {
+  if (!dbPromise) {
+    dbPromise = new Promise((resolve, reject) => {
+      const request = indexedDB.open(DB_NAME, DB_VERSION);
+      request.onupgradeneeded = () => {
+        const store = request.result.createObjectStore(STORE, { keyPath: 'id' });
+        store.createIndex('timestamp', 'timestamp');
+      };
+      request.onsuccess = () => resolve(request.result);
+      request.onerror = () => {
+        dbPromise = null; // Allow a retry on the next call
+        reject(request.error);
+      };
+    });
+  }
+  return dbPromise;
+};
+
+const promisify = <T>(request: IDBRequest<T>): Promise<T> =>
+  new Promise((resolve, reject) => {
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+
+const withStore = async <T>(mode: IDBTransactionMode, run: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+  const db = await openDatabase();
+  return promisify(run(db.transaction(STORE, mode).objectStore(STORE)));
+};
+
+let nextId = 0;
+export const createAssetId = () => `asset-${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+/** All assets, newest first. */
+export const listAssets = async (): Promise<GeneratedAsset[]> => {
+  const assets = await withStore('readonly', store => store.getAll() as IDBRequest<GeneratedAsset[]>);
+  return assets.sort((a, b) => b.timestamp - a.timestamp);
+};
+
+export const saveAsset = async (asset: GeneratedAsset): Promise<void> => {
+  await withStore('readwrite', store => store.put(asset));
+};
+
+export const updateAsset = async (
+  id: string,
+  changes: Partial<Omit<GeneratedAsset, 'id'>>
+): Promise<GeneratedAsset | null> => {
+  const existing = await withStore('readonly', store => store.get(id) as IDBRequest<GeneratedAsset | undefined>);
+  if (!existing) return null;
+  const updated = { ...existing, ...changes };
+  await saveAsset(updated);
+  return updated;
+};
+
+export const deleteAssets = async (ids: string[]): Promise<void> => {
+  if (ids.length === 0) return;
+  const db = await openDatabase();
+  await new Promise<void>((resolve, reject) => {
+    const tx = db.transaction(STORE, 'readwrite');
+    const store = tx.objectStore(STORE);
+    ids.forEach(id => store.delete(id));
+    tx.oncomplete = () => resolve();
+    tx.onerror = () => reject(tx.error);
+  });
+};
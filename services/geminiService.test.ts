@@ -0,0 +1,192 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { FinishReason, GenerateContentParameters, Part } from '@google/genai';
+import { ImageResolution, ModelTier, SpriteSize } from '../types';
+import { MODEL_IDS, createGeminiProvider, extractImageOrThrow } from './geminiService';
+import { MOCK_SPRITE_PNG, blockedResponse, createMockClient, createMockProvider, emptyResponse, imageResponse, textResponse } from './mockProvider';
+
+const TRANSFER_REQUEST = { style: 'Gameboy Monochrome', size: SpriteSize.S16, outline: false };
+
+const SPRITE_REQUEST = {
+  prompt: 'iron sword',
+  size: SpriteSize.S32,
+  style: 'Pico-8 Palette',
+  tier: ModelTier.STANDARD,
+  resolution: ImageResolution.R1K,
+};
+
+// Every request sends a single Content whose parts are the input images followed by the prompt
+const requestParts = ({ contents }: GenerateContentParameters): Part[] => {
+  if (typeof contents !== 'object' || Array.isArray(contents) || !('parts' in contents)) throw new Error('Expected a single Content');
+  return contents.parts ?? [];
+};
+
+describe('extractImageOrThrow', () => {
+  it('returns the first inline image as a PNG data URL', () => {
+    expect(extractImageOrThrow(imageResponse('abc'), 'fallback')).toBe('data:image/png;base64,abc');
+  });
+
+  it('prefers an image part over accompanying text', () => {
+    const response = {
+      candidates: [{ content: { parts: [{ text: 'Here you go' }, { inlineData: { data: 'abc' } }] } }],
+    };
+    expect(extractImageOrThrow(response, 'fallback')).toBe('data:image/png;base64,abc');
+  });
+
+  it("throws the model's text when no image comes back", () => {
+    expect(() => extractImageOrThrow(textResponse('I cannot draw that.'), 'fallback')).toThrow('I cannot draw that.');
+    expect(() => extractImageOrThrow(textResponse('I cannot draw that.'), 'fallback')).toThrow(expect.objectContaining({ type: 'no-image' }));
+  });
+
+  it('reports safety blocks as safety errors', () => {
+    expect(() => extractImageOrThrow(blockedResponse(FinishReason.IMAGE_SAFETY), 'fallback')).toThrow(expect.objectContaining({ type: 'safety' }));
+    expect(() => extractImageOrThrow({ promptFeedback: { blockReason: 'PROHIBITED_CONTENT' } }, 'fallback')).toThrow('PROHIBITED_CONTENT');
+  });
+
+  it('throws the default error for empty responses', () => {
+    expect(() => extractImageOrThrow(emptyResponse(), 'No image data')).toThrow('No image data');
+    expect(() => extractImageOrThrow({}, 'No image data')).toThrow('No image data');
+  });
+});
+
+describe('gemini provider with a mock client', () => {
+  // The service logs every failure before rethrowing
+  beforeEach(() => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it('returns the canned sprite', async () => {
+    const provider = createMockProvider();
+    await expect(provider.generateSprite(SPRITE_REQUEST)).resolves.toBe(`data:image/png;base64,${MOCK_SPRITE_PNG}`);
+  });
+
+  it('routes the tier to the matching model and only sends an image size to pro', async () => {
+    const client = createMockClient();
+    const provider = createGeminiProvider(() => client);
+
+    await provider.generateSprite(SPRITE_REQUEST);
+    await provider.generateSprite({ ...SPRITE_REQUEST, tier: ModelTier.PRO, resolution: ImageResolution.R2K });
+
+    expect(client.calls[0].model).toBe(MODEL_IDS[ModelTier.STANDARD]);
+    expect(client.calls[0].config?.imageConfig?.imageSize).toBeUndefined();
+    expect(client.calls[1].model).toBe(MODEL_IDS[ModelTier.PRO]);
+    expect(client.calls[1].config?.imageConfig?.imageSize).toBe(ImageResolution.R2K);
+  });
+
+  it('puts the prompt, style and size into the request text', async () => {
+    const client = createMockClient();
+    await createGeminiProvider(() => client).generateSprite(SPRITE_REQUEST);
+
+    const text = requestParts(client.calls[0])[0].text;
+    expect(text).toContain('iron sword');
+    expect(text).toContain('Pico-8 Palette');
+    expect(text).toContain('32x32');
+  });
+
+  it('strips the data URL prefix from input images', async () => {
+    const client = createMockClient();
+    await createGeminiProvider(() => client).editSprite(`data:image/png;base64,${MOCK_SPRITE_PNG}`, 'add a hat');
+
+    expect(requestParts(client.calls[0])[0].inlineData?.data).toBe(MOCK_SPRITE_PNG);
+    expect(requestParts(client.calls[0])[1].text).toContain('add a hat');
+  });
+
+  it('surfaces refusals as errors carrying the model text', async () => {
+    const provider = createMockProvider([{ kind: 'text', text: 'This request violates the policy.' }]);
+    await expect(provider.removeBackground('data:image/png;base64,abc')).rejects.toThrow('This request violates the policy.');
+  });
+
+  it('reports a missing image with the operation specific message', async () => {
+    const provider = createMockProvider([{ kind: 'empty' }]);
+    await expect(provider.editSprite('data:image/png;base64,abc', 'recolour')).rejects.toThrow('Failed to edit image');
+    await expect(provider.convertToPixelArt('data:image/png;base64,abc', TRANSFER_REQUEST)).rejects.toThrow('Failed to convert image');
+  });
+
+  it('rethrows transport errors once the retries run out', async () => {
+    const provider = createMockProvider([{ kind: 'error', message: '503 Service Unavailable' }]);
+    await expect(provider.generateTileSet({ ...SPRITE_REQUEST, type: 'seamless' })).rejects.toThrow('503');
+  });
+
+  it('retries rate limited requests', async () => {
+    const provider = createMockProvider([{ kind: 'error', message: 'Too Many Requests', status: 429 }, { kind: 'image' }]);
+    await expect(provider.generateSprite(SPRITE_REQUEST)).resolves.toContain(MOCK_SPRITE_PNG);
+  });
+
+  it('does not retry auth failures or refusals', async () => {
+    const client = createMockClient([{ kind: 'error', message: 'API key not valid', status: 400 }, { kind: 'image' }]);
+    const provider = createGeminiProvider(() => client, { retries: 3, baseDelayMs: 0, maxDelayMs: 0 });
+    await expect(provider.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'auth' });
+    expect(client.calls).toHaveLength(1);
+
+    const refusing = createMockProvider([{ kind: 'blocked', reason: FinishReason.SAFETY }, { kind: 'image' }]);
+    await expect(refusing.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'safety' });
+  });
+
+  it('treats a missing project as an auth error so a new key can be picked', async () => {
+    const provider = createMockProvider([{ kind: 'error', message: 'Requested entity was not found.', status: 404 }]);
+    await expect(provider.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'auth', status: 404 });
+    const unstructured = createMockProvider([{ kind: 'error', message: 'Requested entity was not found.' }]);
+    await expect(unstructured.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'auth' });
+  });
+
+  it('forwards the abort signal and rejects as cancelled when aborted mid-request', async () => {
+    const client = createMockClient([{ kind: 'hang' }]);
+    const controller = new AbortController();
+    const pending = createGeminiProvider(() => client).editSprite('data:image/png;base64,abc', 'recolour', controller.signal);
+
+    controller.abort();
+    await expect(pending).rejects.toMatchObject({ type: 'cancelled' });
+    expect(client.calls[0].config?.abortSignal).toBe(controller.signal);
+  });
+
+  it('does not send requests that were cancelled before they started', async () => {
+    const client = createMockClient();
+    const controller = new AbortController();
+    controller.abort();
+    await expect(createGeminiProvider(() => client).generateSprite(SPRITE_REQUEST, controller.signal)).rejects.toMatchObject({ type: 'cancelled' });
+    expect(client.calls).toHaveLength(0);
+  });
+
+  it('asks for the requested facing with the reference attached', async () => {
+    const client = createMockClient();
+    await createGeminiProvider(() => client).generateTurnaroundView(`data:image/png;base64,${MOCK_SPRITE_PNG}`, 'up-left');
+
+    expect(requestParts(client.calls[0])[0].inlineData?.data).toBe(MOCK_SPRITE_PNG);
+    expect(requestParts(client.calls[0])[1].text).toContain('away from the viewer and to the left');
+  });
+
+  it('converts with the chosen style, size, outline and palette', async () => {
+    const client = createMockClient();
+    const provider = createGeminiProvider(() => client);
+    await provider.convertToPixelArt(`data:image/png;base64,${MOCK_SPRITE_PNG}`, TRANSFER_REQUEST);
+    await provider.convertToPixelArt(`data:image/png;base64,${MOCK_SPRITE_PNG}`, {
+      ...TRANSFER_REQUEST,
+      outline: true,
+      palette: { name: 'Game Boy', colors: ['#0F380F', '#9BBC0F'] },
+    });
+
+    const [plain, outlined] = client.calls.map(call => requestParts(call)[1].text);
+    expect(plain).toContain('Gameboy Monochrome');
+    expect(plain).toContain('16x16');
+    expect(plain).toContain('Do not add outlines');
+    expect(plain).not.toContain('SNES');
+    expect(outlined).toContain('Add dark 1-pixel outlines');
+    expect(outlined).toContain('#0F380F, #9BBC0F');
+  });
+
+  it('returns the animation strip as a single frame', async () => {
+    const provider = createMockProvider();
+    const frames = await provider.generateAnimationFrames(`data:image/png;base64,${MOCK_SPRITE_PNG}`, 'Walk Cycle', 4, true);
+    expect(frames).toHaveLength(1);
+  });
+
+  it('replays replies in order and repeats the last one', async () => {
+    const provider = createMockProvider([{ kind: 'text', text: 'refused' }, { kind: 'image' }]);
+    await expect(provider.generateSprite(SPRITE_REQUEST)).rejects.toThrow('refused');
+    await expect(provider.generateSprite(SPRITE_REQUEST)).resolves.toContain(MOCK_SPRITE_PNG);
+    await expect(provider.generateSprite(SPRITE_REQUEST)).resolves.toContain(MOCK_SPRITE_PNG);
+  });
+});
@@ -1,31 +1,62 @@
-import { GoogleGenAI } from "@google/genai";
-import { ArtStyle, SpriteSize, ImageResolution } from "../types";
+import { GenerateContentParameters, GenerateContentResponse, GoogleGenAI } from "@google/genai";
+import { SpriteSize, ImageResolution, ModelTier, Direction } from "../types";
+import { ImageProvider, StyleTransferRequest } from "./imageProvider";
+import { DEFAULT_RETRY_OPTIONS, ImageServiceError, RetryOptions, toImageServiceError, withRetry } from "./serviceErrors";
+
+export const MODEL_IDS: Record<ModelTier, string> = {
+  [ModelTier.STANDARD]: 'gemini-2.5-flash-image',
+  [ModelTier.PRO]: 'gemini-3-pro-image-preview',
+};
+
+/** The part of the SDK client used here, so tests can pass a stub. */
+export interface GenAiClient {
+  models: { generateContent: (params: GenerateContentParameters) => Promise<GenerateContentResponse> };
+}
+
+/**
+ * Gemini answers 404 "Requested entity was not found" when the key's project was deleted or
+ * lost access, so here a 404 means the key has to be replaced. Other backends keep 404 as is.
+ */
+export const toGeminiError = (error: unknown): ImageServiceError => {
+  const classified = toImageServiceError(error);
+  const notFound = classified.status === 404 || /Requested entity was not found/i.test(classified.message);
+  if (classified.type !== 'unknown' || !notFound) return classified;
+  return new ImageServiceError('auth', classified.message, { status: classified.status, cause: error });
+};
 
 // Helper to get client with current key
-const getAiClient = () => new GoogleGenAI({ apiKey: process.env.API_KEY });
+const getAiClient = (): GenAiClient => new GoogleGenAI({ apiKey: process.env.API_KEY });
+
+// Finish/block reasons the API uses when a safety filter stopped the request
+const SAFETY_REASONS = ['SAFETY', 'PROHIBITED_CONTENT', 'BLOCKLIST', 'SPII', 'IMAGE_SAFETY', 'IMAGE_PROHIBITED_CONTENT'];
 
 // Helper to extract image or throw descriptive error
-const extractImageOrThrow = (response: any, defaultError: string) => {
+export const extractImageOrThrow = (response: any, defaultError: string) => {
     const parts = response.candidates?.[0]?.content?.parts || [];
     for (const part of parts) {
       if (part.inlineData) {
         return `data:image/png;base64,${part.inlineData.data}`;
       }
     }
-    // If no image, check for text (refusal or description)
     const textPart = parts.find((p: any) => p.text);
+    const blockReason = response.promptFeedback?.blockReason || response.candidates?.[0]?.finishReason;
+    if (SAFETY_REASONS.includes(blockReason)) {
+        throw new ImageServiceError('safety', textPart?.text || `Blocked by safety filter (${blockReason})`);
+    }
+    // If no image, check for text (refusal or description)
     if (textPart?.text) {
-        throw new Error(textPart.text); // Return the model's explanation
+        throw new ImageServiceError('no-image', textPart.text); // Return the model's explanation
     }
-    throw new Error(defaultError);
+    throw new ImageServiceError('no-image', defaultError);
 };
 
 export const generateStandardSprite = async (
   prompt: string,
   size: SpriteSize,
-  style: string
+  style: string,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
 ): Promise<string> => {
-  const ai = getAiClient();
   try {
     const fullPrompt = `Create an image of a pixel art sprite. 
     Subject: ${prompt}. 
@@ -35,28 +66,30 @@ export const generateStandardSprite = async (
     Ensure crisp pixel edges, no anti-aliasing blurring, limited color palette suitable for retro games.`;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model: MODEL_IDS[ModelTier.STANDARD],
       contents: {
         parts: [{ text: fullPrompt }],
       },
       config: {
         imageConfig: { aspectRatio: "1:1" },
+        abortSignal: signal,
       },
     });
 
     return extractImageOrThrow(response, "No image data found in response");
   } catch (error) {
     console.error("Error generating sprite:", error);
-    throw error;
+    throw toGeminiError(error);
   }
 };
 
 export const generateProSprite = async (
   prompt: string,
-  style: ArtStyle,
-  resolution: ImageResolution
+  style: string,
+  resolution: ImageResolution,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
 ): Promise<string> => {
-  const ai = getAiClient();
   try {
     const fullPrompt = `Generate a high-quality pixel art game asset. 
     Subject: ${prompt}. 
@@ -65,7 +98,7 @@ export const generateProSprite = async (
     Ensure professional quality, crisp details.`;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-3-pro-image-preview',
+      model: MODEL_IDS[ModelTier.PRO],
       contents: {
         parts: [{ text: fullPrompt }],
       },
@@ -74,26 +107,28 @@ export const generateProSprite = async (
           aspectRatio: "1:1",
           imageSize: resolution
         },
+        abortSignal: signal,
       },
     });
 
     return extractImageOrThrow(response, "No image data found in response");
   } catch (error) {
     console.error("Error generating pro sprite:", error);
-    throw error;
+    throw toGeminiError(error);
   }
 };
 
 export const editPixelSprite = async (
   imageBase64: string,
-  editPrompt: string
+  editPrompt: string,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
 ): Promise<string> => {
-  const ai = getAiClient();
   try {
     const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model: MODEL_IDS[ModelTier.STANDARD],
       contents: {
         parts: [
           {
@@ -109,13 +144,14 @@ export const editPixelSprite = async (
       },
       config: {
          // Do not set responseMimeType or Schema for image editing on flash-image
+         abortSignal: signal,
       }
     });
 
     return extractImageOrThrow(response, "Failed to edit image");
   } catch (error) {
     console.error("Error editing sprite:", error);
-    throw error;
+    throw toGeminiError(error);
   }
 };
 
@@ -123,9 +159,10 @@ export const generatePixelAnimationFrames = async (
   referenceImageBase64: string,
   action: string,
   frameCount: number = 3,
-  isLooping: boolean = true
+  isLooping: boolean = true,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
 ): Promise<string[]> => {
-    const ai = getAiClient();
     try {
         const cleanBase64 = referenceImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
         
@@ -135,7 +172,7 @@ export const generatePixelAnimationFrames = async (
                   Keep the exact same style, palette, and resolution. White background.`;
 
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
+            model: MODEL_IDS[ModelTier.STANDARD],
             contents: {
               parts: [
                 {
@@ -152,7 +189,8 @@ export const generatePixelAnimationFrames = async (
             config: {
                 imageConfig: {
                     aspectRatio: "4:3",
-                }
+                },
+                abortSignal: signal,
             }
           });
 
@@ -161,17 +199,21 @@ export const generatePixelAnimationFrames = async (
 
     } catch (error) {
         console.error("Error generating animation:", error);
-        throw error;
+        throw toGeminiError(error);
     }
 }
 
-export const convertToPixelArt = async (imageBase64: string): Promise<string> => {
-    const ai = getAiClient();
+export const convertToPixelArt = async (
+  imageBase64: string,
+  { style, size, outline, palette }: StyleTransferRequest,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
+): Promise<string> => {
     try {
         const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
         const response = await ai.models.generateContent({
-            model: 'gemini-2.5-flash-image',
+            model: MODEL_IDS[ModelTier.STANDARD],
             contents: {
               parts: [
                 {
@@ -182,29 +224,30 @@ export const convertToPixelArt = async (imageBase64: string): Promise<string> =>
                   },
                 {
                   text: `Transform this image into high-quality Pixel Art. 
-                  Style: 16-bit SNES game asset. 
-                  Reduce color palette. 
-                  Add outlines. 
+                  Style: ${style} game asset. 
+                  Resolution: ${size} pixels, with every pixel clearly visible as a crisp square. 
+                  ${palette ? `Use only these colors (${palette.name} palette): ${palette.colors.join(', ')}.` : 'Reduce color palette.'} 
+                  ${outline ? 'Add dark 1-pixel outlines around the subject and its main shapes.' : 'Do not add outlines; separate shapes by color only.'} 
                   Keep the main subject clear.`,
                 },
               ],
             },
+            config: { abortSignal: signal },
           });
 
           return extractImageOrThrow(response, "Failed to convert image");
     } catch (error) {
         console.error("Style transfer error:", error);
-        throw error;
+        throw toGeminiError(error);
     }
 }
 
-export const generateBackgroundRemoval = async (imageBase64: string): Promise<string> => {
-  const ai = getAiClient();
+export const generateBackgroundRemoval = async (imageBase64: string, signal?: AbortSignal, ai: GenAiClient = getAiClient()): Promise<string> => {
   try {
     const cleanBase64 = imageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model: MODEL_IDS[ModelTier.STANDARD],
       contents: {
         parts: [
           {
@@ -221,21 +264,25 @@ export const generateBackgroundRemoval = async (imageBase64: string): Promise<st
           },
         ],
       },
+      config: { abortSignal: signal },
     });
 
     return extractImageOrThrow(response, "Failed to process background");
   } catch (error) {
     console.error("Background removal error:", error);
-    throw error;
+    throw toGeminiError(error);
   }
 };
 
 export const generateTileSet = async (
   prompt: string,
   type: 'seamless' | 'autotile',
-  style: string
+  style: string,
+  tier: ModelTier = ModelTier.STANDARD,
+  resolution: ImageResolution = ImageResolution.R1K,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
 ): Promise<string> => {
-  const ai = getAiClient();
   try {
     let specificInstruction = "";
     
@@ -258,18 +305,107 @@ export const generateTileSet = async (
     Ensure crisp pixel art, no blurring.`;
 
     const response = await ai.models.generateContent({
-      model: 'gemini-2.5-flash-image',
+      model: MODEL_IDS[tier],
       contents: {
         parts: [{ text: fullPrompt }],
       },
       config: {
-        imageConfig: { aspectRatio: "1:1" },
+        // Only the pro model accepts an output size
+        imageConfig: tier === ModelTier.PRO
+          ? { aspectRatio: "1:1", imageSize: resolution }
+          : { aspectRatio: "1:1" },
+        abortSignal: signal,
       },
     });
 
     return extractImageOrThrow(response, "No image data found in response");
   } catch (error) {
     console.error("Error generating tileset:", error);
-    throw error;
+    throw toGeminiError(error);
+  }
+};
+// Wraps a client so quota and network failures are retried with backoff, until the request is aborted
+const withRetries = (client: GenAiClient, retry: RetryOptions): GenAiClient => ({
+  models: {
+    generateContent: (params) => withRetry(() => client.models.generateContent(params), retry, params.config?.abortSignal),
+  },
+});
+
+// How each facing is described to the model; "down" means facing the camera, as in top-down games
+const DIRECTION_DESCRIPTIONS: Record<Direction, string> = {
+  'down': 'facing the viewer (front view, walking towards the bottom of the screen)',
+  'up': 'facing away from the viewer (back view, walking towards the top of the screen)',
+  'left': 'facing left (side profile, walking towards the left edge of the screen)',
+  'right': 'facing right (side profile, walking towards the right edge of the screen)',
+  'down-left': 'facing diagonally towards the viewer and to the left (three-quarter front view)',
+  'down-right': 'facing diagonally towards the viewer and to the right (three-quarter front view)',
+  'up-left': 'facing diagonally away from the viewer and to the left (three-quarter back view)',
+  'up-right': 'facing diagonally away from the viewer and to the right (three-quarter back view)',
+};
+
+export const generateDirectionalView = async (
+  referenceImageBase64: string,
+  direction: Direction,
+  signal?: AbortSignal,
+  ai: GenAiClient = getAiClient()
+): Promise<string> => {
+  try {
+    const cleanBase64 = referenceImageBase64.replace(/^data:image\/(png|jpeg|jpg);base64,/, '');
+
+    const response = await ai.models.generateContent({
+      model: MODEL_IDS[ModelTier.STANDARD],
+      contents: {
+        parts: [
+          {
+            inlineData: {
+              data: cleanBase64,
+              mimeType: 'image/png',
+            },
+          },
+          {
+            text: `Redraw the exact same pixel art character ${DIRECTION_DESCRIPTIONS[direction]}.
+            This is one view of a character turnaround for a game sprite sheet.
+            Keep the same proportions, outfit, colors, palette, outline and canvas size as the reference.
+            Only the facing changes. Single sprite, centered, feet on the same baseline, white background.`,
+          },
+        ],
+      },
+      config: {
+        imageConfig: { aspectRatio: "1:1" },
+        abortSignal: signal,
+      },
+    });
+
+    return extractImageOrThrow(response, "Failed to generate view");
+  } catch (error) {
+    console.error("Error generating turnaround view:", error);
+    throw toGeminiError(error);
   }
-};
\ No newline at end of file
+};
+
+/** Gemini-backed provider; `getClient` is called per request so key changes apply immediately. */
+export const createGeminiProvider = (
+  getClient: () => GenAiClient = getAiClient,
+  retry: RetryOptions = DEFAULT_RETRY_OPTIONS
+): ImageProvider => {
+  const client = () => withRetries(getClient(), retry);
+  return {
+    id: 'gemini',
+    label: 'Google Gemini',
+    modelName: (tier) => MODEL_IDS[tier],
+    generateSprite: ({ prompt, size, style, tier, resolution }, signal) =>
+      tier === ModelTier.PRO
+        ? generateProSprite(prompt, style, resolution, signal, client())
+        : generateStandardSprite(prompt, size, style, signal, client()),
+    editSprite: (image, instruction, signal) => editPixelSprite(image, instruction, signal, client()),
+    generateAnimationFrames: (image, action, frameCount, isLooping, signal) =>
+      generatePixelAnimationFrames(image, action, frameCount, isLooping, signal, client()),
+    convertToPixelArt: (image, request, signal) => convertToPixelArt(image, request, signal, client()),
+    removeBackground: (image, signal) => generateBackgroundRemoval(image, signal, client()),
+    generateTileSet: ({ prompt, type, style, tier, resolution }, signal) =>
+      generateTileSet(prompt, type, style, tier, resolution, signal, client()),
+    generateTurnaroundView: (image, direction, signal) => generateDirectionalView(image, direction, signal, client()),
+  };
+};
+
+export const geminiProvider = createGeminiProvider();
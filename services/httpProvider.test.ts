@@ -0,0 +1,37 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { ImageResolution, ModelTier, SpriteSize } from '../types';
+import { createHttpProvider } from './httpProvider';
+
+const SPRITE_REQUEST = {
+  prompt: 'iron sword',
+  size: SpriteSize.S32,
+  style: 'Pico-8 Palette',
+  tier: ModelTier.STANDARD,
+  resolution: ImageResolution.R1K,
+};
+
+const provider = createHttpProvider({ baseUrl: 'http://localhost:7860/', apiKey: '', model: 'sd' });
+
+const respond = (status: number, body: string) =>
+  vi.stubGlobal('fetch', vi.fn(async () => new Response(body, { status })));
+
+describe('http provider', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('returns the image as a data URL', async () => {
+    respond(200, JSON.stringify({ image: 'abc' }));
+    await expect(provider.generateSprite(SPRITE_REQUEST)).resolves.toBe('data:image/png;base64,abc');
+  });
+
+  it('does not report a wrong endpoint as a bad key', async () => {
+    respond(404, 'Not Found');
+    await expect(provider.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'unknown', status: 404 });
+  });
+
+  it('rejects malformed bodies', async () => {
+    respond(200, JSON.stringify({ images: [1, 2] }));
+    await expect(provider.generateSprite(SPRITE_REQUEST)).rejects.toMatchObject({ type: 'no-image' });
+  });
+});
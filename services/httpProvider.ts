@@ -0,0 +1,95 @@
+import { ImageProvider, HttpProviderConfig } from "./imageProvider";
+import { spriteSizeToPixels } from "../utils/pixelGrid";
+import { DEFAULT_RETRY_OPTIONS, ImageServiceError, toImageServiceError, withRetry } from "./serviceErrors";
+
+// Adapter for self-hosted backends (Stable Diffusion, ComfyUI workflows, ...)
+// exposed behind a small JSON API:
+//
+//   POST {baseUrl}/{operation}   operation = sprite | edit | animate | convert | remove-background | tileset | turnaround
+//   body:     { model, ...operation fields }, input images as PNG data URLs
+//   response: { image: string } or { images: string[] } as data URLs or bare base64,
+//             or { error: string } with a non-2xx status (429 and 5xx are retried),
+//             or { blocked: true, error } when a safety filter rejected the prompt
+
+type Operation = 'sprite' | 'edit' | 'animate' | 'convert' | 'remove-background' | 'tileset' | 'turnaround';
+
+const toDataUrl = (image: string) => (image.startsWith('data:') ? image : `data:image/png;base64,${image}`);
+
+interface BackendResponse {
+  images: string[];
+  error?: string;
+  blocked: boolean;
+}
+
+const isStringArray = (value: unknown): value is string[] => Array.isArray(value) && value.every(v => typeof v === 'string');
+
+/** Picks the documented fields out of a parsed body, or null when they have the wrong shape. */
+const readResponse = (json: unknown): BackendResponse | null => {
+  if (typeof json !== 'object' || json === null || Array.isArray(json)) return null;
+  const { image, images, error, text, blocked } = json as Record<string, unknown>;
+  if ((image != null && typeof image !== 'string') || (images != null && !isStringArray(images))) return null;
+  const message = typeof error === 'string' ? error : typeof text === 'string' ? text : undefined;
+  const list = isStringArray(images) ? images : typeof image === 'string' && image ? [image] : [];
+  return { images: list, error: message, blocked: blocked === true };
+};
+
+const send = async (config: HttpProviderConfig, operation: Operation, body: Record<string, unknown>, signal?: AbortSignal): Promise<string[]> => {
+  const headers: Record<string, string> = { 'Content-Type': 'application/json' };
+  if (config.apiKey) headers['Authorization'] = `Bearer ${config.apiKey}`;
+
+  const response = await fetch(`${config.baseUrl.replace(/\/+$/, '')}/${operation}`, {
+    method: 'POST',
+    headers,
+    body: JSON.stringify({ model: config.model, ...body }),
+    signal,
+  });
+
+  const text = await response.text();
+  let json: unknown = null;
+  try {
+    json = text ? JSON.parse(text) : null;
+  } catch {
+    // Plain-text error pages are reported as-is below
+  }
+  const parsed = readResponse(json);
+
+  if (!response.ok) {
+    const classified = toImageServiceError({ status: response.status, message: `${response.status} ${parsed?.error || text || response.statusText}` });
+    const retryAfter = Number(response.headers.get('Retry-After'));
+    throw new ImageServiceError(classified.type, classified.message, {
+      status: response.status,
+      retryAfterMs: retryAfter > 0 ? retryAfter * 1000 : undefined,
+    });
+  }
+  if (!parsed) throw new ImageServiceError('no-image', `Malformed response from ${operation}: ${text.slice(0, 200) || 'empty body'}`);
+  if (parsed.images.length === 0) {
+    throw new ImageServiceError(parsed.blocked ? 'safety' : 'no-image', parsed.error || "No image data found in response");
+  }
+  return parsed.images.map(toDataUrl);
+};
+
+const request = (config: HttpProviderConfig, operation: Operation, body: Record<string, unknown>, signal?: AbortSignal) =>
+  withRetry(() => send(config, operation, body, signal), DEFAULT_RETRY_OPTIONS, signal);
+
+const first = async (pending: Promise<string[]>) => (await pending)[0];
+
+export const createHttpProvider = (config: HttpProviderConfig): ImageProvider => ({
+  id: 'http',
+  label: 'HTTP Backend',
+  modelName: () => config.model || 'http',
+  generateSprite: ({ prompt, size, style, tier, resolution }, signal) => {
+    const pixels = spriteSizeToPixels(size);
+    return first(request(config, 'sprite', { prompt, style, width: pixels, height: pixels, tier, resolution }, signal));
+  },
+  editSprite: (image, instruction, signal) => first(request(config, 'edit', { image, prompt: instruction }, signal)),
+  generateAnimationFrames: (image, action, frameCount, isLooping, signal) =>
+    request(config, 'animate', { image, action, frames: frameCount, loop: isLooping }, signal),
+  convertToPixelArt: (image, { style, size, outline, palette }, signal) => {
+    const pixels = spriteSizeToPixels(size);
+    return first(request(config, 'convert', { image, style, width: pixels, height: pixels, outline, palette: palette?.colors }, signal));
+  },
+  removeBackground: (image, signal) => first(request(config, 'remove-background', { image, keyColor: '#FF00FF' }, signal)),
+  generateTileSet: ({ prompt, type, style, tier, resolution }, signal) =>
+    first(request(config, 'tileset', { prompt, type, style, tier, resolution }, signal)),
+  generateTurnaroundView: (image, direction, signal) => first(request(config, 'turnaround', { image, direction }, signal)),
+});
@@ -0,0 +1,64 @@
+import { Direction, ImageResolution, ModelTier, SpriteSize } from "../types";
+
+// Common surface for image backends. App code only talks to an ImageProvider,
+// so Gemini, a self-hosted HTTP backend or a test stub are interchangeable.
+// Every method resolves with PNG data URLs and rejects with an ImageServiceError;
+// aborting `signal` rejects with type 'cancelled'.
+
+export type ProviderId = 'gemini' | 'http' | 'mock';
+
+export interface SpriteRequest {
+  prompt: string;
+  size: SpriteSize;
+  style: string;
+  tier: ModelTier;
+  resolution: ImageResolution; // Render size for the pro tier
+}
+
+export interface TileSetRequest {
+  prompt: string;
+  type: 'seamless' | 'autotile';
+  style: string;
+  tier: ModelTier;
+  resolution: ImageResolution;
+}
+
+export interface StyleTransferRequest {
+  style: string;
+  size: SpriteSize; // Target sprite size
+  outline: boolean;
+  palette?: { name: string; colors: string[] }; // Locked palette the result gets quantized to
+}
+
+export interface ImageProvider {
+  id: ProviderId;
+  label: string;
+  /** Model name shown in the UI and stored with each result. */
+  modelName: (tier: ModelTier) => string;
+  generateSprite: (request: SpriteRequest, signal?: AbortSignal) => Promise<string>;
+  editSprite: (image: string, instruction: string, signal?: AbortSignal) => Promise<string>;
+  /** Returns the animation as a single horizontal strip, like the model produces it. */
+  generateAnimationFrames: (image: string, action: string, frameCount: number, isLooping: boolean, signal?: AbortSignal) => Promise<string[]>;
+  convertToPixelArt: (image: string, request: StyleTransferRequest, signal?: AbortSignal) => Promise<string>;
+  /** Subject on a solid #FF00FF background (or already transparent). */
+  removeBackground: (image: string, signal?: AbortSignal) => Promise<string>;
+  generateTileSet: (request: TileSetRequest, signal?: AbortSignal) => Promise<string>;
+  /** The same character as `image`, turned to face `direction`. */
+  generateTurnaroundView: (image: string, direction: Direction, signal?: AbortSignal) => Promise<string>;
+}
+
+export interface HttpProviderConfig {
+  baseUrl: string;
+  apiKey: string; // Sent as a bearer token when set
+  model: string; // Checkpoint/workflow name forwarded to the backend
+}
+
+export interface ProviderSettings {
+  providerId: ProviderId;
+  http: HttpProviderConfig;
+}
+
+export const DEFAULT_PROVIDER_SETTINGS: ProviderSettings = {
+  providerId: 'gemini',
+  http: { baseUrl: 'http://localhost:8188', apiKey: '', model: 'sdxl-pixel-art' },
+};
@@ -0,0 +1,83 @@
+import { FinishReason, GenerateContentParameters, GenerateContentResponse } from "@google/genai";
+import { GenAiClient, MODEL_IDS, createGeminiProvider } from "./geminiService";
+import { ImageProvider } from "./imageProvider";
+import { DEFAULT_RETRY_OPTIONS } from "./serviceErrors";
+
+// Offline stand-in for the Gemini API. It answers with Gemini-shaped responses,
+// so the real prompt building and response handling (extractImageOrThrow) run
+// without a key or network access.
+
+/** 8x8 red block with a dark outline on white, base64 PNG. */
+export const MOCK_SPRITE_PNG =
+  'iVBORw0KGgoAAAANSUhEUgAAAAgAAAAICAYAAADED76LAAAAIUlEQVR42mP4TwAwgAhZ7WCsGEXBfwZfFDwQCvA6Eh8AAN0YtEmACXPVAAAAAElFTkSuQmCC';
+
+export type MockReply =
+  | { kind: 'image'; data?: string } // Base64 PNG, defaults to MOCK_SPRITE_PNG
+  | { kind: 'text'; text: string } // Text-only answer, e.g. a safety refusal
+  | { kind: 'empty' } // No candidates at all
+  | { kind: 'error'; message: string; status?: number } // Request itself fails, like the SDK's ApiError
+  | { kind: 'blocked'; reason: FinishReason } // Stopped by a safety filter
+  | { kind: 'hang' }; // Never answers; only settles when the request is aborted
+
+// The SDK hands out class instances, so the canned answers are built the same way
+const response = (fields: Partial<GenerateContentResponse>) => Object.assign(new GenerateContentResponse(), fields);
+
+export const imageResponse = (data: string = MOCK_SPRITE_PNG) => response({
+  candidates: [{ content: { parts: [{ inlineData: { mimeType: 'image/png', data } }] } }],
+});
+
+export const textResponse = (text: string) => response({
+  candidates: [{ content: { parts: [{ text }] } }],
+});
+
+export const emptyResponse = () => response({ candidates: [] });
+
+export const blockedResponse = (reason: FinishReason) => response({ candidates: [{ finishReason: reason, content: { parts: [] } }] });
+
+export interface MockClient extends GenAiClient {
+  /** Parameters of every generateContent call, in order. */
+  calls: GenerateContentParameters[];
+}
+
+/** Replays `replies` in order, repeating the last one once they run out. */
+export const createMockClient = (replies: MockReply[] = [{ kind: 'image' }]): MockClient => {
+  const calls: GenerateContentParameters[] = [];
+  return {
+    calls,
+    models: {
+      generateContent: async (params) => {
+        const reply = replies[Math.min(calls.length, replies.length - 1)];
+        calls.push(params);
+        const signal = params.config?.abortSignal;
+        if (signal?.aborted) throw new DOMException('The operation was aborted.', 'AbortError');
+        switch (reply.kind) {
+          case 'hang':
+            return new Promise<GenerateContentResponse>((_, reject) =>
+              signal?.addEventListener('abort', () => reject(new DOMException('The operation was aborted.', 'AbortError')))
+            );
+          case 'image':
+            return imageResponse(reply.data);
+          case 'text':
+            return textResponse(reply.text);
+          case 'empty':
+            return emptyResponse();
+          case 'blocked':
+            return blockedResponse(reply.reason);
+          case 'error':
+            throw Object.assign(new Error(reply.message), { status: reply.status });
+        }
+      },
+    },
+  };
+};
+
+export const createMockProvider = (replies?: MockReply[]): ImageProvider => {
+  const client = createMockClient(replies);
+  return {
+    // Same retry policy as the real provider, without the waiting
+    ...createGeminiProvider(() => client, { ...DEFAULT_RETRY_OPTIONS, sleep: async () => {} }),
+    id: 'mock',
+    label: 'Offline Mock',
+    modelName: (tier) => `mock/${MODEL_IDS[tier]}`,
+  };
+};
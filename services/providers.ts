@@ -0,0 +1,22 @@
+import { ImageProvider, ProviderId, ProviderSettings } from "./imageProvider";
+import { geminiProvider } from "./geminiService";
+import { createHttpProvider } from "./httpProvider";
+import { createMockProvider } from "./mockProvider";
+
+export const PROVIDER_OPTIONS: { id: ProviderId; label: string }[] = [
+  { id: 'gemini', label: 'Google Gemini' },
+  { id: 'http', label: 'HTTP Backend (SD / ComfyUI)' },
+  { id: 'mock', label: 'Mock (offline, ảnh mẫu)' },
+];
+
+export const createImageProvider = (settings: ProviderSettings): ImageProvider => {
+  switch (settings.providerId) {
+    case 'http':
+      return createHttpProvider(settings.http);
+    case 'mock':
+      return createMockProvider();
+    case 'gemini':
+    default:
+      return geminiProvider;
+  }
+};
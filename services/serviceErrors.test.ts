@@ -0,0 +1,117 @@
+import { describe, expect, it } from 'vitest';
+import { DEFAULT_RETRY_OPTIONS, ImageServiceError, backoffDelay, toImageServiceError, withRetry } from './serviceErrors';
+
+const noWait = { ...DEFAULT_RETRY_OPTIONS, sleep: async () => {} };
+
+describe('toImageServiceError', () => {
+  it('classifies by the status property first', () => {
+    expect(toImageServiceError(Object.assign(new Error('nope'), { status: 403 })).type).toBe('auth');
+    expect(toImageServiceError(Object.assign(new Error('slow down'), { status: 429 })).type).toBe('quota');
+    expect(toImageServiceError(Object.assign(new Error('oops'), { status: 503 })).type).toBe('network');
+    expect(toImageServiceError({ status: 429, message: 'plain object' }).type).toBe('quota');
+  });
+
+  it('leaves 404 unclassified, since only Gemini uses it for a bad key', () => {
+    expect(toImageServiceError(Object.assign(new Error('gone'), { status: 404 })).type).toBe('unknown');
+    expect(toImageServiceError(new Error('404 Not Found')).status).toBe(404);
+  });
+
+  it('falls back to codes in the message', () => {
+    expect(toImageServiceError(new Error('got status: 429 Too Many Requests')).type).toBe('quota');
+    expect(toImageServiceError(new Error('{"status":"RESOURCE_EXHAUSTED"}')).type).toBe('quota');
+    expect(toImageServiceError(new Error('API key not valid. Please pass a valid API key.')).type).toBe('auth');
+    expect(toImageServiceError(new TypeError('Failed to fetch')).type).toBe('network');
+    expect(toImageServiceError('something odd').type).toBe('unknown');
+  });
+
+  it('reads the retry delay from Gemini quota details', () => {
+    const error = toImageServiceError(new Error('429 {"retryDelay": "23s"}'));
+    expect(error.retryAfterMs).toBe(23000);
+  });
+
+  it('passes structured errors through untouched', () => {
+    const error = new ImageServiceError('safety', 'blocked');
+    expect(toImageServiceError(error)).toBe(error);
+  });
+
+  it('only treats quota and network errors as retryable', () => {
+    expect(new ImageServiceError('quota', '').retryable).toBe(true);
+    expect(new ImageServiceError('network', '').retryable).toBe(true);
+    expect(new ImageServiceError('auth', '').retryable).toBe(false);
+    expect(new ImageServiceError('safety', '').retryable).toBe(false);
+    expect(new ImageServiceError('no-image', '').retryable).toBe(false);
+  });
+});
+
+describe('backoffDelay', () => {
+  const options = { retries: 5, baseDelayMs: 100, maxDelayMs: 1000 };
+
+  it('doubles per attempt and caps at the maximum', () => {
+    const noJitter = () => 0;
+    expect([0, 1, 2, 3, 4].map(a => backoffDelay(a, options, undefined, noJitter))).toEqual([100, 200, 400, 800, 1000]);
+  });
+
+  it('adds at most 25% jitter', () => {
+    expect(backoffDelay(1, options, undefined, () => 1)).toBe(250);
+  });
+
+  it("prefers the server's retry hint", () => {
+    expect(backoffDelay(0, options, new ImageServiceError('quota', '', { retryAfterMs: 700 }))).toBe(700);
+    expect(backoffDelay(0, options, new ImageServiceError('quota', '', { retryAfterMs: 5000 }))).toBe(1000);
+  });
+});
+
+describe('withRetry', () => {
+  it('retries transient failures until one succeeds', async () => {
+    const delays: number[] = [];
+    let calls = 0;
+    const result = await withRetry(async () => {
+      if (++calls < 3) throw Object.assign(new Error('busy'), { status: 503 });
+      return 'ok';
+    }, { ...DEFAULT_RETRY_OPTIONS, sleep: async (ms) => { delays.push(ms); } });
+
+    expect(result).toBe('ok');
+    expect(calls).toBe(3);
+    expect(delays).toHaveLength(2);
+    expect(delays[1]).toBeGreaterThan(delays[0]);
+  });
+
+  it('gives up after the configured retries', async () => {
+    let calls = 0;
+    const failing = withRetry(async () => {
+      calls++;
+      throw Object.assign(new Error('quota'), { status: 429 });
+    }, noWait);
+    await expect(failing).rejects.toMatchObject({ type: 'quota' });
+    expect(calls).toBe(DEFAULT_RETRY_OPTIONS.retries + 1);
+  });
+
+  it('does not retry permanent failures', async () => {
+    let calls = 0;
+    const failing = withRetry(async () => {
+      calls++;
+      throw Object.assign(new Error('denied'), { status: 403 });
+    }, noWait);
+    await expect(failing).rejects.toBeInstanceOf(ImageServiceError);
+    expect(calls).toBe(1);
+  });
+
+  it('stops waiting for the next attempt when aborted', async () => {
+    const controller = new AbortController();
+    let calls = 0;
+    const pending = withRetry(async () => {
+      calls++;
+      setTimeout(() => controller.abort(), 0);
+      throw Object.assign(new Error('busy'), { status: 503 });
+    }, { retries: 3, baseDelayMs: 60000, maxDelayMs: 60000 }, controller.signal);
+
+    await expect(pending).rejects.toMatchObject({ type: 'cancelled' });
+    expect(calls).toBe(1);
+  });
+
+  it('classifies abort errors as cancelled and never retries them', () => {
+    const error = toImageServiceError(new DOMException('The operation was aborted.', 'AbortError'));
+    expect(error.type).toBe('cancelled');
+    expect(error.retryable).toBe(false);
+  });
+});
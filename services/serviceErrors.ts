@@ -0,0 +1,122 @@
+// Structured errors for image providers. Everything a provider throws is turned into an
+// ImageServiceError here, so the UI can branch on `type` instead of matching message text.
+
+export type ImageErrorType = 'auth' | 'quota' | 'safety' | 'no-image' | 'network' | 'cancelled' | 'unknown';
+
+export class ImageServiceError extends Error {
+  readonly type: ImageErrorType;
+  readonly status?: number; // HTTP status when the backend returned one
+  readonly retryAfterMs?: number; // Server supplied wait before retrying
+
+  constructor(type: ImageErrorType, message: string, options: { status?: number; retryAfterMs?: number; cause?: unknown } = {}) {
+    super(message, { cause: options.cause });
+    this.name = 'ImageServiceError';
+    this.type = type;
+    this.status = options.status;
+    this.retryAfterMs = options.retryAfterMs;
+  }
+
+  /** Quota and network failures usually clear up on their own. */
+  get retryable() {
+    return this.type === 'quota' || this.type === 'network';
+  }
+}
+
+const typeForStatus = (status: number): ImageErrorType => {
+  if (status === 401 || status === 403) return 'auth';
+  if (status === 429) return 'quota';
+  if (status === 408 || status >= 500) return 'network';
+  return 'unknown';
+};
+
+/** Gemini quota errors carry `"retryDelay": "23s"` in their details. */
+const parseRetryDelay = (message: string) => {
+  const match = message.match(/"retryDelay":\s*"(\d+(?:\.\d+)?)s"/);
+  return match ? Math.round(parseFloat(match[1]) * 1000) : undefined;
+};
+
+/** A property of a thrown value that may be an Error, a plain object or anything else. */
+const property = (error: unknown, key: string): unknown =>
+  typeof error === 'object' && error !== null && key in error ? (error as Record<string, unknown>)[key] : undefined;
+
+/**
+ * Classifies anything thrown by an SDK or fetch call. Errors with a numeric `status`
+ * (the Gemini SDK's ApiError) are classified by it; otherwise the status code or
+ * gRPC code in the message decides.
+ */
+export const toImageServiceError = (error: unknown): ImageServiceError => {
+  if (error instanceof ImageServiceError) return error;
+
+  const messageProp = error instanceof Error ? error.message : property(error, 'message');
+  const message = typeof messageProp === 'string' && messageProp ? messageProp : String(error);
+  if (property(error, 'name') === 'AbortError') return new ImageServiceError('cancelled', message, { cause: error });
+
+  const statusProp = property(error, 'status');
+  const statusInMessage = message.match(/\b(401|403|404|408|429|50[0-4])\b/);
+  const status = typeof statusProp === 'number' ? statusProp : statusInMessage ? Number(statusInMessage[1]) : undefined;
+
+  let type: ImageErrorType = status ? typeForStatus(status) : 'unknown';
+  if (type === 'unknown') {
+    if (/RESOURCE_EXHAUSTED|quota|rate limit/i.test(message)) type = 'quota';
+    else if (/PERMISSION_DENIED|UNAUTHENTICATED|API key/i.test(message)) type = 'auth';
+    // fetch() rejects with a TypeError when the request never reaches the server
+    else if (error instanceof TypeError || /Failed to fetch|NetworkError|ECONNRESET|ETIMEDOUT|UNAVAILABLE/i.test(message)) type = 'network';
+  }
+
+  return new ImageServiceError(type, message, { status, retryAfterMs: parseRetryDelay(message), cause: error });
+};
+
+export interface RetryOptions {
+  retries: number; // Extra attempts after the first one
+  baseDelayMs: number; // Doubled on every attempt
+  maxDelayMs: number;
+  sleep?: (ms: number, signal?: AbortSignal) => Promise<void>;
+}
+
+export const DEFAULT_RETRY_OPTIONS: RetryOptions = { retries: 3, baseDelayMs: 1000, maxDelayMs: 30000 };
+
+export const cancelledError = () => new ImageServiceError('cancelled', 'Request was cancelled');
+
+/** Resolves after `ms`, or rejects as soon as `signal` is aborted. */
+const wait = (ms: number, signal?: AbortSignal) =>
+  new Promise<void>((resolve, reject) => {
+    if (signal?.aborted) return reject(cancelledError());
+    const onAbort = () => {
+      clearTimeout(timer);
+      reject(cancelledError());
+    };
+    const timer = setTimeout(() => {
+      signal?.removeEventListener('abort', onAbort);
+      resolve();
+    }, ms);
+    signal?.addEventListener('abort', onAbort, { once: true });
+  });
+
+/** Delay before retry number `attempt` (0-based): exponential with up to 25% jitter, or the server's hint. */
+export const backoffDelay = (attempt: number, options: RetryOptions, error?: ImageServiceError, random = Math.random) => {
+  if (error?.retryAfterMs !== undefined) return Math.min(error.retryAfterMs, options.maxDelayMs);
+  const delay = options.baseDelayMs * 2 ** attempt;
+  return Math.min(delay + delay * 0.25 * random(), options.maxDelayMs);
+};
+
+/**
+ * Runs `task`, retrying transient failures with exponential backoff. Always rejects with an
+ * ImageServiceError; once `signal` is aborted no further attempt is made.
+ */
+export const withRetry = async <T>(
+  task: () => Promise<T>,
+  options: RetryOptions = DEFAULT_RETRY_OPTIONS,
+  signal?: AbortSignal
+): Promise<T> => {
+  const sleep = options.sleep ?? wait;
+  for (let attempt = 0; ; attempt++) {
+    if (signal?.aborted) throw cancelledError();
+    try {
+      return await task();
+    } catch (e) {
+      const error = signal?.aborted ? cancelledError() : toImageServiceError(e);
+      if (!error.retryable || attempt >= options.retries) throw error;
+      await sleep(backoffDelay(attempt, options, error), signal);
+    }
+  }
+};
@@ -5,7 +5,12 @@ export enum AppMode {
   SPRITE_SHEET = 'SPRITE_SHEET',
   STYLE_TRANSFER = 'STYLE_TRANSFER',
   BACKGROUND_REMOVAL = 'BACKGROUND_REMOVAL',
-  TILE_GENERATOR = 'TILE_GENERATOR'
+  TILE_GENERATOR = 'TILE_GENERATOR',
+  MAP_PAINTER = 'MAP_PAINTER',
+  LIBRARY = 'LIBRARY',
+  BATCH = 'BATCH',
+  TURNAROUND = 'TURNAROUND',
+  SETTINGS = 'SETTINGS'
 }
 
 export enum SpriteSize {
@@ -14,6 +19,14 @@ export enum SpriteSize {
   S64 = '64x64'
 }
 
+export enum ModelTier {
+  STANDARD = 'STANDARD',
+  PRO = 'PRO'
+}
+
+/** Facing of a character view; the diagonals are for isometric games. */
+export type Direction = 'down' | 'left' | 'right' | 'up' | 'down-left' | 'down-right' | 'up-left' | 'up-right';
+
 export enum ImageResolution {
   R1K = '1K',
   R2K = '2K',
@@ -44,12 +57,59 @@ export interface GeneratedAsset {
   id: string;
   url: string;
   prompt: string;
-  type: 'sprite' | 'animation' | 'background';
+  type: 'sprite' | 'animation' | 'background' | 'tile';
   timestamp: number;
+  mode: AppMode;
+  style?: string;
+  size?: string;
+  parentId?: string; // Asset this one was derived from (edit, animation, ...)
+  model?: string; // Model that produced the image
+  tags: string[];
+  favorite: boolean;
 }
 
+/** One named action of an animation set, e.g. "walk". */
 export interface AnimationConfig {
+  name: string; // Tag of the action's row in the sheet
+  action: string; // What the character does, sent to the model
   frames: number;
   fps: number;
-  type: 'idle' | 'walk' | 'attack';
-}
\ No newline at end of file
+  loop: boolean;
+}
+
+export type HistoryOperation =
+  | 'generate'
+  | 'tile'
+  | 'edit'
+  | 'animate'
+  | 'background'
+  | 'chroma-key'
+  | 'style-transfer'
+  | 'palette'
+  | 'upload'
+  | 'manual'
+  | 'sheet'
+  | 'library'
+  | 'turnaround'
+  | 'seam-repair'
+  | 'autotile';
+
+export interface HistoryEntry {
+  id: string;
+  parentId: string | null;
+  imageUrl: string;
+  operation: HistoryOperation;
+  prompt?: string;
+  timestamp: number;
+}
+
+/** One candidate of a batch generation. */
+export interface Variation {
+  id: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  url?: string;
+  error?: string;
+  operation: HistoryOperation;
+  prompt: string;
+  model: string;
+}
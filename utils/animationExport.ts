@@ -0,0 +1,46 @@
+import { PixelBuffer, createPixelBuffer, getPixelBuffer, scalePixelBuffer } from './imageData';
+import { encodeGif } from './gifEncoder';
+import { encodeApng } from './apngEncoder';
+
+export type AnimationFormat = 'gif' | 'apng';
+
+export interface AnimationExportOptions {
+  fps: number;
+  loop: boolean;
+  /** Integer upscale factor (1-8) applied with nearest-neighbour sampling. */
+  scale: number;
+}
+
+export const EXPORT_SCALES = [1, 2, 3, 4, 5, 6, 7, 8];
+
+/** Pads frames to a common size, bottom-centred so feet stay on the same line. */
+const normalizeFrameSizes = (frames: PixelBuffer[]): PixelBuffer[] => {
+  const width = Math.max(...frames.map(f => f.width));
+  const height = Math.max(...frames.map(f => f.height));
+  return frames.map(f => {
+    if (f.width === width && f.height === height) return f;
+    const padded = createPixelBuffer(width, height);
+    const offsetX = Math.floor((width - f.width) / 2);
+    const offsetY = height - f.height;
+    for (let y = 0; y < f.height; y++) {
+      padded.data.set(f.data.subarray(y * f.width * 4, (y + 1) * f.width * 4), ((offsetY + y) * width + offsetX) * 4);
+    }
+    return padded;
+  });
+};
+
+export const exportAnimation = async (
+  frameUrls: string[],
+  format: AnimationFormat,
+  options: AnimationExportOptions
+): Promise<Blob> => {
+  const buffers = await Promise.all(frameUrls.map(getPixelBuffer));
+  const frames = normalizeFrameSizes(buffers).map(f => scalePixelBuffer(f, options.scale));
+  const delayMs = 1000 / Math.max(1, options.fps);
+  const loopCount = options.loop ? 0 : 1;
+
+  if (format === 'gif') {
+    return new Blob([encodeGif(frames, { delayMs, loopCount })], { type: 'image/gif' });
+  }
+  return new Blob([await encodeApng(frames, { delayMs, loopCount })], { type: 'image/apng' });
+};
@@ -0,0 +1,74 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from './imageData';
+import {
+  ANIMATION_PRESETS,
+  AnimationSetEntry,
+  alignFrameToCell,
+  animationSetSheetItems,
+  commonCellSize,
+  createAnimationSetEntry,
+  matchReferenceScale,
+  uniqueActionName,
+} from './animationSet';
+
+const solid = (width: number, height: number, value: number) => {
+  const buffer = createPixelBuffer(width, height);
+  buffer.data.fill(value);
+  return buffer;
+};
+
+describe('uniqueActionName', () => {
+  it('slugifies and suffixes names already in the set', () => {
+    expect(uniqueActionName('Walk Cycle', [])).toBe('walk_cycle');
+    expect(uniqueActionName('walk', ['walk', 'walk_1'])).toBe('walk_2');
+    expect(uniqueActionName('walk_1', ['walk', 'walk_1'])).toBe('walk_1_1');
+    expect(uniqueActionName('!!', [])).toBe('action');
+  });
+});
+
+describe('createAnimationSetEntry', () => {
+  it('starts pending with no frames', () => {
+    const entry = createAnimationSetEntry(ANIMATION_PRESETS[0], ['idle'], 'a');
+    expect(entry).toMatchObject({ id: 'a', name: 'idle_1', status: 'pending', sourceFrames: [], frameUrls: [] });
+  });
+});
+
+describe('matchReferenceScale', () => {
+  it('leaves frames near the reference size alone', () => {
+    const frames = [solid(40, 60, 0)];
+    expect(matchReferenceScale(frames, 32)).toBe(frames);
+  });
+
+  it('shrinks render-sized frames with one shared factor', () => {
+    const scaled = matchReferenceScale([solid(200, 256, 0), solid(100, 256, 0)], 32);
+    expect(scaled.map(f => [f.width, f.height])).toEqual([[25, 32], [13, 32]]);
+  });
+});
+
+describe('alignFrameToCell', () => {
+  it('puts the frame on the baseline or in the middle of the cell', () => {
+    const frame = solid(3, 3, 255);
+    frame.data.fill(0, 4 * 4, 4 * 4 + 3); // Black centre pixel on a white background
+    const cell = commonCellSize([frame, { width: 5, height: 5 }]);
+    expect(cell).toEqual({ width: 5, height: 5 });
+
+    const bottom = alignFrameToCell(frame, cell, 'bottom');
+    const center = alignFrameToCell(frame, cell, 'center');
+    const column = (b: typeof bottom, x: number) => Array.from({ length: 5 }, (_, y) => b.data[(y * 5 + x) * 4]);
+    expect(column(bottom, 2)).toEqual([255, 255, 255, 0, 255]);
+    expect(column(center, 2)).toEqual([255, 255, 0, 255, 255]);
+  });
+});
+
+describe('animationSetSheetItems', () => {
+  it('tags every finished frame with its action', () => {
+    const entries: AnimationSetEntry[] = [
+      { ...createAnimationSetEntry(ANIMATION_PRESETS[0], [], 'a'), status: 'done', frameUrls: ['i0', 'i1'] },
+      { ...createAnimationSetEntry(ANIMATION_PRESETS[1], [], 'b'), status: 'error', error: 'x' },
+    ];
+    expect(animationSetSheetItems(entries)).toEqual([
+      { src: 'i0', name: 'idle_0', tag: 'idle' },
+      { src: 'i1', name: 'idle_1', tag: 'idle' },
+    ]);
+  });
+});
@@ -0,0 +1,91 @@
+import { AnimationConfig } from '../types';
+import { PixelBuffer, createPixelBuffer, resamplePixelBuffer } from './imageData';
+import { SheetItem, Size } from './spriteSheet';
+import { slugify, uniqueName } from './naming';
+import { FrameAnchor, frameBackground } from './frameAlign';
+
+// Animation sets: several named actions generated from one reference sprite and
+// packed into a single sheet, one row per action.
+
+export const ANIMATION_PRESETS: AnimationConfig[] = [
+  { name: 'idle', action: 'Idle breathing', frames: 4, fps: 6, loop: true },
+  { name: 'walk', action: 'Walk Cycle', frames: 6, fps: 10, loop: true },
+  { name: 'run', action: 'Run Cycle', frames: 6, fps: 12, loop: true },
+  { name: 'attack', action: 'Melee attack', frames: 4, fps: 12, loop: false },
+  { name: 'jump', action: 'Jump', frames: 4, fps: 8, loop: false },
+  { name: 'hurt', action: 'Take a hit and flinch', frames: 3, fps: 8, loop: false },
+  { name: 'die', action: 'Die and fall down', frames: 5, fps: 8, loop: false },
+];
+
+export const DEFAULT_ANIMATION_SET = ['idle', 'walk', 'attack'];
+
+// Frames more than this many times taller than the reference are still at render size
+const MAX_REFERENCE_GROWTH = 2;
+
+export interface AnimationSetEntry extends AnimationConfig {
+  id: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  sourceFrames: string[]; // Frames as sliced from the strip
+  frameUrls: string[]; // Same frames on the set's common cell
+  error?: string;
+}
+
+/** Sheet tags must be unique per row, so repeated names get a numeric suffix. */
+export const uniqueActionName = (name: string, taken: string[]): string =>
+  uniqueName(slugify(name) || 'action', new Set(taken));
+
+export const createAnimationSetEntry = (config: AnimationConfig, taken: string[], id: string): AnimationSetEntry => ({
+  ...config,
+  id,
+  name: uniqueActionName(config.name, taken),
+  status: 'pending',
+  sourceFrames: [],
+  frameUrls: [],
+});
+
+/**
+ * Brings an action's frames down to the reference's scale when its strip had no
+ * detectable pixel grid. All frames share one factor so the motion is preserved.
+ */
+export const matchReferenceScale = (frames: PixelBuffer[], referenceHeight: number): PixelBuffer[] => {
+  const height = Math.max(0, ...frames.map(f => f.height));
+  if (height <= referenceHeight * MAX_REFERENCE_GROWTH) return frames;
+  const factor = referenceHeight / height;
+  return frames.map(f => resamplePixelBuffer(f, Math.max(1, Math.round(f.width * factor)), Math.max(1, Math.round(f.height * factor))));
+};
+
+/** Smallest cell every frame of the set fits in. */
+export const commonCellSize = (sizes: Size[]): Size => ({
+  width: Math.max(1, ...sizes.map(s => s.width)),
+  height: Math.max(1, ...sizes.map(s => s.height)),
+});
+
+/**
+ * Places a frame on a `cell` sized canvas filled with the frame's background,
+ * horizontally centred and either bottom-aligned or centred.
+ */
+export const alignFrameToCell = (frame: PixelBuffer, cell: Size, anchor: FrameAnchor): PixelBuffer => {
+  if (frame.width === cell.width && frame.height === cell.height) return frame;
+  const result = createPixelBuffer(cell.width, cell.height);
+  const background = frameBackground(frame);
+  for (let i = 0; i < result.data.length; i += 4) result.data.set(background, i);
+
+  const width = Math.min(frame.width, cell.width);
+  const height = Math.min(frame.height, cell.height);
+  const offsetX = Math.floor((cell.width - width) / 2);
+  const offsetY = anchor === 'bottom' ? cell.height - height : Math.floor((cell.height - height) / 2);
+  // Frames larger than the cell are cropped around the same anchor
+  const sourceX = Math.floor((frame.width - width) / 2);
+  const sourceY = anchor === 'bottom' ? frame.height - height : Math.floor((frame.height - height) / 2);
+  for (let row = 0; row < height; row++) {
+    const src = ((sourceY + row) * frame.width + sourceX) * 4;
+    result.data.set(frame.data.subarray(src, src + width * 4), ((offsetY + row) * cell.width + offsetX) * 4);
+  }
+  return result;
+};
+
+/** Finished actions as sheet items in set order, tagged with the action name. */
+export const animationSetSheetItems = (entries: AnimationSetEntry[]): SheetItem[] =>
+  entries
+    .filter(entry => entry.status === 'done' && entry.frameUrls.length > 0)
+    .flatMap(entry => entry.frameUrls.map((src, i) => ({ src, name: `${entry.name}_${i}`, tag: entry.name })));
@@ -0,0 +1,92 @@
+import { PixelBuffer } from './imageData';
+import { crc32 } from './crc32';
+
+// Animated PNG encoder: full-size RGBA frames, each replacing the previous one.
+
+export interface ApngOptions {
+  delayMs: number;
+  /** 0 = loop forever, n = play n times. */
+  loopCount: number;
+}
+
+const PNG_SIGNATURE = [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a];
+
+const uint32 = (value: number) => [(value >>> 24) & 0xff, (value >>> 16) & 0xff, (value >>> 8) & 0xff, value & 0xff];
+const uint16 = (value: number) => [(value >>> 8) & 0xff, value & 0xff];
+
+const chunk = (type: string, data: ArrayLike<number>): Uint8Array => {
+  const bytes = new Uint8Array(12 + data.length);
+  bytes.set(uint32(data.length), 0);
+  for (let i = 0; i < 4; i++) bytes[4 + i] = type.charCodeAt(i);
+  bytes.set(data, 8);
+  bytes.set(uint32(crc32(bytes, 4, 8 + data.length)), 8 + data.length);
+  return bytes;
+};
+
+const concat = (parts: Uint8Array[]): Uint8Array => {
+  const total = parts.reduce((sum, p) => sum + p.length, 0);
+  const result = new Uint8Array(total);
+  let offset = 0;
+  for (const p of parts) {
+    result.set(p, offset);
+    offset += p.length;
+  }
+  return result;
+};
+
+/** zlib-wrapped deflate via the platform CompressionStream. */
+const zlibCompress = async (data: Uint8Array): Promise<Uint8Array> => {
+  const stream = new Blob([data]).stream().pipeThrough(new CompressionStream('deflate'));
+  return new Uint8Array(await new Response(stream).arrayBuffer());
+};
+
+/** Scanlines with filter type 0 (None) in front of every row. */
+const toScanlines = (frame: PixelBuffer): Uint8Array => {
+  const stride = frame.width * 4;
+  const raw = new Uint8Array((stride + 1) * frame.height);
+  for (let y = 0; y < frame.height; y++) {
+    raw.set(frame.data.subarray(y * stride, (y + 1) * stride), y * (stride + 1) + 1);
+  }
+  return raw;
+};
+
+/** Encodes equally sized RGBA frames as an APNG. */
+export const encodeApng = async (frames: PixelBuffer[], options: ApngOptions): Promise<Uint8Array> => {
+  if (frames.length === 0) throw new Error("No frames to encode");
+  const { width, height } = frames[0];
+  const delay = Math.min(0xffff, Math.max(1, Math.round(options.delayMs)));
+
+  const parts: Uint8Array[] = [new Uint8Array(PNG_SIGNATURE)];
+  // 8-bit RGBA, deflate, adaptive filtering, no interlace
+  parts.push(chunk('IHDR', [...uint32(width), ...uint32(height), 8, 6, 0, 0, 0]));
+  parts.push(chunk('acTL', [...uint32(frames.length), ...uint32(options.loopCount)]));
+
+  // fcTL and fdAT share one sequence counter
+  let sequence = 0;
+  for (let i = 0; i < frames.length; i++) {
+    parts.push(chunk('fcTL', [
+      ...uint32(sequence++),
+      ...uint32(width),
+      ...uint32(height),
+      ...uint32(0), // x offset
+      ...uint32(0), // y offset
+      ...uint16(delay),
+      ...uint16(1000), // delay is in milliseconds
+      0, // dispose_op: none
+      0, // blend_op: source, so transparent pixels replace rather than composite
+    ]));
+
+    const compressed = await zlibCompress(toScanlines(frames[i]));
+    if (i === 0) {
+      parts.push(chunk('IDAT', compressed));
+    } else {
+      const data = new Uint8Array(4 + compressed.length);
+      data.set(uint32(sequence++), 0);
+      data.set(compressed, 4);
+      parts.push(chunk('fdAT', data));
+    }
+  }
+
+  parts.push(chunk('IEND', []));
+  return concat(parts);
+};
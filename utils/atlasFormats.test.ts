@@ -0,0 +1,29 @@
+import { describe, expect, it } from 'vitest';
+import { serializeAtlas } from './atlasFormats';
+import { AssembledSheet } from './spriteSheet';
+
+const frame = (name: string, x: number) => ({
+  name,
+  frame: { x, y: 0, width: 16, height: 16 },
+  sourceSize: { width: 16, height: 16 },
+  spriteSourceSize: { x: 0, y: 0, width: 16, height: 16 },
+  trimmed: false,
+  pivot: { x: 0.5, y: 1 },
+});
+
+const sheet: AssembledSheet = {
+  imageUrl: '',
+  width: 32,
+  height: 16,
+  frames: [frame('walk_0', 0), frame('walk_1', 16)],
+  tags: [{ name: 'walk', from: 0, to: 1 }],
+};
+
+describe('serializeAtlas', () => {
+  it('repeats Phaser animations only when they loop', () => {
+    const phaser = (loop: boolean) => JSON.parse(serializeAtlas(sheet, 'phaser3', { imageName: 'sheet.png', fps: 8, loop }));
+    expect(phaser(true).anims[0]).toMatchObject({ key: 'walk', frameRate: 8, repeat: -1 });
+    expect(phaser(false).anims[0]).toMatchObject({ key: 'walk', repeat: 0 });
+    expect(phaser(false).anims[0].frames).toEqual([{ key: 'sheet', frame: 'walk_0' }, { key: 'sheet', frame: 'walk_1' }]);
+  });
+});
@@ -0,0 +1,134 @@
+import { AssembledSheet, AtlasFrame, Rect, Size } from './spriteSheet';
+
+// Serialises an assembled sheet into the data files common engines import.
+
+export type AtlasFormat = 'texturepacker-hash' | 'texturepacker-array' | 'aseprite' | 'phaser3';
+
+export const ATLAS_FORMATS: { id: AtlasFormat; label: string }[] = [
+  { id: 'texturepacker-hash', label: 'TexturePacker JSON (Hash)' },
+  { id: 'texturepacker-array', label: 'TexturePacker JSON (Array)' },
+  { id: 'aseprite', label: 'Aseprite JSON' },
+  { id: 'phaser3', label: 'Phaser 3 Atlas' },
+];
+
+export interface AtlasExportOptions {
+  imageName: string; // File name of the sheet image inside the bundle
+  fps: number; // Playback rate for tagged animations
+  loop: boolean; // Whether tagged animations repeat or play once
+}
+
+const APP = 'AI Pixel Dreamer';
+const VERSION = '1.0';
+
+const rect = (r: Rect) => ({ x: r.x, y: r.y, w: r.width, h: r.height });
+const size = (s: Size) => ({ w: s.width, h: s.height });
+
+const texturePackerFrame = (f: AtlasFrame) => ({
+  frame: rect(f.frame),
+  rotated: false,
+  trimmed: f.trimmed,
+  spriteSourceSize: rect(f.spriteSourceSize),
+  sourceSize: size(f.sourceSize),
+  pivot: f.pivot,
+});
+
+const meta = (sheet: AssembledSheet, options: AtlasExportOptions) => ({
+  app: APP,
+  version: VERSION,
+  image: options.imageName,
+  format: 'RGBA8888',
+  size: { w: sheet.width, h: sheet.height },
+  scale: '1',
+});
+
+// TexturePacker lists animations as frame name sequences at the top level.
+const animationNames = (sheet: AssembledSheet) =>
+  Object.fromEntries(sheet.tags.map(t => [t.name, sheet.frames.slice(t.from, t.to + 1).map(f => f.name)]));
+
+const toTexturePackerHash = (sheet: AssembledSheet, options: AtlasExportOptions) => ({
+  frames: Object.fromEntries(sheet.frames.map(f => [f.name, texturePackerFrame(f)])),
+  animations: animationNames(sheet),
+  meta: meta(sheet, options),
+});
+
+const toTexturePackerArray = (sheet: AssembledSheet, options: AtlasExportOptions) => ({
+  frames: sheet.frames.map(f => ({ filename: f.name, ...texturePackerFrame(f) })),
+  animations: animationNames(sheet),
+  meta: meta(sheet, options),
+});
+
+const toAseprite = (sheet: AssembledSheet, options: AtlasExportOptions) => {
+  const duration = Math.round(1000 / Math.max(1, options.fps));
+  return {
+    frames: sheet.frames.map(f => ({
+      filename: f.name,
+      frame: rect(f.frame),
+      rotated: false,
+      trimmed: f.trimmed,
+      spriteSourceSize: rect(f.spriteSourceSize),
+      sourceSize: size(f.sourceSize),
+      duration,
+    })),
+    meta: {
+      ...meta(sheet, options),
+      frameTags: sheet.tags.map(t => ({ name: t.name, from: t.from, to: t.to, direction: 'forward' })),
+      layers: [{ name: 'Layer', opacity: 255, blendMode: 'normal' }],
+      // Aseprite stores pivots on slices, in pixels relative to the slice bounds
+      slices: [{
+        name: 'pivot',
+        color: '#0000ffff',
+        keys: sheet.frames.map((f, i) => ({
+          frame: i,
+          bounds: { x: 0, y: 0, w: f.sourceSize.width, h: f.sourceSize.height },
+          pivot: {
+            x: Math.round(f.pivot.x * f.sourceSize.width),
+            y: Math.round(f.pivot.y * f.sourceSize.height),
+          },
+        })),
+      }],
+    },
+  };
+};
+
+const toPhaser3 = (sheet: AssembledSheet, options: AtlasExportOptions) => {
+  const textureKey = options.imageName.replace(/\.[^.]+$/, '');
+  return {
+    textures: [{
+      image: options.imageName,
+      format: 'RGBA8888',
+      size: size(sheet),
+      scale: 1,
+      frames: sheet.frames.map(f => ({
+        filename: f.name,
+        rotated: false,
+        trimmed: f.trimmed,
+        sourceSize: size(f.sourceSize),
+        spriteSourceSize: rect(f.spriteSourceSize),
+        frame: rect(f.frame),
+        anchor: f.pivot,
+      })),
+    }],
+    // Same file can be passed to this.anims.fromJSON()
+    anims: sheet.tags.map(t => ({
+      key: t.name,
+      type: 'frame',
+      frames: sheet.frames.slice(t.from, t.to + 1).map(f => ({ key: textureKey, frame: f.name })),
+      frameRate: options.fps,
+      repeat: options.loop ? -1 : 0,
+    })),
+    meta: { app: APP, version: VERSION },
+  };
+};
+
+export const serializeAtlas = (sheet: AssembledSheet, format: AtlasFormat, options: AtlasExportOptions): string => {
+  switch (format) {
+    case 'texturepacker-hash':
+      return JSON.stringify(toTexturePackerHash(sheet, options), null, 2);
+    case 'texturepacker-array':
+      return JSON.stringify(toTexturePackerArray(sheet, options), null, 2);
+    case 'aseprite':
+      return JSON.stringify(toAseprite(sheet, options), null, 2);
+    case 'phaser3':
+      return JSON.stringify(toPhaser3(sheet, options), null, 2);
+  }
+};
@@ -0,0 +1,100 @@
+import { describe, expect, it } from 'vitest';
+import { PixelBuffer, createPixelBuffer } from './imageData';
+import {
+  AutotileSource,
+  BLOB_MASKS,
+  E,
+  N,
+  NE,
+  S,
+  TILE_POSITIONS,
+  TilePosition,
+  W,
+  WANG_MASKS,
+  buildAutotileSet,
+  canonicalMask,
+  composeAutotile,
+  sliceAutotileGrid,
+} from './autotile';
+
+const fill = (buffer: PixelBuffer, x: number, y: number, w: number, h: number, value: number) => {
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) buffer.data.set([value, value, value, 255], (row * buffer.width + col) * 4);
+  }
+};
+
+// Every source tile is a flat grey whose level is its index in TILE_POSITIONS
+const flatSource = (size: number): AutotileSource =>
+  Object.fromEntries(TILE_POSITIONS.map((position, i) => {
+    const tile = createPixelBuffer(size, size);
+    fill(tile, 0, 0, size, size, i * 10);
+    return [position, tile];
+  })) as AutotileSource;
+
+const level = (tile: PixelBuffer, x: number, y: number) => tile.data[(y * tile.width + x) * 4] / 10;
+const index = (position: TilePosition) => TILE_POSITIONS.indexOf(position);
+
+describe('sliceAutotileGrid', () => {
+  it('uses the gaps between tiles', () => {
+    const image = createPixelBuffer(13, 13);
+    fill(image, 0, 0, 13, 13, 255);
+    TILE_POSITIONS.forEach((_, i) => fill(image, 1 + (i % 3) * 4, 1 + Math.floor(i / 3) * 4, 3, 3, i * 10));
+    const { tiles, tileSize, detected } = sliceAutotileGrid(image);
+    expect(detected).toBe(true);
+    expect(tileSize).toBe(3);
+    expect(TILE_POSITIONS.map(p => level(tiles[p], 1, 1))).toEqual([0, 1, 2, 3, 4, 5, 6, 7, 8]);
+  });
+
+  it('splits evenly when the tiles touch', () => {
+    const image = createPixelBuffer(9, 9);
+    TILE_POSITIONS.forEach((_, i) => fill(image, (i % 3) * 3, Math.floor(i / 3) * 3, 3, 3, 100 + i * 10));
+    const { tiles, detected } = sliceAutotileGrid(image);
+    expect(detected).toBe(false);
+    expect(level(tiles.center, 0, 0)).toBe(14);
+  });
+});
+
+describe('masks', () => {
+  it('has 47 blob tiles and 16 Wang tiles', () => {
+    expect(BLOB_MASKS).toHaveLength(47);
+    expect(new Set(WANG_MASKS).size).toBe(16);
+    expect(WANG_MASKS.every(m => BLOB_MASKS.includes(m))).toBe(true);
+  });
+
+  it('ignores diagonals next to an open side', () => {
+    expect(canonicalMask(N | NE)).toBe(N);
+    expect(canonicalMask(N | E | NE)).toBe(N | E | NE);
+  });
+});
+
+describe('composeAutotile', () => {
+  const source = flatSource(4);
+
+  it('builds an isolated tile from the four outer corners', () => {
+    const tile = composeAutotile(source, 0);
+    expect([level(tile, 0, 0), level(tile, 3, 0), level(tile, 0, 3), level(tile, 3, 3)])
+      .toEqual(['top-left', 'top-right', 'bottom-left', 'bottom-right'].map(index));
+  });
+
+  it('uses edges and fill where neighbours continue', () => {
+    const tile = composeAutotile(source, canonicalMask(0xff & ~N)); // Open to the north only
+    expect(level(tile, 0, 0)).toBe(index('top'));
+    expect(level(tile, 3, 3)).toBe(index('center'));
+  });
+
+  it('mitres inner corners from the two edge tiles', () => {
+    const tile = composeAutotile(source, N | E | S | W); // No diagonals: four inner corners
+    expect(level(tile, 3, 0)).toBe(index('top')); // Right in the corner
+    expect(level(tile, 3, 1)).toBe(index('top')); // Along the right side
+    expect(level(tile, 2, 0)).toBe(index('right')); // Along the top
+    expect(composeAutotile(source, N | E | NE).data).not.toEqual(tile.data);
+  });
+});
+
+describe('buildAutotileSet', () => {
+  it('lays the blob set out in rows of eight', () => {
+    const set = buildAutotileSet(flatSource(2), 'blob47');
+    expect([set.image.width, set.image.height, set.columns]).toEqual([16, 12, 8]);
+    expect(set.masks).toBe(BLOB_MASKS);
+  });
+});
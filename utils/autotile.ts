@@ -0,0 +1,204 @@
+import { PixelBuffer, createPixelBuffer, resamplePixelBuffer } from './imageData';
+import { LINE_NOISE, frameBackground } from './frameAlign';
+import { isBackground } from './pixelGrid';
+import { Span, findRuns, mergeRuns } from './frameSlicer';
+
+// The 'autotile' generator returns one image with a 3x3 grid of terrain tiles: outer
+// corners, edges and the fill. Engines want full autotile sets instead, so the grid is
+// sliced and every tile of a set is put together from quarter tiles ("minitiles").
+
+export type TilePosition =
+  | 'top-left' | 'top' | 'top-right'
+  | 'left' | 'center' | 'right'
+  | 'bottom-left' | 'bottom' | 'bottom-right';
+
+/** Row-major order of the 3x3 source grid. */
+export const TILE_POSITIONS: TilePosition[] = [
+  'top-left', 'top', 'top-right',
+  'left', 'center', 'right',
+  'bottom-left', 'bottom', 'bottom-right',
+];
+
+export type AutotileSource = Record<TilePosition, PixelBuffer>;
+
+export interface AutotileSlice {
+  tiles: AutotileSource;
+  tileSize: number;
+  detected: boolean; // False when no gaps were found and the grid was split evenly
+}
+
+export type AutotileLayout = 'wang16' | 'blob47';
+
+export interface AutotileSet {
+  layout: AutotileLayout;
+  image: PixelBuffer;
+  masks: number[]; // Neighbour mask of each tile, in image order
+  columns: number;
+  tileSize: number;
+}
+
+// Neighbour bits, clockwise from north. A set bit means the neighbour is the same terrain.
+export const N = 1, NE = 2, E = 4, SE = 8, S = 16, SW = 32, W = 64, NW = 128;
+
+/** Content runs along one axis of a projection, merged or split into exactly `count` spans. */
+const findSpans = (profile: number[], count: number): { spans: Span[]; detected: boolean } => {
+  const runs = findRuns(profile, LINE_NOISE);
+  // Tiles whose art has holes come out as several runs; close the narrowest gaps first
+  if (runs.length >= count) return { spans: mergeRuns(runs, count), detected: true };
+
+  // Tiles drawn edge to edge: split the content evenly
+  const start = runs.length > 0 ? runs[0].start : 0;
+  const end = runs.length > 0 ? runs[runs.length - 1].end : profile.length;
+  const size = (end - start) / count;
+  return {
+    spans: Array.from({ length: count }, (_, i) => ({ start: Math.round(start + i * size), end: Math.round(start + (i + 1) * size) })),
+    detected: false,
+  };
+};
+
+/**
+ * Finds the nine tiles of a 3x3 grid, using the background gaps between them when the
+ * model left any, and resamples them to one square size (the median span).
+ */
+export const sliceAutotileGrid = (image: PixelBuffer): AutotileSlice => {
+  const { width, height, data } = image;
+  const bg = frameBackground(image);
+  const colCounts = new Array(width).fill(0);
+  const rowCounts = new Array(height).fill(0);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBackground(data, (y * width + x) * 4, bg)) continue;
+      colCounts[x]++;
+      rowCounts[y]++;
+    }
+  }
+
+  const cols = findSpans(colCounts, 3);
+  const rows = findSpans(rowCounts, 3);
+  const lengths = [...cols.spans, ...rows.spans].map(s => s.end - s.start).sort((a, b) => a - b);
+  const tileSize = Math.max(1, lengths[Math.floor(lengths.length / 2)]);
+
+  const tiles = {} as AutotileSource;
+  TILE_POSITIONS.forEach((position, i) => {
+    const col = cols.spans[i % 3];
+    const row = rows.spans[Math.floor(i / 3)];
+    const tile = createPixelBuffer(Math.max(1, col.end - col.start), Math.max(1, row.end - row.start));
+    for (let y = 0; y < tile.height; y++) {
+      const src = ((row.start + y) * width + col.start) * 4;
+      tile.data.set(data.subarray(src, src + tile.width * 4), y * tile.width * 4);
+    }
+    tiles[position] = resamplePixelBuffer(tile, tileSize, tileSize);
+  });
+
+  return { tiles, tileSize, detected: cols.detected && rows.detected };
+};
+
+/** Drops diagonal bits whose two neighbouring sides are not both set; they cannot change the tile. */
+export const canonicalMask = (mask: number) => {
+  let result = mask & (N | E | S | W);
+  if ((mask & NE) && (mask & N) && (mask & E)) result |= NE;
+  if ((mask & SE) && (mask & S) && (mask & E)) result |= SE;
+  if ((mask & SW) && (mask & S) && (mask & W)) result |= SW;
+  if ((mask & NW) && (mask & N) && (mask & W)) result |= NW;
+  return result;
+};
+
+/** The 47 distinct blob tiles, by ascending mask. */
+export const BLOB_MASKS: number[] = [...new Set(Array.from({ length: 256 }, (_, m) => canonicalMask(m)))].sort((a, b) => a - b);
+
+/**
+ * The 16 edge Wang tiles, indexed by N=1, E=2, S=4, W=8. Diagonals are filled in wherever
+ * both sides are set, so these are the blob tiles without inner corners.
+ */
+export const WANG_MASKS: number[] = Array.from({ length: 16 }, (_, index) =>
+  canonicalMask((index & 1 ? N : 0) | (index & 2 ? E : 0) | (index & 4 ? S : 0) | (index & 8 ? W : 0) | NE | SE | SW | NW)
+);
+
+type Quadrant = 'NW' | 'NE' | 'SW' | 'SE';
+
+// Which neighbours decide each quadrant, and the source tiles it can come from
+const QUADRANTS: Record<Quadrant, {
+  vertical: number; horizontal: number; diagonal: number;
+  corner: TilePosition; verticalEdge: TilePosition; horizontalEdge: TilePosition;
+  right: boolean; bottom: boolean;
+}> = {
+  NW: { vertical: N, horizontal: W, diagonal: NW, corner: 'top-left', verticalEdge: 'top', horizontalEdge: 'left', right: false, bottom: false },
+  NE: { vertical: N, horizontal: E, diagonal: NE, corner: 'top-right', verticalEdge: 'top', horizontalEdge: 'right', right: true, bottom: false },
+  SW: { vertical: S, horizontal: W, diagonal: SW, corner: 'bottom-left', verticalEdge: 'bottom', horizontalEdge: 'left', right: false, bottom: true },
+  SE: { vertical: S, horizontal: E, diagonal: SE, corner: 'bottom-right', verticalEdge: 'bottom', horizontalEdge: 'right', right: true, bottom: true },
+};
+
+/**
+ * Builds the tile for one neighbour mask. Each quadrant is copied from the source tile
+ * with the same situation in that corner: outer corner, top/bottom edge, left/right
+ * edge or fill. The 3x3 grid has no inner corners, so those are mitred together from
+ * the two edge tiles: pixels closer to the open side come from the edge tile that has
+ * its border there, the rest from the other one.
+ */
+export const composeAutotile = (source: AutotileSource, mask: number): PixelBuffer => {
+  const size = source.center.width;
+  const half = Math.floor(size / 2);
+  const result = createPixelBuffer(size, size);
+
+  (Object.keys(QUADRANTS) as Quadrant[]).forEach(quadrant => {
+    const q = QUADRANTS[quadrant];
+    const hasVertical = (mask & q.vertical) !== 0;
+    const hasHorizontal = (mask & q.horizontal) !== 0;
+    const x0 = q.right ? half : 0, x1 = q.right ? size : half;
+    const y0 = q.bottom ? half : 0, y1 = q.bottom ? size : half;
+
+    for (let y = y0; y < y1; y++) {
+      for (let x = x0; x < x1; x++) {
+        let tile: TilePosition;
+        if (!hasVertical && !hasHorizontal) tile = q.corner;
+        else if (!hasVertical) tile = q.verticalEdge; // Open above/below: border runs along the top/bottom
+        else if (!hasHorizontal) tile = q.horizontalEdge;
+        else if (mask & q.diagonal) tile = 'center';
+        else {
+          const toSide = q.right ? size - 1 - x : x;
+          const toTopOrBottom = q.bottom ? size - 1 - y : y;
+          tile = toSide <= toTopOrBottom ? q.verticalEdge : q.horizontalEdge;
+        }
+        const i = (y * size + x) * 4;
+        result.data.set(source[tile].data.subarray(i, i + 4), i);
+      }
+    }
+  });
+
+  return result;
+};
+
+/** Lays the tiles of a layout out in a grid, 4 columns for Wang and 8 for blob. */
+export const buildAutotileSet = (source: AutotileSource, layout: AutotileLayout): AutotileSet => {
+  const masks = layout === 'wang16' ? WANG_MASKS : BLOB_MASKS;
+  const columns = layout === 'wang16' ? 4 : 8;
+  const tileSize = source.center.width;
+  const rows = Math.ceil(masks.length / columns);
+  const image = createPixelBuffer(columns * tileSize, rows * tileSize);
+
+  masks.forEach((mask, index) => {
+    const tile = composeAutotile(source, mask);
+    const left = (index % columns) * tileSize;
+    const top = Math.floor(index / columns) * tileSize;
+    for (let y = 0; y < tileSize; y++) {
+      image.data.set(tile.data.subarray(y * tileSize * 4, (y + 1) * tileSize * 4), ((top + y) * image.width + left) * 4);
+    }
+  });
+
+  return { layout, image, masks, columns, tileSize };
+};
+
+// Offsets of each neighbour bit, clockwise from north
+const NEIGHBOURS: [number, number, number][] = [
+  [N, 0, -1], [NE, 1, -1], [E, 1, 0], [SE, 1, 1], [S, 0, 1], [SW, -1, 1], [W, -1, 0], [NW, -1, -1],
+];
+
+/** Neighbour mask of a cell on a terrain grid; `isTerrain` must answer false outside the grid. */
+export const neighbourMask = (isTerrain: (x: number, y: number) => boolean, x: number, y: number) =>
+  NEIGHBOURS.reduce((mask, [bit, dx, dy]) => (isTerrain(x + dx, y + dy) ? mask | bit : mask), 0);
+
+/** Index in a set's image of the tile to draw for a neighbour mask. Wang sets only look at the sides. */
+export const autotileIndex = (layout: AutotileLayout, mask: number) =>
+  layout === 'wang16'
+    ? (mask & N ? 1 : 0) | (mask & E ? 2 : 0) | (mask & S ? 4 : 0) | (mask & W ? 8 : 0)
+    : BLOB_MASKS.indexOf(canonicalMask(mask));
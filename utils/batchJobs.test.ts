@@ -0,0 +1,110 @@
+import { describe, expect, it } from 'vitest';
+import { ArtStyle, SpriteSize } from '../types';
+import {
+  BatchJob,
+  MAX_BATCH_ATTEMPTS,
+  createBatchJobs,
+  failBatchJob,
+  nextBatchJob,
+  parseBatchInput,
+  parseCsv,
+  restoreBatchJobs,
+  retryFailedBatchJobs,
+} from './batchJobs';
+
+let counter = 0;
+const createId = () => `job-${counter++}`;
+
+describe('parseCsv', () => {
+  it('handles quoted fields with commas, escaped quotes and CRLF', () => {
+    expect(parseCsv('a,"b, c"\r\n"say ""hi""",d\n')).toEqual([
+      ['a', 'b, c'],
+      ['say "hi"', 'd'],
+    ]);
+  });
+
+  it('drops blank lines', () => {
+    expect(parseCsv('a\n\n  \nb')).toEqual([['a'], ['b']]);
+  });
+});
+
+describe('parseBatchInput', () => {
+  it('reads headerless CSV as prompt, style, size', () => {
+    expect(parseBatchInput('iron sword\nhealth potion,pico-8 palette,16')).toEqual([
+      { prompt: 'iron sword', name: undefined, style: undefined, size: undefined },
+      { prompt: 'health potion', name: undefined, style: ArtStyle.PICO8, size: SpriteSize.S16 },
+    ]);
+  });
+
+  it('uses header columns in any order', () => {
+    const [row] = parseBatchInput('size,name,prompt\n64x64,shield_big,"tower shield, oak"');
+    expect(row).toMatchObject({ prompt: 'tower shield, oak', name: 'shield_big', size: SpriteSize.S64 });
+  });
+
+  it('keeps unknown styles as custom descriptions', () => {
+    const [row] = parseBatchInput('ruby ring,watercolour pixel art');
+    expect(row.style).toBe('watercolour pixel art');
+  });
+
+  it('reads JSON arrays of strings and objects', () => {
+    const rows = parseBatchInput('["iron sword", {"prompt": "bow", "size": 32, "style": "Cute JRPG"}]');
+    expect(rows[0].prompt).toBe('iron sword');
+    expect(rows[1]).toMatchObject({ prompt: 'bow', size: SpriteSize.S32, style: ArtStyle.JRPG });
+  });
+
+  it('reports the offending row', () => {
+    expect(() => parseBatchInput('prompt,size\nsword,32\nshield,48')).toThrow('Row 3: unknown size "48"');
+    expect(() => parseBatchInput('[{"name": "x"}]')).toThrow('Row 1: missing prompt');
+  });
+
+  it('returns nothing for empty input', () => {
+    expect(parseBatchInput('  \n ')).toEqual([]);
+  });
+});
+
+describe('batch queue', () => {
+  const jobs = () => createBatchJobs(parseBatchInput('Iron Sword\niron sword\nHealth Potion!'), createId);
+
+  it('creates pending jobs with unique slug names', () => {
+    const created = jobs();
+    expect(created.map(j => j.name)).toEqual(['iron_sword', 'iron_sword_1', 'health_potion']);
+    expect(created.every(j => j.status === 'pending' && j.attempts === 0)).toBe(true);
+    expect(new Set(created.map(j => j.id)).size).toBe(3);
+  });
+
+  it('keeps names unique against suffixed rows and jobs already queued', () => {
+    const created = createBatchJobs(parseBatchInput('sword\nsword\nsword_1\nshield'), createId, ['shield']);
+    expect(created.map(j => j.name)).toEqual(['sword', 'sword_1', 'sword_1_1', 'shield_1']);
+  });
+
+  it('requeues failures until the attempts run out', () => {
+    let job: BatchJob = jobs()[0];
+    for (let i = 1; i < MAX_BATCH_ATTEMPTS; i++) {
+      job = failBatchJob(job, '503');
+      expect(job.status).toBe('pending');
+    }
+    job = failBatchJob(job, '503');
+    expect(job).toMatchObject({ status: 'error', attempts: MAX_BATCH_ATTEMPTS, error: '503' });
+
+    const [retried] = retryFailedBatchJobs([job]);
+    expect(retried).toMatchObject({ status: 'pending', attempts: 0, error: undefined });
+  });
+
+  it('ends the job at once for failures that will not go away', () => {
+    expect(failBatchJob(jobs()[0], 'blocked', false)).toMatchObject({ status: 'error', attempts: 1 });
+  });
+
+  it('runs untried jobs before retries', () => {
+    const [a, b, c] = jobs();
+    const queue = [failBatchJob(a, 'timeout'), { ...b, status: 'done' as const }, c];
+    expect(nextBatchJob(queue)?.id).toBe(c.id);
+    expect(nextBatchJob([queue[0], queue[1]])?.id).toBe(a.id);
+    expect(nextBatchJob([queue[1]])).toBeUndefined();
+  });
+
+  it('puts jobs interrupted by a reload back in the queue', () => {
+    const [a, b] = jobs();
+    const restored = restoreBatchJobs([{ ...a, status: 'running' }, { ...b, status: 'done', assetId: 'x' }]);
+    expect(restored.map(j => j.status)).toEqual(['pending', 'done']);
+  });
+});
@@ -0,0 +1,158 @@
+import { ArtStyle, SpriteSize } from '../types';
+import { slugify, uniqueName } from './naming';
+
+// Batch jobs: a list of prompts from CSV/JSON run one by one through the sprite generator.
+// The queue is plain data so it can be persisted and resumed after a reload.
+
+export const MAX_BATCH_ATTEMPTS = 3;
+
+export interface BatchJobInput {
+  prompt: string;
+  name?: string;
+  style?: string; // Overrides the panel style for this row
+  size?: SpriteSize; // Overrides the panel size for this row
+}
+
+export interface BatchJob extends BatchJobInput {
+  id: string;
+  name: string;
+  status: 'pending' | 'running' | 'done' | 'error';
+  attempts: number;
+  error?: string;
+  assetId?: string; // Library asset holding the result
+}
+
+const SIZES = Object.values(SpriteSize) as string[];
+const STYLES = Object.values(ArtStyle) as string[];
+
+/** Accepts "32", "32x32" or "32X32". */
+const parseSize = (value: string, row: number): SpriteSize | undefined => {
+  const trimmed = value.trim().toLowerCase();
+  if (!trimmed) return undefined;
+  const normalized = /^\d+$/.test(trimmed) ? `${trimmed}x${trimmed}` : trimmed;
+  if (!SIZES.includes(normalized)) throw new Error(`Row ${row}: unknown size "${value}"`);
+  return normalized as SpriteSize;
+};
+
+/** Known styles are matched case-insensitively; anything else is kept as a custom style description. */
+const parseStyle = (value: string): string | undefined => {
+  const trimmed = value.trim();
+  if (!trimmed) return undefined;
+  return STYLES.find(s => s.toLowerCase() === trimmed.toLowerCase()) ?? trimmed;
+};
+
+/** Splits CSV text into rows of fields, honouring quotes and "" escapes. */
+export const parseCsv = (text: string): string[][] => {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let field = '';
+  let quoted = false;
+
+  for (let i = 0; i < text.length; i++) {
+    const ch = text[i];
+    if (quoted) {
+      if (ch === '"' && text[i + 1] === '"') {
+        field += '"';
+        i++;
+      } else if (ch === '"') {
+        quoted = false;
+      } else {
+        field += ch;
+      }
+    } else if (ch === '"') {
+      quoted = true;
+    } else if (ch === ',') {
+      row.push(field);
+      field = '';
+    } else if (ch === '\n' || ch === '\r') {
+      if (ch === '\r' && text[i + 1] === '\n') i++;
+      row.push(field);
+      rows.push(row);
+      row = [];
+      field = '';
+    } else {
+      field += ch;
+    }
+  }
+  row.push(field);
+  rows.push(row);
+
+  return rows.filter(r => r.some(f => f.trim()));
+};
+
+const toInput = (fields: { prompt?: unknown; name?: unknown; style?: unknown; size?: unknown }, row: number): BatchJobInput => {
+  const prompt = typeof fields.prompt === 'string' ? fields.prompt.trim() : '';
+  if (!prompt) throw new Error(`Row ${row}: missing prompt`);
+  const name = typeof fields.name === 'string' ? fields.name.trim() : '';
+  return {
+    prompt,
+    name: name || undefined,
+    style: typeof fields.style === 'string' ? parseStyle(fields.style) : undefined,
+    size: typeof fields.size === 'string' || typeof fields.size === 'number' ? parseSize(String(fields.size), row) : undefined,
+  };
+};
+
+/**
+ * Parses a prompt list. JSON is an array of strings or `{prompt, name?, style?, size?}` objects.
+ * CSV may start with a header naming those columns; without one the columns are prompt, style, size.
+ * Throws with the offending row number on invalid input.
+ */
+export const parseBatchInput = (text: string): BatchJobInput[] => {
+  const trimmed = text.trim();
+  if (!trimmed) return [];
+
+  if (trimmed.startsWith('[')) {
+    const data = JSON.parse(trimmed);
+    if (!Array.isArray(data)) throw new Error('Expected a JSON array');
+    return data.map((entry, i) => toInput(typeof entry === 'string' ? { prompt: entry } : entry ?? {}, i + 1));
+  }
+
+  const rows = parseCsv(trimmed);
+  const header = rows[0].map(h => h.trim().toLowerCase());
+  const hasHeader = header.includes('prompt');
+  const columns = hasHeader ? header : ['prompt', 'style', 'size'];
+
+  return rows.slice(hasHeader ? 1 : 0).map((fields, i) => {
+    const record: Record<string, string> = {};
+    columns.forEach((column, c) => {
+      if (fields[c] !== undefined) record[column] = fields[c];
+    });
+    return toInput(record, i + (hasHeader ? 2 : 1));
+  });
+};
+
+/** Turns parsed rows into queued jobs with file names unique among them and the names already taken. */
+export const createBatchJobs = (inputs: BatchJobInput[], createId: () => string, taken: string[] = []): BatchJob[] => {
+  const names = new Set(taken);
+  return inputs.map(input => ({
+    ...input,
+    id: createId(),
+    name: uniqueName(slugify(input.name || input.prompt) || 'sprite', names),
+    status: 'pending',
+    attempts: 0,
+  }));
+};
+
+/** Jobs interrupted by a reload were never finished, so they go back to the queue. */
+export const restoreBatchJobs = (jobs: BatchJob[]): BatchJob[] =>
+  jobs.map(job => (job.status === 'running' ? { ...job, status: 'pending' } : job));
+
+/**
+ * Records a failed attempt; the job is requeued until it runs out of attempts.
+ * Failures that would fail again the same way (`retryable` false) end the job right away.
+ */
+export const failBatchJob = (job: BatchJob, error: string, retryable = true): BatchJob => {
+  const attempts = job.attempts + 1;
+  return { ...job, attempts, error, status: retryable && attempts < MAX_BATCH_ATTEMPTS ? 'pending' : 'error' };
+};
+
+/** Gives exhausted jobs a fresh set of attempts. */
+export const retryFailedBatchJobs = (jobs: BatchJob[]): BatchJob[] =>
+  jobs.map(job => (job.status === 'error' ? { ...job, status: 'pending', attempts: 0, error: undefined } : job));
+
+/** Next job to run; requeued failures wait behind jobs that have not been tried yet. */
+export const nextBatchJob = (jobs: BatchJob[]): BatchJob | undefined =>
+  jobs.reduce<BatchJob | undefined>(
+    (best, job) => (job.status === 'pending' && (!best || job.attempts < best.attempts) ? job : best),
+    undefined
+  );
@@ -0,0 +1,77 @@
+import { describe, expect, it } from 'vitest';
+import { PackSize, SheetOverflowError, packMaxRects, packRects } from './binPacking';
+
+const overlaps = (sizes: PackSize[], positions: { x: number; y: number }[], padding: number) => {
+  for (let i = 0; i < sizes.length; i++) {
+    for (let j = i + 1; j < sizes.length; j++) {
+      const a = positions[i];
+      const b = positions[j];
+      if (
+        a.x < b.x + sizes[j].width + padding && b.x < a.x + sizes[i].width + padding &&
+        a.y < b.y + sizes[j].height + padding && b.y < a.y + sizes[i].height + padding
+      ) return true;
+    }
+  }
+  return false;
+};
+
+// Mixed icon/character/boss sizes, deterministic
+const MIXED: PackSize[] = Array.from({ length: 30 }, (_, i) => ({
+  width: [16, 32, 24, 64, 8][i % 5],
+  height: [16, 48, 24, 64, 12][(i * 3) % 5],
+}));
+
+describe('packMaxRects', () => {
+  it('fills a bin exactly with equal squares', () => {
+    const sizes = Array.from({ length: 4 }, () => ({ width: 16, height: 16 }));
+    const positions = packMaxRects(sizes, 32, 32);
+    expect(positions).not.toBeNull();
+    expect(overlaps(sizes, positions!, 0)).toBe(false);
+  });
+
+  it('returns null when the rects do not fit', () => {
+    expect(packMaxRects([{ width: 20, height: 20 }, { width: 20, height: 20 }], 32, 32)).toBeNull();
+  });
+});
+
+describe('packRects', () => {
+  it('places every rect inside the sheet without overlaps', () => {
+    const result = packRects(MIXED, { maxSize: 1024, powerOfTwo: false, padding: 0 });
+
+    expect(overlaps(MIXED, result.positions, 0)).toBe(false);
+    result.positions.forEach((p, i) => {
+      expect(p.x + MIXED[i].width).toBeLessThanOrEqual(result.width);
+      expect(p.y + MIXED[i].height).toBeLessThanOrEqual(result.height);
+    });
+  });
+
+  it('wastes less space than a uniform grid', () => {
+    const result = packRects(MIXED, { maxSize: 1024, powerOfTwo: false, padding: 0 });
+    const used = MIXED.reduce((sum, s) => sum + s.width * s.height, 0);
+    const gridArea = MIXED.length * 64 * 64;
+
+    expect(result.width * result.height).toBeLessThan(gridArea / 2);
+    expect(used / (result.width * result.height)).toBeGreaterThan(0.7);
+  });
+
+  it('keeps padding between rects', () => {
+    const result = packRects(MIXED, { maxSize: 1024, powerOfTwo: false, padding: 3 });
+    expect(overlaps(MIXED, result.positions, 3)).toBe(false);
+  });
+
+  it('rounds sheet sides to powers of two', () => {
+    const result = packRects(MIXED, { maxSize: 1024, powerOfTwo: true, padding: 1 });
+    expect(Math.log2(result.width) % 1).toBe(0);
+    expect(Math.log2(result.height) % 1).toBe(0);
+  });
+
+  it('throws when the sprites exceed the size limit', () => {
+    expect(() => packRects([{ width: 300, height: 10 }], { maxSize: 256, powerOfTwo: false, padding: 0 })).toThrow('fit in a 256x256');
+    expect(() => packRects(MIXED, { maxSize: 64, powerOfTwo: false, padding: 0 })).toThrow('fit in a 64x64');
+    expect(() => packRects(MIXED, { maxSize: 64, powerOfTwo: false, padding: 0 })).toThrow(SheetOverflowError);
+  });
+
+  it('returns an empty sheet for no rects', () => {
+    expect(packRects([], { maxSize: 256, powerOfTwo: true, padding: 0 })).toEqual({ width: 0, height: 0, positions: [] });
+  });
+});
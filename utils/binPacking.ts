@@ -0,0 +1,168 @@
+// MaxRects bin packing (best short side fit) for tightly packed sprite sheets.
+
+export interface PackSize {
+  width: number;
+  height: number;
+}
+
+export interface PackPosition {
+  x: number;
+  y: number;
+}
+
+export interface PackOptions {
+  maxSize: number; // Neither side of the sheet may exceed this
+  powerOfTwo: boolean; // Round sheet sides up to 2^n, as older GPUs and some engines require
+  padding: number; // Empty pixels kept between neighbouring rects
+}
+
+/** The sprites can't be packed within `maxSize`; callers tell the user to raise the limit. */
+export class SheetOverflowError extends Error {
+  readonly maxSize: number;
+
+  constructor(maxSize: number, message: string) {
+    super(message);
+    this.name = 'SheetOverflowError';
+    this.maxSize = maxSize;
+  }
+}
+
+export interface PackResult {
+  width: number;
+  height: number;
+  positions: PackPosition[]; // Same order as the input sizes
+}
+
+interface FreeRect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+const AREA_SLACK = 1.1;
+
+const contains = (a: FreeRect, b: FreeRect) =>
+  b.x >= a.x && b.y >= a.y && b.x + b.width <= a.x + a.width && b.y + b.height <= a.y + a.height;
+
+const nextPowerOfTwo = (value: number) => {
+  let result = 1;
+  while (result < value) result *= 2;
+  return result;
+};
+
+/**
+ * Packs rects into a fixed-size bin. Returns null when something does not fit.
+ * Larger rects are placed first since they are the hardest to fit later.
+ */
+export const packMaxRects = (sizes: PackSize[], binWidth: number, binHeight: number): PackPosition[] | null => {
+  const order = sizes
+    .map((_, i) => i)
+    .sort((a, b) =>
+      Math.max(sizes[b].width, sizes[b].height) - Math.max(sizes[a].width, sizes[a].height) ||
+      sizes[b].width * sizes[b].height - sizes[a].width * sizes[a].height);
+
+  let free: FreeRect[] = [{ x: 0, y: 0, width: binWidth, height: binHeight }];
+  const positions: PackPosition[] = new Array(sizes.length);
+
+  for (const index of order) {
+    const { width, height } = sizes[index];
+    let best: FreeRect | null = null;
+    let bestShort = Infinity;
+    let bestLong = Infinity;
+
+    for (const f of free) {
+      if (width > f.width || height > f.height) continue;
+      const leftoverW = f.width - width;
+      const leftoverH = f.height - height;
+      const short = Math.min(leftoverW, leftoverH);
+      const long = Math.max(leftoverW, leftoverH);
+      if (short < bestShort || (short === bestShort && long < bestLong)) {
+        best = f;
+        bestShort = short;
+        bestLong = long;
+      }
+    }
+    if (!best) return null;
+
+    const placed = { x: best.x, y: best.y, width, height };
+    positions[index] = { x: placed.x, y: placed.y };
+
+    // Split every free rect the placement overlaps into up to four maximal leftovers
+    const next: FreeRect[] = [];
+    for (const f of free) {
+      const overlaps = placed.x < f.x + f.width && placed.x + placed.width > f.x &&
+        placed.y < f.y + f.height && placed.y + placed.height > f.y;
+      if (!overlaps) {
+        next.push(f);
+        continue;
+      }
+      if (placed.x > f.x) next.push({ x: f.x, y: f.y, width: placed.x - f.x, height: f.height });
+      if (placed.x + placed.width < f.x + f.width) {
+        next.push({ x: placed.x + placed.width, y: f.y, width: f.x + f.width - placed.x - placed.width, height: f.height });
+      }
+      if (placed.y > f.y) next.push({ x: f.x, y: f.y, width: f.width, height: placed.y - f.y });
+      if (placed.y + placed.height < f.y + f.height) {
+        next.push({ x: f.x, y: placed.y + placed.height, width: f.width, height: f.y + f.height - placed.y - placed.height });
+      }
+    }
+
+    // Drop free rects fully covered by another one
+    free = next.filter((f, i) => !next.some((g, j) => j !== i && contains(g, f) && (!contains(f, g) || j < i)));
+  }
+
+  return positions;
+};
+
+/**
+ * Finds the smallest sheet that holds every rect: packs into bins of
+ * increasing width and keeps a near-minimal-area layout.
+ */
+export const packRects = (sizes: PackSize[], options: PackOptions): PackResult => {
+  if (sizes.length === 0) return { width: 0, height: 0, positions: [] };
+
+  const padding = Math.max(0, options.padding);
+  const maxSize = options.maxSize;
+  // Padding is added on the right/bottom of every rect; the bin grows by the
+  // same amount so rects touching the far edges don't pay for it.
+  const padded = sizes.map(s => ({ width: s.width + padding, height: s.height + padding }));
+
+  const minWidth = Math.max(...sizes.map(s => s.width));
+  const minHeight = Math.max(...sizes.map(s => s.height));
+  if (minWidth > maxSize || minHeight > maxSize) {
+    throw new SheetOverflowError(maxSize, `Sprite too large to fit in a ${maxSize}x${maxSize} sheet`);
+  }
+
+  const candidates: number[] = [];
+  if (options.powerOfTwo) {
+    for (let w = nextPowerOfTwo(minWidth); w <= maxSize; w *= 2) candidates.push(w);
+  } else {
+    const widest = Math.min(maxSize, padded.reduce((sum, s) => sum + s.width, 0));
+    const step = Math.max(1, Math.ceil((widest - minWidth) / 64));
+    for (let w = minWidth; w < widest; w += step) candidates.push(w);
+    candidates.push(widest);
+  }
+
+  const layouts: PackResult[] = [];
+  for (const binWidth of candidates) {
+    const positions = packMaxRects(padded, binWidth + padding, maxSize + padding);
+    if (!positions) continue;
+
+    let width = Math.max(...positions.map((p, i) => p.x + sizes[i].width));
+    let height = Math.max(...positions.map((p, i) => p.y + sizes[i].height));
+    if (options.powerOfTwo) {
+      width = nextPowerOfTwo(width);
+      height = nextPowerOfTwo(height);
+    }
+    if (width > maxSize || height > maxSize) continue;
+
+    layouts.push({ width, height, positions });
+  }
+
+  if (layouts.length === 0) throw new SheetOverflowError(maxSize, `Sprites do not fit in a ${maxSize}x${maxSize} sheet`);
+  // Among layouts close to the smallest area, take the squarest one
+  const minArea = Math.min(...layouts.map(l => l.width * l.height));
+  return layouts
+    .filter(l => l.width * l.height <= minArea * AREA_SLACK)
+    .reduce((best, l) => (Math.max(l.width, l.height) < Math.max(best.width, best.height) ? l : best));
+};
@@ -0,0 +1,89 @@
+import { PixelBuffer, clonePixelBuffer, getPixelBuffer, pixelBufferToDataUrl } from './imageData';
+
+export type RGB = [number, number, number];
+
+// The background colour generateBackgroundRemoval asks the model to paint.
+export const MAGENTA: RGB = [255, 0, 255];
+
+export interface ChromaKeyOptions {
+  /** 0-100, percentage of the maximum RGB distance still treated as the key colour. */
+  tolerance: number;
+  /** Remove the one-pixel, magenta-tinted halo the model leaves around the subject. */
+  defringe: boolean;
+  keyColor?: RGB;
+}
+
+export const DEFAULT_CHROMA_KEY_OPTIONS: ChromaKeyOptions = {
+  tolerance: 25,
+  defringe: true,
+};
+
+const MAX_DISTANCE = Math.sqrt(3 * 255 * 255);
+// Edge pixels are blends of subject and key, so they get a wider threshold.
+const FRINGE_TOLERANCE_FACTOR = 2;
+
+const distanceTo = (data: Uint8ClampedArray, i: number, key: RGB) => {
+  const dr = data[i] - key[0];
+  const dg = data[i + 1] - key[1];
+  const db = data[i + 2] - key[2];
+  return Math.sqrt(dr * dr + dg * dg + db * db);
+};
+
+const clearPixel = (data: Uint8ClampedArray, i: number) => {
+  data[i] = 0;
+  data[i + 1] = 0;
+  data[i + 2] = 0;
+  data[i + 3] = 0;
+};
+
+/**
+ * Converts pixels close to the key colour into real transparency.
+ * Returns a new buffer; the input is left untouched.
+ */
+export const applyChromaKey = (source: PixelBuffer, options: ChromaKeyOptions): PixelBuffer => {
+  const key = options.keyColor ?? MAGENTA;
+  const threshold = (Math.max(0, Math.min(100, options.tolerance)) / 100) * MAX_DISTANCE;
+  const result = clonePixelBuffer(source);
+  const { width, height, data } = result;
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] === 0 || distanceTo(data, i, key) <= threshold) {
+      clearPixel(data, i);
+    }
+  }
+
+  if (!options.defringe) return result;
+
+  // Single pass against a snapshot of the keyed alpha so only the outermost
+  // ring of the subject is considered and the cleanup never cascades inward.
+  const transparent = new Uint8Array(width * height);
+  for (let p = 0; p < transparent.length; p++) {
+    transparent[p] = data[p * 4 + 3] === 0 ? 1 : 0;
+  }
+
+  const fringeThreshold = Math.min(MAX_DISTANCE, threshold * FRINGE_TOLERANCE_FACTOR);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const p = y * width + x;
+      if (transparent[p]) continue;
+
+      const touchesBackground =
+        (x > 0 && transparent[p - 1]) ||
+        (x < width - 1 && transparent[p + 1]) ||
+        (y > 0 && transparent[p - width]) ||
+        (y < height - 1 && transparent[p + width]);
+      if (!touchesBackground) continue;
+
+      if (distanceTo(data, p * 4, key) <= fringeThreshold) {
+        clearPixel(data, p * 4);
+      }
+    }
+  }
+
+  return result;
+};
+
+export const chromaKeyImage = async (imageUrl: string, options: ChromaKeyOptions): Promise<string> => {
+  const source = await getPixelBuffer(imageUrl);
+  return pixelBufferToDataUrl(applyChromaKey(source, options));
+};
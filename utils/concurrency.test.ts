@@ -0,0 +1,39 @@
+import { describe, expect, it } from 'vitest';
+import { runWithConcurrency } from './concurrency';
+
+const delay = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+describe('runWithConcurrency', () => {
+  it('never runs more than the limit at once', async () => {
+    let active = 0;
+    let peak = 0;
+    await runWithConcurrency(8, 3, async () => {
+      active++;
+      peak = Math.max(peak, active);
+      await delay(5);
+      active--;
+    });
+    expect(peak).toBe(3);
+  });
+
+  it('returns results in index order regardless of completion order', async () => {
+    const results = await runWithConcurrency(4, 4, async (i) => {
+      await delay((4 - i) * 3);
+      return i * 10;
+    });
+    expect(results.map(r => (r.status === 'fulfilled' ? r.value : null))).toEqual([0, 10, 20, 30]);
+  });
+
+  it('keeps going after failures and reports them per item', async () => {
+    const results = await runWithConcurrency(3, 2, async (i) => {
+      if (i === 1) throw new Error('boom');
+      return i;
+    });
+    expect(results.map(r => r.status)).toEqual(['fulfilled', 'rejected', 'fulfilled']);
+    expect((results[1] as PromiseRejectedResult).reason.message).toBe('boom');
+  });
+
+  it('handles an empty batch', async () => {
+    expect(await runWithConcurrency(0, 3, async () => 1)).toEqual([]);
+  });
+});
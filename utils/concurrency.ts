@@ -0,0 +1,29 @@
+// Small promise pool for fanning out API requests without tripping rate limits.
+
+/**
+ * Runs `task(0)` .. `task(count - 1)` with at most `limit` in flight at once.
+ * Never rejects; results come back in index order like Promise.allSettled.
+ */
+export const runWithConcurrency = async <T>(
+  count: number,
+  limit: number,
+  task: (index: number) => Promise<T>
+): Promise<PromiseSettledResult<T>[]> => {
+  const results: PromiseSettledResult<T>[] = new Array(count);
+  let next = 0;
+
+  const worker = async () => {
+    while (next < count) {
+      const index = next++;
+      try {
+        results[index] = { status: 'fulfilled', value: await task(index) };
+      } catch (reason) {
+        results[index] = { status: 'rejected', reason };
+      }
+    }
+  };
+
+  const workers = Array.from({ length: Math.max(1, Math.min(limit, count)) }, worker);
+  await Promise.all(workers);
+  return results;
+};
@@ -0,0 +1,100 @@
+import { PixelBuffer } from './imageData';
+
+// Raster helpers for the manual editing tools in PixelEditor.
+
+export type RGBA = [number, number, number, number];
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export const hexToRgba = (hex: string): RGBA => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255, 255];
+};
+
+export const rgbaToHex = (r: number, g: number, b: number): string =>
+  `#${[r, g, b].map(v => v.toString(16).padStart(2, '0')).join('')}`.toUpperCase();
+
+/** Bresenham line, inclusive of both end points. */
+export const linePoints = (x0: number, y0: number, x1: number, y1: number): Point[] => {
+  const points: Point[] = [];
+  const dx = Math.abs(x1 - x0);
+  const dy = -Math.abs(y1 - y0);
+  const sx = x0 < x1 ? 1 : -1;
+  const sy = y0 < y1 ? 1 : -1;
+  let err = dx + dy;
+  let x = x0;
+  let y = y0;
+  while (true) {
+    points.push({ x, y });
+    if (x === x1 && y === y1) break;
+    const e2 = 2 * err;
+    if (e2 >= dy) {
+      err += dy;
+      x += sx;
+    }
+    if (e2 <= dx) {
+      err += dx;
+      y += sy;
+    }
+  }
+  return points;
+};
+
+/** One-pixel outline of the rectangle spanned by two corners. */
+export const rectPoints = (x0: number, y0: number, x1: number, y1: number): Point[] => {
+  const left = Math.min(x0, x1);
+  const right = Math.max(x0, x1);
+  const top = Math.min(y0, y1);
+  const bottom = Math.max(y0, y1);
+  const points: Point[] = [];
+  for (let x = left; x <= right; x++) {
+    points.push({ x, y: top });
+    if (bottom !== top) points.push({ x, y: bottom });
+  }
+  for (let y = top + 1; y < bottom; y++) {
+    points.push({ x: left, y });
+    if (right !== left) points.push({ x: right, y });
+  }
+  return points;
+};
+
+/**
+ * 4-connected flood fill of the exact colour under (x, y). Modifies the buffer
+ * in place and returns the number of pixels changed.
+ */
+export const floodFill = (buffer: PixelBuffer, x: number, y: number, color: RGBA): number => {
+  const { width, height, data } = buffer;
+  if (x < 0 || y < 0 || x >= width || y >= height) return 0;
+
+  const start = (y * width + x) * 4;
+  const target = [data[start], data[start + 1], data[start + 2], data[start + 3]];
+  // Fully transparent pixels match regardless of their (meaningless) RGB values.
+  const matches = (i: number) =>
+    target[3] === 0
+      ? data[i + 3] === 0
+      : data[i] === target[0] && data[i + 1] === target[1] && data[i + 2] === target[2] && data[i + 3] === target[3];
+  if (matches(start) && target.every((v, k) => v === color[k])) return 0;
+
+  let changed = 0;
+  const visited = new Uint8Array(width * height);
+  const stack = [y * width + x];
+  while (stack.length > 0) {
+    const p = stack.pop()!;
+    if (visited[p]) continue;
+    visited[p] = 1;
+    const i = p * 4;
+    if (!matches(i)) continue;
+
+    data.set(color, i);
+    changed++;
+    const px = p % width;
+    if (px > 0) stack.push(p - 1);
+    if (px < width - 1) stack.push(p + 1);
+    if (p >= width) stack.push(p - width);
+    if (p < width * (height - 1)) stack.push(p + width);
+  }
+  return changed;
+};
@@ -0,0 +1,51 @@
+import { describe, expect, it } from 'vitest';
+import { PixelBuffer, createPixelBuffer } from './imageData';
+import { findSubjectBounds, stabilizeFrames } from './frameAlign';
+
+// White frame with a black w x h block whose top-left corner is at (x, y)
+const frameWithBlock = (width: number, height: number, x: number, y: number, w: number, h: number) => {
+  const frame = createPixelBuffer(width, height);
+  frame.data.fill(255);
+  for (let row = y; row < y + h; row++) {
+    for (let col = x; col < x + w; col++) frame.data.fill(0, (row * width + col) * 4, (row * width + col) * 4 + 3);
+  }
+  return frame;
+};
+
+const bounds = (frame: PixelBuffer) => {
+  const b = findSubjectBounds(frame)!;
+  return { x: b.x, y: b.y, width: b.width, height: b.height };
+};
+
+describe('findSubjectBounds', () => {
+  it('finds the block and ignores single-pixel specks', () => {
+    const frame = frameWithBlock(10, 10, 2, 3, 4, 5);
+    frame.data.fill(0, (0 * 10 + 9) * 4, (0 * 10 + 9) * 4 + 3); // Speck in the top-right corner
+    expect(bounds(frame)).toEqual({ x: 2, y: 3, width: 4, height: 5 });
+  });
+
+  it('returns null for an empty frame', () => {
+    expect(findSubjectBounds(frameWithBlock(4, 4, 0, 0, 0, 0))).toBeNull();
+  });
+});
+
+describe('stabilizeFrames', () => {
+  it('puts every subject on the lowest baseline, horizontally centred', () => {
+    const frames = [frameWithBlock(12, 10, 1, 2, 4, 4), frameWithBlock(12, 10, 6, 5, 4, 4)];
+    const stable = stabilizeFrames(frames, 'bottom');
+    expect(stable.map(f => [f.width, f.height])).toEqual([[12, 10], [12, 10]]);
+    expect(stable.map(bounds)).toEqual([
+      { x: 4, y: 5, width: 4, height: 4 },
+      { x: 4, y: 5, width: 4, height: 4 },
+    ]);
+  });
+
+  it('centres subjects in the middle of the frame', () => {
+    const frames = [frameWithBlock(8, 8, 0, 0, 6, 2), frameWithBlock(8, 8, 2, 6, 6, 2)]; // The first block covers a corner
+    const stable = stabilizeFrames(frames, 'center');
+    expect(stable.map(bounds)).toEqual([
+      { x: 1, y: 3, width: 6, height: 2 },
+      { x: 1, y: 3, width: 6, height: 2 },
+    ]);
+  });
+});
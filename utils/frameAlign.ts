@@ -0,0 +1,121 @@
+import { PixelBuffer, createPixelBuffer } from './imageData';
+import { isBackground } from './pixelGrid';
+
+// Animation frames come back from the model with the character drifting sideways and
+// bobbing from frame to frame. This finds the subject in every frame and shifts the
+// frames so they all share one pivot.
+
+export type FrameAnchor = 'bottom' | 'center'; // Feet on a shared baseline, or centred in the cell
+
+// Rows and columns with at most this many subject pixels are treated as empty (JPEG specks).
+export const LINE_NOISE = 1;
+
+export interface SubjectBounds {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  centroidX: number; // Mean x of all subject pixels; unlike the box it barely moves when a weapon swings out
+  centroidY: number;
+}
+
+/** Colour shared by most of the frame's corners; a subject rarely reaches more than one of them. */
+export const frameBackground = (frame: PixelBuffer): Uint8ClampedArray => {
+  const { width, height, data } = frame;
+  const corners = [0, width - 1, (height - 1) * width, height * width - 1].map(i => data.subarray(i * 4, i * 4 + 4));
+  const votes = (corner: Uint8ClampedArray) => corners.filter(other => isBackground(other, 0, corner)).length;
+  return corners.reduce((best, corner) => (votes(corner) > votes(best) ? corner : best));
+};
+
+/** Box and centroid of the non-background pixels, or null for an empty frame. */
+export const findSubjectBounds = (frame: PixelBuffer): SubjectBounds | null => {
+  const { width, height, data } = frame;
+  const bg = frameBackground(frame);
+  const rowCounts = new Array(height).fill(0);
+  const colCounts = new Array(width).fill(0);
+  let sumX = 0, sumY = 0, count = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBackground(data, (y * width + x) * 4, bg)) continue;
+      rowCounts[y]++;
+      colCounts[x]++;
+      sumX += x + 0.5;
+      sumY += y + 0.5;
+      count++;
+    }
+  }
+
+  const rows = rowCounts.flatMap((n, y) => (n > LINE_NOISE ? [y] : []));
+  const cols = colCounts.flatMap((n, x) => (n > LINE_NOISE ? [x] : []));
+  if (rows.length === 0 || cols.length === 0) return null;
+  return {
+    x: cols[0],
+    y: rows[0],
+    width: cols[cols.length - 1] - cols[0] + 1,
+    height: rows[rows.length - 1] - rows[0] + 1,
+    centroidX: sumX / count,
+    centroidY: sumY / count,
+  };
+};
+
+/** The point of a frame that should stay put: the centroid column, at the foot baseline or the centroid row. */
+const framePivot = (bounds: SubjectBounds, anchor: FrameAnchor) => ({
+  x: Math.round(bounds.centroidX),
+  y: anchor === 'bottom' ? bounds.y + bounds.height : Math.round(bounds.centroidY),
+});
+
+/**
+ * Shifts every frame so its subject pivot lands on the same spot: horizontally centred,
+ * and either on the lowest foot baseline of the set or vertically centred. Frames are
+ * enlarged rather than cropped when a subject would otherwise be cut off, so all results
+ * share one size. Empty frames are kept where they are.
+ */
+export const stabilizeFrames = (frames: PixelBuffer[], anchor: FrameAnchor): PixelBuffer[] => {
+  if (frames.length === 0) return frames;
+  const bounds = frames.map(findSubjectBounds);
+  const pivots = bounds.map(b => (b ? framePivot(b, anchor) : null));
+
+  // How far each subject reaches from its pivot in every direction
+  let left = 0, right = 0, up = 0, down = 0, baseline = 0;
+  bounds.forEach((b, i) => {
+    const p = pivots[i];
+    if (!b || !p) return;
+    left = Math.max(left, p.x - b.x);
+    right = Math.max(right, b.x + b.width - p.x);
+    up = Math.max(up, p.y - b.y);
+    down = Math.max(down, b.y + b.height - p.y);
+    baseline = Math.max(baseline, p.y);
+  });
+
+  const frameWidth = Math.max(...frames.map(f => f.width));
+  const frameHeight = Math.max(...frames.map(f => f.height));
+  const width = Math.max(frameWidth, 2 * Math.max(left, right));
+  const targetX = Math.floor(width / 2);
+  let height: number, targetY: number;
+  if (anchor === 'bottom') {
+    targetY = Math.max(baseline, up);
+    height = Math.max(frameHeight, targetY + down);
+  } else {
+    height = Math.max(frameHeight, 2 * Math.max(up, down));
+    targetY = Math.floor(height / 2);
+  }
+
+  return frames.map((frame, i) => {
+    const p = pivots[i];
+    const offsetX = p ? targetX - p.x : Math.floor((width - frame.width) / 2);
+    const offsetY = p ? targetY - p.y : height - frame.height;
+    const result = createPixelBuffer(width, height);
+    const background = frameBackground(frame);
+    for (let j = 0; j < result.data.length; j += 4) result.data.set(background, j);
+
+    // Copy the overlapping part of the shifted frame
+    const startX = Math.max(0, -offsetX);
+    const endX = Math.min(frame.width, width - offsetX);
+    if (endX <= startX) return result;
+    for (let y = Math.max(0, -offsetY); y < Math.min(frame.height, height - offsetY); y++) {
+      const src = (y * frame.width + startX) * 4;
+      result.data.set(frame.data.subarray(src, (y * frame.width + endX) * 4), ((y + offsetY) * width + startX + offsetX) * 4);
+    }
+    return result;
+  });
+};
@@ -0,0 +1,129 @@
+import { PixelBuffer, createPixelBuffer, getPixelBuffer, pixelBufferToDataUrl } from './imageData';
+
+// generatePixelAnimationFrames returns every frame side by side on one white
+// strip. This splits it back into equally sized frames.
+
+export interface Span {
+  start: number; // inclusive
+  end: number; // exclusive
+}
+
+// Channels above 255 - tolerance count as the white background.
+const WHITE_TOLERANCE = 24;
+// Columns with at most this many non-background pixels are treated as empty (JPEG specks).
+const COLUMN_NOISE = 1;
+
+const isBackground = (data: Uint8ClampedArray, i: number) =>
+  data[i + 3] < 128 ||
+  (data[i] >= 255 - WHITE_TOLERANCE && data[i + 1] >= 255 - WHITE_TOLERANCE && data[i + 2] >= 255 - WHITE_TOLERANCE);
+
+/** Runs of consecutive entries of a per-column or per-row pixel count that exceed `noise`. */
+export const findRuns = (profile: number[], noise: number): Span[] => {
+  const runs: Span[] = [];
+  let runStart = -1;
+  profile.forEach((n, i) => {
+    if (n > noise && runStart < 0) runStart = i;
+    if (n <= noise && runStart >= 0) {
+      runs.push({ start: runStart, end: i });
+      runStart = -1;
+    }
+  });
+  if (runStart >= 0) runs.push({ start: runStart, end: profile.length });
+  return runs;
+};
+
+/** Horizontal runs of columns that contain subject pixels. */
+const findContentRuns = (strip: PixelBuffer): Span[] => {
+  const { width, height, data } = strip;
+  const profile = Array.from({ length: width }, (_, x) => {
+    let count = 0;
+    for (let y = 0; y < height && count <= COLUMN_NOISE; y++) {
+      if (!isBackground(data, (y * width + x) * 4)) count++;
+    }
+    return count;
+  });
+  return findRuns(profile, COLUMN_NOISE);
+};
+
+/** Rows spanned by subject pixels anywhere on the strip, so all frames share a baseline. */
+const findContentRows = (strip: PixelBuffer): Span => {
+  const { width, height, data } = strip;
+  let top = height;
+  let bottom = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (!isBackground(data, (y * width + x) * 4)) {
+        top = Math.min(top, y);
+        bottom = Math.max(bottom, y + 1);
+        break;
+      }
+    }
+  }
+  return top < bottom ? { start: top, end: bottom } : { start: 0, end: height };
+};
+
+/** Merges the two runs with the narrowest gap until `count` remain (limbs detached from a body, etc). */
+export const mergeRuns = (runs: Span[], count: number): Span[] => {
+  const merged = runs.map(r => ({ ...r }));
+  while (merged.length > count) {
+    let narrowest = 0;
+    for (let i = 1; i < merged.length - 1; i++) {
+      if (merged[i + 1].start - merged[i].end < merged[narrowest + 1].start - merged[narrowest].end) narrowest = i;
+    }
+    merged.splice(narrowest, 2, { start: merged[narrowest].start, end: merged[narrowest + 1].end });
+  }
+  return merged;
+};
+
+/**
+ * Column ranges for each frame. Uses the white gaps between poses when exactly
+ * `frameCount` subjects can be found, otherwise splits evenly.
+ */
+export const detectFrameBounds = (strip: PixelBuffer, frameCount: number): Span[] => {
+  const count = Math.max(1, Math.floor(frameCount));
+  const runs = findContentRuns(strip);
+
+  if (runs.length >= count) {
+    const subjects = mergeRuns(runs, count);
+    // Cut halfway through each gap; the outer frames get the same margin as the inner ones.
+    const gaps = subjects.slice(1).map((s, i) => s.start - subjects[i].end);
+    const margin = gaps.length > 0 ? Math.floor(Math.min(...gaps) / 2) : 0;
+    return subjects.map((s, i) => ({
+      start: i === 0 ? Math.max(0, s.start - margin) : Math.floor((subjects[i - 1].end + s.start) / 2),
+      end: i === count - 1 ? Math.min(strip.width, s.end + margin) : Math.floor((s.end + subjects[i + 1].start) / 2),
+    }));
+  }
+
+  const frameWidth = strip.width / count;
+  return Array.from({ length: count }, (_, i) => ({
+    start: Math.round(i * frameWidth),
+    end: Math.round((i + 1) * frameWidth),
+  }));
+};
+
+/**
+ * Slices the strip into `frameCount` frames of identical size. Narrower
+ * frames are centred on a white canvas as wide as the widest one.
+ */
+export const sliceAnimationStrip = (strip: PixelBuffer, frameCount: number): PixelBuffer[] => {
+  const bounds = detectFrameBounds(strip, frameCount);
+  const rows = findContentRows(strip);
+  const frameWidth = Math.max(...bounds.map(b => b.end - b.start));
+  const frameHeight = rows.end - rows.start;
+
+  return bounds.map(b => {
+    const frame = createPixelBuffer(frameWidth, frameHeight);
+    frame.data.fill(255);
+    const offsetX = Math.floor((frameWidth - (b.end - b.start)) / 2);
+    for (let y = 0; y < frameHeight; y++) {
+      const src = ((rows.start + y) * strip.width + b.start) * 4;
+      frame.data.set(strip.data.subarray(src, src + (b.end - b.start) * 4), (y * frameWidth + offsetX) * 4);
+    }
+    return frame;
+  });
+};
+
+export const sliceAnimationStripImage = async (stripUrl: string, frameCount: number): Promise<string[]> => {
+  const strip = await getPixelBuffer(stripUrl);
+  return sliceAnimationStrip(strip, frameCount).map(pixelBufferToDataUrl);
+};
@@ -0,0 +1,225 @@
+import { PixelBuffer } from './imageData';
+
+// Minimal animated GIF89a encoder: one global palette, LZW-compressed frames,
+// binary transparency and a NETSCAPE2.0 loop block.
+
+export interface GifOptions {
+  delayMs: number;
+  /** 0 = loop forever, 1 = play once, n = play n times. */
+  loopCount: number;
+}
+
+const MAX_COLORS = 256;
+const MAX_CODE_SIZE = 12;
+
+class ByteWriter {
+  private bytes: number[] = [];
+
+  byte(value: number) {
+    this.bytes.push(value & 0xff);
+  }
+
+  word(value: number) {
+    this.byte(value);
+    this.byte(value >> 8);
+  }
+
+  string(value: string) {
+    for (let i = 0; i < value.length; i++) this.byte(value.charCodeAt(i));
+  }
+
+  array(values: ArrayLike<number>) {
+    for (let i = 0; i < values.length; i++) this.byte(values[i]);
+  }
+
+  toUint8Array() {
+    return new Uint8Array(this.bytes);
+  }
+}
+
+interface IndexedFrames {
+  palette: number[]; // packed 0xRRGGBB
+  transparentIndex: number | null;
+  indices: Uint8Array[];
+}
+
+/**
+ * Builds one palette shared by every frame. Pixel art rarely needs more than
+ * 256 colours; when it does, colour precision is dropped a bit at a time
+ * until it fits.
+ */
+const indexFrames = (frames: PixelBuffer[]): IndexedFrames => {
+  const hasTransparency = frames.some(f => {
+    for (let i = 3; i < f.data.length; i += 4) if (f.data[i] < 128) return true;
+    return false;
+  });
+  const limit = hasTransparency ? MAX_COLORS - 1 : MAX_COLORS;
+
+  let shift = 0;
+  let buckets = new Map<number, number[]>();
+  for (; shift < 8; shift++) {
+    buckets = new Map();
+    const mask = (0xff << shift) & 0xff;
+    for (const f of frames) {
+      for (let i = 0; i < f.data.length; i += 4) {
+        if (f.data[i + 3] < 128) continue;
+        const key = ((f.data[i] & mask) << 16) | ((f.data[i + 1] & mask) << 8) | (f.data[i + 2] & mask);
+        let bucket = buckets.get(key);
+        if (!bucket) {
+          bucket = [0, 0, 0, 0];
+          buckets.set(key, bucket);
+        }
+        bucket[0]++;
+        bucket[1] += f.data[i];
+        bucket[2] += f.data[i + 1];
+        bucket[3] += f.data[i + 2];
+      }
+    }
+    if (buckets.size <= limit) break;
+  }
+
+  const offset = hasTransparency ? 1 : 0;
+  const palette: number[] = hasTransparency ? [0] : [];
+  const lookup = new Map<number, number>();
+  buckets.forEach((b, key) => {
+    lookup.set(key, palette.length);
+    const r = Math.round(b[1] / b[0]);
+    const g = Math.round(b[2] / b[0]);
+    const bl = Math.round(b[3] / b[0]);
+    palette.push((r << 16) | (g << 8) | bl);
+  });
+  if (palette.length === 0) palette.push(0);
+
+  const mask = (0xff << shift) & 0xff;
+  const indices = frames.map(f => {
+    const out = new Uint8Array(f.width * f.height);
+    for (let p = 0; p < out.length; p++) {
+      const i = p * 4;
+      if (f.data[i + 3] < 128) {
+        out[p] = 0;
+        continue;
+      }
+      const key = ((f.data[i] & mask) << 16) | ((f.data[i + 1] & mask) << 8) | (f.data[i + 2] & mask);
+      out[p] = lookup.get(key) ?? offset;
+    }
+    return out;
+  });
+
+  return { palette, transparentIndex: hasTransparency ? 0 : null, indices };
+};
+
+/** Variable-width LZW as specified for GIF image data. */
+const lzwEncode = (indices: Uint8Array, minCodeSize: number): Uint8Array => {
+  const clearCode = 1 << minCodeSize;
+  const endCode = clearCode + 1;
+  const output: number[] = [];
+  let bitBuffer = 0;
+  let bitCount = 0;
+  let codeSize = minCodeSize + 1;
+
+  const emit = (code: number) => {
+    bitBuffer |= code << bitCount;
+    bitCount += codeSize;
+    while (bitCount >= 8) {
+      output.push(bitBuffer & 0xff);
+      bitBuffer >>= 8;
+      bitCount -= 8;
+    }
+  };
+
+  let dictionary = new Map<number, number>();
+  let nextCode = endCode + 1;
+  const reset = () => {
+    dictionary = new Map();
+    nextCode = endCode + 1;
+    codeSize = minCodeSize + 1;
+  };
+
+  emit(clearCode);
+  let prefix = indices.length > 0 ? indices[0] : 0;
+  for (let i = 1; i < indices.length; i++) {
+    const key = (prefix << 8) | indices[i];
+    const existing = dictionary.get(key);
+    if (existing !== undefined) {
+      prefix = existing;
+      continue;
+    }
+    emit(prefix);
+    if (nextCode < 1 << MAX_CODE_SIZE) {
+      dictionary.set(key, nextCode++);
+      if (nextCode > 1 << codeSize && codeSize < MAX_CODE_SIZE) codeSize++;
+    } else {
+      emit(clearCode);
+      reset();
+    }
+    prefix = indices[i];
+  }
+  emit(prefix);
+  emit(endCode);
+  if (bitCount > 0) output.push(bitBuffer & 0xff);
+  return new Uint8Array(output);
+};
+
+/** Encodes equally sized RGBA frames as an animated GIF. */
+export const encodeGif = (frames: PixelBuffer[], options: GifOptions): Uint8Array => {
+  if (frames.length === 0) throw new Error("No frames to encode");
+  const { width, height } = frames[0];
+  const { palette, transparentIndex, indices } = indexFrames(frames);
+
+  let tableBits = 1;
+  while (1 << tableBits < palette.length) tableBits++;
+  const tableSize = 1 << tableBits;
+  const minCodeSize = Math.max(2, tableBits);
+  const delay = Math.max(2, Math.round(options.delayMs / 10)); // hundredths of a second
+
+  const out = new ByteWriter();
+  out.string('GIF89a');
+  out.word(width);
+  out.word(height);
+  out.byte(0x80 | 0x70 | (tableBits - 1)); // global colour table, 8-bit colour resolution
+  out.byte(0); // background colour index
+  out.byte(0); // pixel aspect ratio
+  for (let i = 0; i < tableSize; i++) {
+    const c = palette[i] ?? 0;
+    out.byte(c >> 16);
+    out.byte(c >> 8);
+    out.byte(c);
+  }
+
+  // A missing NETSCAPE block means "play once"; otherwise it holds the repeat count.
+  if (options.loopCount !== 1) {
+    out.array([0x21, 0xff, 0x0b]);
+    out.string('NETSCAPE2.0');
+    out.array([0x03, 0x01]);
+    out.word(options.loopCount === 0 ? 0 : options.loopCount - 1);
+    out.byte(0);
+  }
+
+  indices.forEach(frame => {
+    // Graphic Control Extension: dispose to background so transparent areas don't ghost
+    out.array([0x21, 0xf9, 0x04]);
+    out.byte((2 << 2) | (transparentIndex !== null ? 1 : 0));
+    out.word(delay);
+    out.byte(transparentIndex ?? 0);
+    out.byte(0);
+
+    out.byte(0x2c);
+    out.word(0);
+    out.word(0);
+    out.word(width);
+    out.word(height);
+    out.byte(0); // no local colour table, not interlaced
+
+    out.byte(minCodeSize);
+    const data = lzwEncode(frame, minCodeSize);
+    for (let i = 0; i < data.length; i += 255) {
+      const block = data.subarray(i, i + 255);
+      out.byte(block.length);
+      out.array(block);
+    }
+    out.byte(0);
+  });
+
+  out.byte(0x3b);
+  return out.toUint8Array();
+};
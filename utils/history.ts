@@ -0,0 +1,106 @@
+import { HistoryEntry, HistoryOperation } from '../types';
+
+// Branching undo history. Every image the editor shows is an entry whose
+// parent is the image it was derived from, so going back to an old step and
+// running a new operation starts a branch instead of discarding the future.
+
+export interface ImageHistory {
+  entries: HistoryEntry[];
+  currentId: string | null;
+  // Child that redo returns to, remembered per entry when stepping back
+  redoTargets: Record<string, string>;
+}
+
+export const MAX_HISTORY_ENTRIES = 100;
+
+export const EMPTY_HISTORY: ImageHistory = { entries: [], currentId: null, redoTargets: {} };
+
+let nextId = 0;
+const createId = () => `${Date.now().toString(36)}-${(nextId++).toString(36)}`;
+
+export const getCurrentEntry = (history: ImageHistory): HistoryEntry | null =>
+  history.entries.find(e => e.id === history.currentId) ?? null;
+
+/** Ids from the root to the current entry. */
+export const getActivePath = (history: ImageHistory): Set<string> => {
+  const path = new Set<string>();
+  let entry = getCurrentEntry(history);
+  while (entry) {
+    path.add(entry.id);
+    const parentId: string | null = entry.parentId;
+    entry = history.entries.find(e => e.id === parentId) ?? null;
+  }
+  return path;
+};
+
+const getChildren = (history: ImageHistory, id: string) => history.entries.filter(e => e.parentId === id);
+
+export const canUndo = (history: ImageHistory) => !!getCurrentEntry(history)?.parentId;
+
+export const canRedo = (history: ImageHistory) =>
+  !!history.currentId && getChildren(history, history.currentId).length > 0;
+
+/** Drops the oldest entries off the active path, re-parenting their children. */
+const prune = (history: ImageHistory): ImageHistory => {
+  let { entries } = history;
+  while (entries.length > MAX_HISTORY_ENTRIES) {
+    const activePath = getActivePath({ ...history, entries });
+    const victim = entries.find(e => !activePath.has(e.id)) ?? entries[0];
+    entries = entries
+      .filter(e => e.id !== victim.id)
+      .map(e => (e.parentId === victim.id ? { ...e, parentId: victim.parentId } : e));
+  }
+  return { ...history, entries };
+};
+
+export const pushHistory = (
+  history: ImageHistory,
+  imageUrl: string,
+  operation: HistoryOperation,
+  prompt?: string
+): ImageHistory => {
+  const current = getCurrentEntry(history);
+  if (current && current.imageUrl === imageUrl) return history;
+
+  const entry: HistoryEntry = {
+    id: createId(),
+    parentId: current?.id ?? null,
+    imageUrl,
+    operation,
+    prompt,
+    timestamp: Date.now(),
+  };
+  const redoTargets = current ? { ...history.redoTargets, [current.id]: entry.id } : history.redoTargets;
+  return prune({ entries: [...history.entries, entry], currentId: entry.id, redoTargets });
+};
+
+export const undoHistory = (history: ImageHistory): ImageHistory => {
+  const current = getCurrentEntry(history);
+  if (!current?.parentId) return history;
+  return {
+    ...history,
+    currentId: current.parentId,
+    redoTargets: { ...history.redoTargets, [current.parentId]: current.id },
+  };
+};
+
+export const redoHistory = (history: ImageHistory): ImageHistory => {
+  if (!history.currentId) return history;
+  const children = getChildren(history, history.currentId);
+  if (children.length === 0) return history;
+  const remembered = children.find(c => c.id === history.redoTargets[history.currentId!]);
+  return { ...history, currentId: (remembered ?? children[children.length - 1]).id };
+};
+
+export const jumpToHistory = (history: ImageHistory, id: string): ImageHistory => {
+  if (!history.entries.some(e => e.id === id)) return history;
+  // Remember the path we came down so redo retraces it after the jump
+  const redoTargets = { ...history.redoTargets };
+  let entry = history.entries.find(e => e.id === id) ?? null;
+  while (entry?.parentId) {
+    redoTargets[entry.parentId] = entry.id;
+    const parentId: string = entry.parentId;
+    entry = history.entries.find(e => e.id === parentId) ?? null;
+  }
+  return { ...history, currentId: id, redoTargets };
+};
@@ -0,0 +1,27 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer, dataUrlToBytes, flipPixelBufferHorizontal, resamplePixelBuffer } from './imageData';
+
+describe('flipPixelBufferHorizontal', () => {
+  it('mirrors each row', () => {
+    const buffer = createPixelBuffer(3, 2);
+    for (let i = 0; i < 6; i++) buffer.data[i * 4] = i; // Red channel holds the pixel index
+    const flipped = flipPixelBufferHorizontal(buffer);
+    expect(Array.from({ length: 6 }, (_, i) => flipped.data[i * 4])).toEqual([2, 1, 0, 5, 4, 3]);
+    expect(buffer.data[0]).toBe(0); // Source untouched
+  });
+});
+
+describe('resamplePixelBuffer', () => {
+  it('picks the nearest source pixel when shrinking', () => {
+    const buffer = createPixelBuffer(4, 1);
+    for (let i = 0; i < 4; i++) buffer.data[i * 4] = i;
+    const resampled = resamplePixelBuffer(buffer, 2, 1);
+    expect([resampled.data[0], resampled.data[4]]).toEqual([1, 3]);
+  });
+});
+
+describe('dataUrlToBytes', () => {
+  it('decodes the base64 payload', () => {
+    expect(Array.from(dataUrlToBytes('data:text/plain;base64,SGk='))).toEqual([72, 105]);
+  });
+});
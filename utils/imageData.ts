@@ -0,0 +1,112 @@
+// Helpers for moving between data URLs, <img> elements and raw pixel buffers.
+
+/**
+ * Minimal RGBA pixel buffer. `ImageData` satisfies it structurally, but the
+ * pixel-processing utilities only depend on this shape so they stay DOM-free.
+ */
+export interface PixelBuffer {
+  width: number;
+  height: number;
+  data: Uint8ClampedArray;
+}
+
+export const createPixelBuffer = (width: number, height: number): PixelBuffer => ({
+  width,
+  height,
+  data: new Uint8ClampedArray(width * height * 4),
+});
+
+export const clonePixelBuffer = (buffer: PixelBuffer): PixelBuffer => ({
+  width: buffer.width,
+  height: buffer.height,
+  data: new Uint8ClampedArray(buffer.data),
+});
+
+export const loadImage = (src: string): Promise<HTMLImageElement> => {
+  return new Promise((resolve, reject) => {
+    const img = new Image();
+    img.crossOrigin = "Anonymous";
+    img.onload = () => resolve(img);
+    img.onerror = reject;
+    img.src = src;
+  });
+};
+
+export const createCanvas = (width: number, height: number) => {
+  const canvas = document.createElement('canvas');
+  canvas.width = width;
+  canvas.height = height;
+  const ctx = canvas.getContext('2d');
+  if (!ctx) throw new Error("Canvas 2D context is not available");
+  ctx.imageSmoothingEnabled = false;
+  return { canvas, ctx };
+};
+
+export const getPixelBuffer = async (src: string): Promise<PixelBuffer> => {
+  const img = await loadImage(src);
+  const { ctx } = createCanvas(img.width, img.height);
+  ctx.drawImage(img, 0, 0);
+  return ctx.getImageData(0, 0, img.width, img.height);
+};
+
+export const pixelBufferToCanvas = (buffer: PixelBuffer): HTMLCanvasElement => {
+  const { canvas, ctx } = createCanvas(buffer.width, buffer.height);
+  ctx.putImageData(new ImageData(new Uint8ClampedArray(buffer.data), buffer.width, buffer.height), 0, 0);
+  return canvas;
+};
+
+export const pixelBufferToDataUrl = (buffer: PixelBuffer): string => {
+  return pixelBufferToCanvas(buffer).toDataURL('image/png');
+};
+
+/** Decodes a base64 data URL into raw bytes. */
+export const dataUrlToBytes = (dataUrl: string): Uint8Array => {
+  const binary = atob(dataUrl.slice(dataUrl.indexOf(',') + 1));
+  const bytes = new Uint8Array(binary.length);
+  for (let i = 0; i < binary.length; i++) bytes[i] = binary.charCodeAt(i);
+  return bytes;
+};
+
+/** Mirrors the buffer left to right. */
+export const flipPixelBufferHorizontal = (buffer: PixelBuffer): PixelBuffer => {
+  const result = createPixelBuffer(buffer.width, buffer.height);
+  for (let y = 0; y < buffer.height; y++) {
+    for (let x = 0; x < buffer.width; x++) {
+      const src = (y * buffer.width + x) * 4;
+      result.data.set(buffer.data.subarray(src, src + 4), (y * buffer.width + buffer.width - 1 - x) * 4);
+    }
+  }
+  return result;
+};
+
+export const flipImageHorizontal = async (imageUrl: string): Promise<string> =>
+  pixelBufferToDataUrl(flipPixelBufferHorizontal(await getPixelBuffer(imageUrl)));
+
+/** Nearest-neighbour resample to any size, e.g. to shrink a render that never got snapped to its pixel grid. */
+export const resamplePixelBuffer = (buffer: PixelBuffer, width: number, height: number): PixelBuffer => {
+  if (width === buffer.width && height === buffer.height) return buffer;
+  const result = createPixelBuffer(width, height);
+  for (let y = 0; y < height; y++) {
+    const srcRow = Math.min(buffer.height - 1, Math.floor(((y + 0.5) * buffer.height) / height)) * buffer.width;
+    for (let x = 0; x < width; x++) {
+      const src = (srcRow + Math.min(buffer.width - 1, Math.floor(((x + 0.5) * buffer.width) / width))) * 4;
+      result.data.set(buffer.data.subarray(src, src + 4), (y * width + x) * 4);
+    }
+  }
+  return result;
+};
+
+/** Nearest-neighbour integer upscale, keeping every pixel a crisp block. */
+export const scalePixelBuffer = (buffer: PixelBuffer, scale: number): PixelBuffer => {
+  const factor = Math.max(1, Math.floor(scale));
+  if (factor === 1) return buffer;
+  const result = createPixelBuffer(buffer.width * factor, buffer.height * factor);
+  for (let y = 0; y < result.height; y++) {
+    const srcRow = Math.floor(y / factor) * buffer.width;
+    for (let x = 0; x < result.width; x++) {
+      const src = (srcRow + Math.floor(x / factor)) * 4;
+      result.data.set(buffer.data.subarray(src, src + 4), (y * result.width + x) * 4);
+    }
+  }
+  return result;
+};
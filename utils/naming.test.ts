@@ -0,0 +1,16 @@
+import { describe, expect, it } from 'vitest';
+import { slugify, uniqueName } from './naming';
+
+describe('slugify', () => {
+  it('lowercases and joins words with underscores', () => {
+    expect(slugify('  Iron Sword!! (v2) ')).toBe('iron_sword_v2');
+  });
+});
+
+describe('uniqueName', () => {
+  it('skips suffixes that are taken as well', () => {
+    const taken = new Set(['a', 'a_1']);
+    expect(['a', 'a', 'b'].map(name => uniqueName(name, taken))).toEqual(['a_2', 'a_3', 'b']);
+    expect(taken.has('a_3')).toBe(true);
+  });
+});
@@ -0,0 +1,15 @@
+// File and tag names shared by the exporters: sheet frames, batch jobs and animation actions.
+
+export const slugify = (text: string) =>
+  text.toLowerCase().replace(/[^a-z0-9]+/g, '_').replace(/^_+|_+$/g, '').slice(0, 32);
+
+/**
+ * Returns base, or the first of base_1, base_2... that is not taken, and marks it taken.
+ * Suffixes are checked against every taken name, so "a", "a", "a_1" can't end up with two "a_1".
+ */
+export const uniqueName = (base: string, taken: Set<string>): string => {
+  let name = base;
+  for (let n = 1; taken.has(name); n++) name = `${base}_${n}`;
+  taken.add(name);
+  return name;
+};
@@ -0,0 +1,160 @@
+import { ArtStyle } from '../types';
+import { PixelBuffer, clonePixelBuffer, getPixelBuffer, pixelBufferToDataUrl } from './imageData';
+
+export interface Palette {
+  id: string;
+  name: string;
+  colors: string[]; // '#RRGGBB'
+}
+
+export interface QuantizeOptions {
+  dither: boolean;
+}
+
+type RGB = [number, number, number];
+
+export const PALETTE_NONE = 'none';
+export const PALETTE_AUTO = 'auto';
+
+export const BUILT_IN_PALETTES: Palette[] = [
+  {
+    id: 'pico8',
+    name: 'PICO-8',
+    colors: [
+      '#000000', '#1D2B53', '#7E2553', '#008751', '#AB5236', '#5F574F', '#C2C3C7', '#FFF1E8',
+      '#FF004D', '#FFA300', '#FFEC27', '#00E436', '#29ADFF', '#83769C', '#FF77A8', '#FFCCAA',
+    ],
+  },
+  {
+    id: 'nes',
+    name: 'NES',
+    colors: [
+      '#7C7C7C', '#0000FC', '#0000BC', '#4428BC', '#940084', '#A80020', '#A81000', '#881400',
+      '#503000', '#007800', '#006800', '#005800', '#004058', '#000000', '#BCBCBC', '#0078F8',
+      '#0058F8', '#6844FC', '#D800CC', '#E40058', '#F83800', '#E45C10', '#AC7C00', '#00B800',
+      '#00A800', '#00A844', '#008888', '#F8F8F8', '#3CBCFC', '#6888FC', '#9878F8', '#F878F8',
+      '#F85898', '#F87858', '#FCA044', '#F8B800', '#B8F818', '#58D854', '#58F898', '#00E8D8',
+      '#787878', '#FCFCFC', '#A4E4FC', '#B8B8F8', '#D8B8F8', '#F8B8F8', '#F8A4C0', '#F0D0B0',
+      '#FCE0A8', '#F8D878', '#D8F878', '#B8F8B8', '#B8F8D8', '#00FCFC', '#F8D8F8',
+    ],
+  },
+  {
+    id: 'gameboy',
+    name: 'Game Boy',
+    colors: ['#0F380F', '#306230', '#8BAC0F', '#9BBC0F'],
+  },
+  {
+    id: 'noir',
+    name: 'Noir (4 Gray)',
+    colors: ['#000000', '#555555', '#AAAAAA', '#FFFFFF'],
+  },
+];
+
+// Styles whose look is defined by a fixed hardware palette.
+export const STYLE_PALETTES: Partial<Record<ArtStyle, string>> = {
+  [ArtStyle.PICO8]: 'pico8',
+  [ArtStyle.RETRO_8BIT]: 'nes',
+  [ArtStyle.GAMEBOY]: 'gameboy',
+  [ArtStyle.NOIR]: 'noir',
+};
+
+// 4x4 Bayer matrix, values 0-15.
+const BAYER_4X4 = [
+  [0, 8, 2, 10],
+  [12, 4, 14, 6],
+  [3, 11, 1, 9],
+  [15, 7, 13, 5],
+];
+
+/**
+ * Resolves the palette selection ('auto', 'none' or a palette id) to a palette.
+ * 'auto' follows the current style, e.g. PICO-8 style locks to the PICO-8 palette.
+ */
+export const resolvePalette = (selection: string, style: ArtStyle, customPalettes: Palette[]): Palette | null => {
+  if (selection === PALETTE_NONE) return null;
+  const id = selection === PALETTE_AUTO ? STYLE_PALETTES[style] : selection;
+  if (!id) return null;
+  return [...BUILT_IN_PALETTES, ...customPalettes].find(p => p.id === id) ?? null;
+};
+
+export const hexToRgb = (hex: string): RGB => {
+  const value = parseInt(hex.replace('#', ''), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+};
+
+/** Pulls every #RRGGBB / RRGGBB code out of free-form text (one per line, comma separated, ...). */
+export const parsePaletteText = (text: string): string[] => {
+  const matches = text.match(/#?\b[0-9a-fA-F]{6}\b/g) || [];
+  const colors = matches.map(m => `#${m.replace('#', '').toUpperCase()}`);
+  return Array.from(new Set(colors));
+};
+
+// Weighted distance that tracks perceived difference better than plain RGB.
+const colorDistance = (r: number, g: number, b: number, c: RGB) => {
+  const rMean = (r + c[0]) / 2;
+  const dr = r - c[0];
+  const dg = g - c[1];
+  const db = b - c[2];
+  return (2 + rMean / 256) * dr * dr + 4 * dg * dg + (2 + (255 - rMean) / 256) * db * db;
+};
+
+/**
+ * Maps every opaque pixel to the nearest palette colour. Alpha is snapped to
+ * fully opaque or fully transparent since retro palettes have no translucency.
+ */
+export const quantizeToPalette = (source: PixelBuffer, palette: Palette, options: QuantizeOptions): PixelBuffer => {
+  const colors = palette.colors.map(hexToRgb);
+  const result = clonePixelBuffer(source);
+  if (colors.length === 0) return result;
+
+  const { width, data } = result;
+  // Spread the dither threshold over roughly the gap between palette entries.
+  const ditherStrength = 256 / Math.max(2, Math.cbrt(colors.length));
+  const cache = new Map<number, RGB>();
+
+  const nearest = (r: number, g: number, b: number): RGB => {
+    const key = (r << 16) | (g << 8) | b;
+    const cached = cache.get(key);
+    if (cached) return cached;
+    let best = colors[0];
+    let bestDistance = Infinity;
+    for (const c of colors) {
+      const d = colorDistance(r, g, b, c);
+      if (d < bestDistance) {
+        bestDistance = d;
+        best = c;
+      }
+    }
+    cache.set(key, best);
+    return best;
+  };
+
+  for (let i = 0; i < data.length; i += 4) {
+    if (data[i + 3] < 128) {
+      data[i] = data[i + 1] = data[i + 2] = data[i + 3] = 0;
+      continue;
+    }
+    let r = data[i];
+    let g = data[i + 1];
+    let b = data[i + 2];
+    if (options.dither) {
+      const p = i / 4;
+      const offset = (BAYER_4X4[Math.floor(p / width) % 4][p % width % 4] / 16 - 0.5) * ditherStrength;
+      r = Math.max(0, Math.min(255, Math.round(r + offset)));
+      g = Math.max(0, Math.min(255, Math.round(g + offset)));
+      b = Math.max(0, Math.min(255, Math.round(b + offset)));
+    }
+    const c = nearest(r, g, b);
+    data[i] = c[0];
+    data[i + 1] = c[1];
+    data[i + 2] = c[2];
+    data[i + 3] = 255;
+  }
+
+  return result;
+};
+
+export const quantizeImage = async (imageUrl: string, palette: Palette, options: QuantizeOptions): Promise<string> => {
+  const source = await getPixelBuffer(imageUrl);
+  return pixelBufferToDataUrl(quantizeToPalette(source, palette, options));
+};
@@ -0,0 +1,301 @@
+import { SpriteSize } from '../types';
+import { PixelBuffer, createPixelBuffer, getPixelBuffer, pixelBufferToDataUrl } from './imageData';
+
+// Image models return ~1024px renders made of blurry "fake pixels". These
+// helpers recover the underlying grid and resample to the real sprite size.
+
+export interface PixelGrid {
+  cellWidth: number;
+  cellHeight: number;
+  offsetX: number;
+  offsetY: number;
+}
+
+interface PeriodMatch {
+  period: number;
+  phase: number;
+  /** Edge energy on the grid lines above what evenly spread edges would give. */
+  excess: number;
+  /** Mean edge strength on the grid lines relative to the overall mean. */
+  contrast: number;
+}
+
+type RGBA = [number, number, number, number];
+
+const MIN_PERIOD = 2;
+const PERIOD_STEP = 0.1;
+const PHASE_STEP = 0.5;
+// A multiple of the best period wins if it keeps this share of the edge energy.
+const HARMONIC_TOLERANCE = 0.9;
+// Grid lines must be this many times "edgier" than the average column/row.
+const MIN_GRID_CONTRAST = 1.5;
+// Colour distance under which a cell is considered background.
+const BACKGROUND_TOLERANCE = 48;
+
+export const spriteSizeToPixels = (size: SpriteSize): number => parseInt(size, 10);
+
+const pixelDiff = (data: Uint8ClampedArray, a: number, b: number) =>
+  Math.abs(data[a] - data[b]) +
+  Math.abs(data[a + 1] - data[b + 1]) +
+  Math.abs(data[a + 2] - data[b + 2]) +
+  Math.abs(data[a + 3] - data[b + 3]);
+
+/** Sum of colour changes across each vertical (axis 'x') or horizontal (axis 'y') boundary. */
+const edgeProfile = (buffer: PixelBuffer, axis: 'x' | 'y'): Float64Array => {
+  const { width, height, data } = buffer;
+  const length = axis === 'x' ? width : height;
+  const profile = new Float64Array(length);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const i = (y * width + x) * 4;
+      if (axis === 'x' && x > 0) profile[x] += pixelDiff(data, i, i - 4);
+      if (axis === 'y' && y > 0) profile[y] += pixelDiff(data, i, i - width * 4);
+    }
+  }
+  return profile;
+};
+
+/**
+ * Finds the period whose lines capture the most edge energy above the mean.
+ * Multiples of the true period miss half the lines, so they score clearly
+ * lower. Fractions of it only add lines on flat colour, which can score about
+ * the same on noisy renders, so a multiple that keeps nearly all of the best
+ * score is preferred.
+ */
+const findPeriod = (profile: Float64Array): PeriodMatch | null => {
+  const length = profile.length;
+  let total = 0;
+  for (let i = 1; i < length; i++) total += profile[i];
+  const mean = total / Math.max(1, length - 1);
+  if (mean === 0) return null;
+
+  const maxPeriod = Math.max(MIN_PERIOD, length / 8);
+  const candidates: PeriodMatch[] = [];
+  for (let step = 0; MIN_PERIOD + step * PERIOD_STEP <= maxPeriod; step++) {
+    const period = MIN_PERIOD + step * PERIOD_STEP;
+    let best: PeriodMatch | null = null;
+    for (let phase = 0; phase < period; phase += PHASE_STEP) {
+      let sum = 0;
+      let count = 0;
+      for (let pos = phase; pos < length; pos += period) {
+        const index = Math.round(pos);
+        if (index <= 0 || index >= length) continue;
+        sum += profile[index];
+        count++;
+      }
+      if (count < 2) continue;
+      const excess = sum - count * mean;
+      if (!best || excess > best.excess) {
+        best = { period, phase, excess, contrast: sum / count / mean };
+      }
+    }
+    candidates.push(best ?? { period, phase: 0, excess: -Infinity, contrast: 0 });
+  }
+  if (candidates.length === 0) return null;
+
+  let best = candidates.reduce((a, b) => (b.excess > a.excess ? b : a));
+  const base = best;
+  for (let k = 2; base.period * k <= maxPeriod; k++) {
+    const step = Math.round((base.period * k - MIN_PERIOD) / PERIOD_STEP);
+    const multiple = candidates[step];
+    if (multiple && multiple.excess >= base.excess * HARMONIC_TOLERANCE) best = multiple;
+  }
+
+  return best.contrast >= MIN_GRID_CONTRAST ? best : null;
+};
+
+/** Detects the size and alignment of the "fake pixel" cells, or null if the image has no clear grid. */
+export const detectPixelGrid = (buffer: PixelBuffer): PixelGrid | null => {
+  const horizontal = findPeriod(edgeProfile(buffer, 'x'));
+  const vertical = findPeriod(edgeProfile(buffer, 'y'));
+  if (!horizontal && !vertical) return null;
+
+  // Fake pixels are square, so borrow the other axis when one is inconclusive.
+  const cellWidth = horizontal?.period ?? vertical!.period;
+  const cellHeight = vertical?.period ?? horizontal!.period;
+  return {
+    cellWidth,
+    cellHeight,
+    offsetX: horizontal ? horizontal.phase : 0,
+    offsetY: vertical ? vertical.phase : 0,
+  };
+};
+
+const bucketKey = (data: Uint8ClampedArray, i: number) =>
+  ((data[i] >> 4) << 12) | ((data[i + 1] >> 4) << 8) | ((data[i + 2] >> 4) << 4) | (data[i + 3] >> 4);
+
+/** Most frequent colour (by 4-bit bucket, averaged within the bucket) of a region. */
+const modeColor = (buffer: PixelBuffer, x0: number, y0: number, x1: number, y1: number): RGBA => {
+  const { width, data } = buffer;
+  const buckets = new Map<number, number[]>();
+  let winner: number[] | null = null;
+  for (let y = y0; y < y1; y++) {
+    for (let x = x0; x < x1; x++) {
+      const i = (y * width + x) * 4;
+      const key = bucketKey(data, i);
+      let bucket = buckets.get(key);
+      if (!bucket) {
+        bucket = [0, 0, 0, 0, 0];
+        buckets.set(key, bucket);
+      }
+      bucket[0]++;
+      bucket[1] += data[i];
+      bucket[2] += data[i + 1];
+      bucket[3] += data[i + 2];
+      bucket[4] += data[i + 3];
+      if (!winner || bucket[0] > winner[0]) winner = bucket;
+    }
+  }
+  if (!winner) return [0, 0, 0, 0];
+  const n = winner[0];
+  return [winner[1] / n, winner[2] / n, winner[3] / n, winner[4] / n].map(Math.round) as RGBA;
+};
+
+/** Samples `cols` x `rows` cells starting at (x, y), taking the dominant colour of each cell's centre. */
+const sampleCells = (
+  source: PixelBuffer,
+  x: number,
+  y: number,
+  cellWidth: number,
+  cellHeight: number,
+  cols: number,
+  rows: number
+): PixelBuffer => {
+  const result = createPixelBuffer(cols, rows);
+  for (let row = 0; row < rows; row++) {
+    for (let col = 0; col < cols; col++) {
+      // Ignore the outer quarter of each cell where neighbouring cells bleed in.
+      const left = x + col * cellWidth;
+      const top = y + row * cellHeight;
+      const x0 = Math.max(0, Math.floor(left + cellWidth * 0.25));
+      const y0 = Math.max(0, Math.floor(top + cellHeight * 0.25));
+      const x1 = Math.min(source.width, Math.max(x0 + 1, Math.ceil(left + cellWidth * 0.75)));
+      const y1 = Math.min(source.height, Math.max(y0 + 1, Math.ceil(top + cellHeight * 0.75)));
+      result.data.set(modeColor(source, x0, y0, x1, y1), (row * cols + col) * 4);
+    }
+  }
+  return result;
+};
+
+/** Dominant colour along the image border, assumed to be the background. */
+const detectBackground = (buffer: PixelBuffer): RGBA => {
+  const { width, height } = buffer;
+  const border: PixelBuffer = createPixelBuffer(2 * (width + height), 1);
+  let n = 0;
+  const copy = (x: number, y: number) => {
+    border.data.set(buffer.data.subarray((y * width + x) * 4, (y * width + x) * 4 + 4), n * 4);
+    n++;
+  };
+  for (let x = 0; x < width; x++) { copy(x, 0); copy(x, height - 1); }
+  for (let y = 0; y < height; y++) { copy(0, y); copy(width - 1, y); }
+  return modeColor(border, 0, 0, n, 1);
+};
+
+/** Whether the pixel at byte offset i matches bg, or is transparent like a transparent bg. */
+export const isBackground = (data: Uint8ClampedArray, i: number, bg: ArrayLike<number>) => {
+  if (bg[3] < 128) return data[i + 3] < 128;
+  if (data[i + 3] < 128) return true;
+  return Math.abs(data[i] - bg[0]) + Math.abs(data[i + 1] - bg[1]) + Math.abs(data[i + 2] - bg[2]) <= BACKGROUND_TOLERANCE;
+};
+
+const contentBounds = (buffer: PixelBuffer, bg: RGBA) => {
+  const { width, height, data } = buffer;
+  let minX = width, minY = height, maxX = -1, maxY = -1;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (isBackground(data, (y * width + x) * 4, bg)) continue;
+      minX = Math.min(minX, x);
+      maxX = Math.max(maxX, x);
+      minY = Math.min(minY, y);
+      maxY = Math.max(maxY, y);
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width, height };
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+const crop = (buffer: PixelBuffer, x: number, y: number, width: number, height: number): PixelBuffer => {
+  const result = createPixelBuffer(width, height);
+  for (let row = 0; row < height; row++) {
+    const start = ((y + row) * buffer.width + x) * 4;
+    result.data.set(buffer.data.subarray(start, start + width * 4), row * width * 4);
+  }
+  return result;
+};
+
+/** Centres `buffer` on a `size` x `size` canvas filled with the background colour. */
+const padToSquare = (buffer: PixelBuffer, size: number, bg: RGBA): PixelBuffer => {
+  const result = createPixelBuffer(size, size);
+  for (let i = 0; i < result.data.length; i += 4) result.data.set(bg, i);
+  const offsetX = Math.floor((size - buffer.width) / 2);
+  const offsetY = Math.floor((size - buffer.height) / 2);
+  for (let row = 0; row < buffer.height; row++) {
+    const start = row * buffer.width * 4;
+    result.data.set(buffer.data.subarray(start, start + buffer.width * 4), ((offsetY + row) * size + offsetX) * 4);
+  }
+  return result;
+};
+
+const fits = (buffer: PixelBuffer, size: number) => buffer.width <= size && buffer.height <= size;
+
+/**
+ * Resamples an upscaled render to exactly `size` x `size` real pixels.
+ * Uses the detected fake-pixel grid when it fits the target, trims empty
+ * background if that is what it takes to fit, and otherwise falls back to
+ * sampling the subject's bounding box with a cell size that does.
+ */
+export const downsampleToPixelGrid = (source: PixelBuffer, size: number): PixelBuffer => {
+  if (source.width === size && source.height === size) return source;
+
+  const bg = detectBackground(source);
+  const grid = detectPixelGrid(source);
+
+  if (grid) {
+    const cols = Math.floor((source.width - grid.offsetX) / grid.cellWidth);
+    const rows = Math.floor((source.height - grid.offsetY) / grid.cellHeight);
+    if (cols > 0 && rows > 0) {
+      const sampled = sampleCells(source, grid.offsetX, grid.offsetY, grid.cellWidth, grid.cellHeight, cols, rows);
+      if (fits(sampled, size)) return padToSquare(sampled, size, bg);
+
+      const bounds = contentBounds(sampled, bg);
+      if (bounds.width <= size && bounds.height <= size) {
+        return padToSquare(crop(sampled, bounds.x, bounds.y, bounds.width, bounds.height), size, bg);
+      }
+    }
+  }
+
+  const bounds = contentBounds(source, bg);
+  const cell = Math.max(bounds.width, bounds.height) / size;
+  const cols = Math.min(size, Math.max(1, Math.round(bounds.width / cell)));
+  const rows = Math.min(size, Math.max(1, Math.round(bounds.height / cell)));
+  const sampled = sampleCells(source, bounds.x, bounds.y, cell, cell, cols, rows);
+  return padToSquare(sampled, size, bg);
+};
+
+export const enforceSpriteSize = (imageUrl: string, size: SpriteSize): Promise<string> =>
+  enforcePixelSize(imageUrl, spriteSizeToPixels(size));
+
+/** Like enforceSpriteSize for any square size, e.g. to match an existing sprite. */
+export const enforcePixelSize = async (imageUrl: string, pixels: number): Promise<string> => {
+  const source = await getPixelBuffer(imageUrl);
+  return pixelBufferToDataUrl(downsampleToPixelGrid(source, pixels));
+};
+
+/**
+ * Resamples a render to its native resolution when a fake-pixel grid is
+ * detected, for outputs like tiles that have no fixed target size.
+ */
+export const snapToPixelGrid = (source: PixelBuffer): PixelBuffer => {
+  const grid = detectPixelGrid(source);
+  if (!grid) return source;
+  const cols = Math.floor((source.width - grid.offsetX) / grid.cellWidth);
+  const rows = Math.floor((source.height - grid.offsetY) / grid.cellHeight);
+  if (cols <= 0 || rows <= 0) return source;
+  return sampleCells(source, grid.offsetX, grid.offsetY, grid.cellWidth, grid.cellHeight, cols, rows);
+};
+
+export const snapImageToPixelGrid = async (imageUrl: string): Promise<string> => {
+  const source = await getPixelBuffer(imageUrl);
+  const snapped = snapToPixelGrid(source);
+  return snapped === source ? imageUrl : pixelBufferToDataUrl(snapped);
+};
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from './imageData';
+import { blendCenterSeams, isSeamless, measureSeams, offsetByHalf, repairSeams, restoreEdges } from './seamlessTile';
+
+// Grey tile whose columns take the given values, identical on every row
+const columnsTile = (values: number[], height = 4) => {
+  const tile = createPixelBuffer(values.length, height);
+  for (let y = 0; y < height; y++) {
+    values.forEach((v, x) => tile.data.set([v, v, v, 255], (y * values.length + x) * 4));
+  }
+  return tile;
+};
+
+const GRADIENT = [0, 16, 32, 48, 64, 80, 96, 112];
+
+describe('measureSeams', () => {
+  it('flags a gradient that jumps back at the wrap', () => {
+    const report = measureSeams(columnsTile(GRADIENT));
+    expect(report.wrapX).toBe(112);
+    expect(report.interiorX).toBe(16);
+    expect(report.wrapY).toBe(0);
+    expect(isSeamless(report)).toBe(false);
+  });
+
+  it('accepts a pattern that wraps around smoothly', () => {
+    const report = measureSeams(columnsTile([0, 16, 32, 48, 64, 48, 32, 16]));
+    expect(report.score).toBe(1);
+    expect(isSeamless(report)).toBe(true);
+  });
+});
+
+describe('offsetByHalf', () => {
+  it('moves the seam into the middle so the edges wrap', () => {
+    const shifted = offsetByHalf(columnsTile(GRADIENT));
+    expect(Array.from({ length: 8 }, (_, x) => shifted.data[x * 4])).toEqual([64, 80, 96, 112, 0, 16, 32, 48]);
+    expect(measureSeams(shifted).wrapX).toBe(16);
+  });
+});
+
+describe('blendCenterSeams', () => {
+  it('softens the step across the middle', () => {
+    const shifted = offsetByHalf(columnsTile(GRADIENT));
+    const blended = blendCenterSeams(shifted, 2);
+    expect(Math.abs(blended.data[4 * 4] - blended.data[3 * 4])).toBeLessThan(40);
+    expect(blended.data[0]).toBe(64); // Edges stay untouched
+  });
+
+  it('is what repairSeams does after the offset', () => {
+    const tile = columnsTile(GRADIENT);
+    expect(repairSeams(tile, 2).data).toEqual(blendCenterSeams(offsetByHalf(tile), 2).data);
+  });
+});
+
+describe('restoreEdges', () => {
+  it('copies only the border band', () => {
+    const tile = columnsTile(new Array(6).fill(200), 6);
+    const edges = columnsTile(new Array(6).fill(10), 6);
+    const restored = restoreEdges(tile, edges, 1);
+    expect([restored.data[0], restored.data[(1 * 6 + 1) * 4], restored.data[(5 * 6 + 3) * 4]]).toEqual([10, 200, 10]);
+  });
+});
@@ -0,0 +1,123 @@
+import { PixelBuffer, clonePixelBuffer, createPixelBuffer } from './imageData';
+
+// Seamless textures have to wrap: the right edge continues into the left one and the
+// bottom into the top. Models often get close but leave a visible seam, so these
+// helpers measure the wrap and repair it.
+
+export interface SeamReport {
+  wrapX: number; // Mean colour step from the right edge back to the left one (0-255)
+  wrapY: number; // Same for bottom to top
+  interiorX: number; // Mean step between horizontal neighbours inside the tile
+  interiorY: number; // Same for vertical neighbours
+  score: number; // Worst wrap step relative to the interior steps along the same axis; about 1 when invisible
+}
+
+// Seams whose step is this many times the usual neighbour step are visible when tiled.
+export const SEAM_THRESHOLD = 1.5;
+
+export const SEAM_REPAIR_INSTRUCTION =
+  'Repair the visible seam lines that cross the middle of this texture horizontally and vertically so the pattern continues smoothly through them. ' +
+  'Do not change the outer edges of the image, keep the same colours and texture details.';
+
+/** Mean of |dr| + |dg| + |db| over three, between pixels `a` and `b` (byte offsets). */
+const step = (data: Uint8ClampedArray, a: number, b: number) =>
+  (Math.abs(data[a] - data[b]) + Math.abs(data[a + 1] - data[b + 1]) + Math.abs(data[a + 2] - data[b + 2])) / 3;
+
+export const measureSeams = (tile: PixelBuffer): SeamReport => {
+  const { width, height, data } = tile;
+  const at = (x: number, y: number) => (y * width + x) * 4;
+
+  let wrapX = 0;
+  for (let y = 0; y < height; y++) wrapX += step(data, at(width - 1, y), at(0, y));
+  let wrapY = 0;
+  for (let x = 0; x < width; x++) wrapY += step(data, at(x, height - 1), at(x, 0));
+
+  let interiorX = 0;
+  let interiorY = 0;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x + 1 < width) interiorX += step(data, at(x, y), at(x + 1, y));
+      if (y + 1 < height) interiorY += step(data, at(x, y), at(x, y + 1));
+    }
+  }
+
+  const report = {
+    wrapX: wrapX / height,
+    wrapY: wrapY / width,
+    interiorX: width > 1 ? interiorX / ((width - 1) * height) : 0,
+    interiorY: height > 1 ? interiorY / (width * (height - 1)) : 0,
+  };
+  // Flat textures have almost no interior steps, so allow one level of slack
+  const score = Math.max(report.wrapX / Math.max(report.interiorX, 1), report.wrapY / Math.max(report.interiorY, 1));
+  return { ...report, score };
+};
+
+export const isSeamless = (report: SeamReport) => report.score <= SEAM_THRESHOLD;
+
+/**
+ * Wraps the tile around by half its size. The old edges meet in a cross through the
+ * middle, and the new edges are former interior lines, so they wrap by construction.
+ */
+export const offsetByHalf = (tile: PixelBuffer): PixelBuffer => {
+  const { width, height } = tile;
+  const result = createPixelBuffer(width, height);
+  const dx = Math.floor(width / 2);
+  const dy = Math.floor(height / 2);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      const src = (y * width + x) * 4;
+      result.data.set(tile.data.subarray(src, src + 4), (((y + dy) % height) * width + ((x + dx) % width)) * 4);
+    }
+  }
+  return result;
+};
+
+/**
+ * Cross-fades each pixel within `radius` of the middle cross with its mirror image on
+ * the other side, strongest at the seam, so the seams left by offsetByHalf disappear.
+ */
+export const blendCenterSeams = (tile: PixelBuffer, radius: number): PixelBuffer => {
+  const { width, height } = tile;
+  const r = Math.max(1, Math.min(Math.floor(radius), Math.floor(width / 2), Math.floor(height / 2)));
+
+  const blendAxis = (source: PixelBuffer, axis: 'x' | 'y') => {
+    const result = clonePixelBuffer(source);
+    const seam = Math.floor((axis === 'x' ? width : height) / 2); // Seam lies between seam - 1 and seam
+    for (let y = 0; y < height; y++) {
+      for (let x = 0; x < width; x++) {
+        const pos = axis === 'x' ? x : y;
+        const distance = pos < seam ? seam - pos - 0.5 : pos - seam + 0.5;
+        if (distance >= r) continue;
+        const mirror = 2 * seam - 1 - pos;
+        const weight = 0.5 * (1 - distance / r);
+        const i = (y * width + x) * 4;
+        const j = axis === 'x' ? (y * width + mirror) * 4 : (mirror * width + x) * 4;
+        for (let c = 0; c < 4; c++) result.data[i + c] = Math.round(source.data[i + c] * (1 - weight) + source.data[j + c] * weight);
+      }
+    }
+    return result;
+  };
+
+  return blendAxis(blendAxis(tile, 'x'), 'y');
+};
+
+/** Default blend radius: an eighth of the tile, at least one pixel. */
+export const seamBlendRadius = (tile: PixelBuffer) => Math.max(1, Math.round(Math.min(tile.width, tile.height) / 8));
+
+/** Offline repair: offset by half, then blend the seams that moved to the middle. */
+export const repairSeams = (tile: PixelBuffer, radius = seamBlendRadius(tile)): PixelBuffer =>
+  blendCenterSeams(offsetByHalf(tile), radius);
+
+/** Copies a `band` pixel wide border from `edges` onto `tile`, e.g. to keep a model's repair wrapping. */
+export const restoreEdges = (tile: PixelBuffer, edges: PixelBuffer, band: number): PixelBuffer => {
+  const result = clonePixelBuffer(tile);
+  const { width, height } = result;
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      if (x >= band && x < width - band && y >= band && y < height - band) continue;
+      const i = (y * width + x) * 4;
+      result.data.set(edges.data.subarray(i, i + 4), i);
+    }
+  }
+  return result;
+};
@@ -0,0 +1,118 @@
+import { describe, expect, it } from 'vitest';
+import { alignmentPivot, collectAnimationTags, computeGridLayout, findOpaqueBounds, uniqueFrameNames } from './spriteSheet';
+import { createPixelBuffer } from './imageData';
+
+const GRID = { columns: 2, spacing: 0, horizontalAlignment: 'left', verticalAlignment: 'top' } as const;
+
+describe('computeGridLayout', () => {
+  it('sizes every cell to the largest item', () => {
+    const layout = computeGridLayout([{ width: 16, height: 16 }, { width: 32, height: 24 }, { width: 8, height: 8 }], GRID);
+
+    expect(layout.width).toBe(64);
+    expect(layout.height).toBe(48);
+    expect(layout.cells.map(c => c.cell)).toEqual([
+      { x: 0, y: 0, width: 32, height: 24 },
+      { x: 32, y: 0, width: 32, height: 24 },
+      { x: 0, y: 24, width: 32, height: 24 },
+    ]);
+  });
+
+  it('adds spacing between cells but not around the sheet', () => {
+    const layout = computeGridLayout(
+      [{ width: 10, height: 10 }, { width: 10, height: 10 }, { width: 10, height: 10 }],
+      { ...GRID, spacing: 4 }
+    );
+
+    expect(layout.width).toBe(24);
+    expect(layout.height).toBe(24);
+    expect(layout.cells[1].cell.x).toBe(14);
+    expect(layout.cells[2].cell.y).toBe(14);
+  });
+
+  it('aligns smaller items inside their cell', () => {
+    const sizes = [{ width: 32, height: 32 }, { width: 11, height: 9 }];
+    const at = (horizontalAlignment: 'left' | 'center' | 'right', verticalAlignment: 'top' | 'center' | 'bottom') =>
+      computeGridLayout(sizes, { ...GRID, horizontalAlignment, verticalAlignment }).cells[1].sprite;
+
+    expect(at('left', 'top')).toEqual({ x: 32, y: 0, width: 11, height: 9 });
+    // Centering rounds down on odd leftovers
+    expect(at('center', 'center')).toEqual({ x: 32 + 10, y: 11, width: 11, height: 9 });
+    expect(at('right', 'bottom')).toEqual({ x: 32 + 21, y: 23, width: 11, height: 9 });
+  });
+
+  it('keeps a single image at its own size regardless of columns and spacing', () => {
+    const layout = computeGridLayout([{ width: 20, height: 12 }], { ...GRID, columns: 4, spacing: 8 });
+    expect(layout.width).toBe(20);
+    expect(layout.height).toBe(12);
+  });
+
+  it('uses the column count for the sheet width even with fewer items', () => {
+    const layout = computeGridLayout([{ width: 16, height: 16 }, { width: 16, height: 16 }], { ...GRID, columns: 4, spacing: 2 });
+    expect(layout.width).toBe(4 * 16 + 3 * 2);
+    expect(layout.height).toBe(16);
+  });
+
+  it('returns an empty layout for no items', () => {
+    expect(computeGridLayout([], GRID)).toEqual({ width: 0, height: 0, cells: [] });
+  });
+
+  it('starts a new row for every tag when rowPerTag is set', () => {
+    const frame = (tag?: string) => ({ width: 8, height: 8, tag });
+    const layout = computeGridLayout(
+      [frame('walk'), frame('walk'), frame('walk'), frame('idle'), frame(), frame(), frame('walk')],
+      { ...GRID, columns: 1, rowPerTag: true }
+    );
+
+    expect(layout.cells.map(c => [c.cell.x / 8, c.cell.y / 8])).toEqual([[0, 0], [1, 0], [2, 0], [0, 1], [0, 2], [1, 2], [0, 3]]);
+    expect(layout.width).toBe(24); // Longest run, not the column setting
+    expect(layout.height).toBe(32);
+  });
+});
+
+describe('alignmentPivot', () => {
+  it('maps alignment to normalised pivots', () => {
+    expect(alignmentPivot('center', 'bottom')).toEqual({ x: 0.5, y: 1 });
+    expect(alignmentPivot('left', 'top')).toEqual({ x: 0, y: 0 });
+    expect(alignmentPivot('right', 'center')).toEqual({ x: 1, y: 0.5 });
+  });
+});
+
+describe('collectAnimationTags', () => {
+  it('groups consecutive items with the same tag', () => {
+    const tags = collectAnimationTags([{ tag: 'walk' }, { tag: 'walk' }, {}, { tag: 'idle' }, { tag: 'idle' }, { tag: 'walk' }]);
+    expect(tags).toEqual([
+      { name: 'walk', from: 0, to: 1 },
+      { name: 'idle', from: 3, to: 4 },
+      { name: 'walk', from: 5, to: 5 },
+    ]);
+  });
+
+  it('ignores blank tags', () => {
+    expect(collectAnimationTags([{ tag: '  ' }, { tag: '' }])).toEqual([]);
+  });
+});
+
+describe('uniqueFrameNames', () => {
+  it('suffixes duplicates and fills in missing names', () => {
+    expect(uniqueFrameNames([{ name: 'slime' }, { name: 'slime' }, { name: '' }, { name: 'slime' }]))
+      .toEqual(['slime', 'slime_1', 'sprite', 'slime_2']);
+  });
+
+  it('never repeats a name that was given explicitly', () => {
+    expect(uniqueFrameNames([{ name: 'slime' }, { name: 'slime' }, { name: 'slime_1' }]))
+      .toEqual(['slime', 'slime_1', 'slime_1_1']);
+  });
+});
+
+describe('findOpaqueBounds', () => {
+  it('returns the bounding box of visible pixels', () => {
+    const buffer = createPixelBuffer(8, 6);
+    buffer.data[(1 * 8 + 2) * 4 + 3] = 255;
+    buffer.data[(4 * 8 + 5) * 4 + 3] = 10;
+    expect(findOpaqueBounds(buffer)).toEqual({ x: 2, y: 1, width: 4, height: 4 });
+  });
+
+  it('keeps a 1x1 rect for fully transparent images', () => {
+    expect(findOpaqueBounds(createPixelBuffer(4, 4))).toEqual({ x: 0, y: 0, width: 1, height: 1 });
+  });
+});
@@ -0,0 +1,274 @@
+import { PixelBuffer, createCanvas, loadImage } from './imageData';
+import { PackOptions, packRects } from './binPacking';
+import { uniqueName } from './naming';
+
+export type HorizontalAlignment = 'left' | 'center' | 'right';
+export type VerticalAlignment = 'top' | 'center' | 'bottom';
+
+export interface SheetItem {
+  src: string;
+  name: string;
+  tag?: string; // Animation the item belongs to, e.g. "walk"
+}
+
+export interface Size {
+  width: number;
+  height: number;
+}
+
+export interface Rect {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+}
+
+export interface GridLayoutOptions {
+  columns: number;
+  spacing: number;
+  horizontalAlignment: HorizontalAlignment;
+  verticalAlignment: VerticalAlignment;
+  rowPerTag?: boolean; // Every run of same-tag items gets its own row; `columns` is then ignored
+}
+
+export interface PackedSheetOptions extends PackOptions {
+  trim: boolean; // Cut away fully transparent borders before packing
+  extrude: number; // Edge pixels repeated around each sprite against texture bleeding
+  pivot: { x: number; y: number };
+}
+
+export interface SheetCell {
+  cell: Rect; // Slot in the grid; every slot has the size of the largest item
+  sprite: Rect; // Where the item is drawn inside its slot
+}
+
+export interface GridLayout {
+  width: number;
+  height: number;
+  cells: SheetCell[];
+}
+
+/** A placed sprite plus everything an engine needs to cut it back out. */
+export interface AtlasFrame {
+  name: string;
+  frame: Rect; // Region on the sheet
+  sourceSize: Size; // Size of the logical frame the region belongs to
+  spriteSourceSize: Rect; // Region's position inside the logical frame
+  trimmed: boolean;
+  pivot: { x: number; y: number }; // Normalised 0-1 within sourceSize
+}
+
+export interface AnimationTag {
+  name: string;
+  from: number;
+  to: number;
+}
+
+export interface AssembledSheet {
+  imageUrl: string;
+  width: number;
+  height: number;
+  frames: AtlasFrame[];
+  tags: AnimationTag[];
+}
+
+/** Grid slot of each item when every tag run starts a new row. */
+const tagRowPositions = (items: { tag?: string }[]) => {
+  let row = 0;
+  let col = 0;
+  return items.map((item, i) => {
+    if (i > 0 && item.tag === items[i - 1].tag) {
+      col++;
+    } else if (i > 0) {
+      row++;
+      col = 0;
+    }
+    return { col, row };
+  });
+};
+
+/**
+ * Grid placement used by the sheet assembler: every cell is as large as the
+ * biggest item, items are aligned inside their cell, and cells are separated
+ * by `spacing` pixels.
+ */
+export const computeGridLayout = (sizes: (Size & { tag?: string })[], options: GridLayoutOptions): GridLayout => {
+  if (sizes.length === 0) return { width: 0, height: 0, cells: [] };
+
+  const maxWidth = Math.max(...sizes.map(s => s.width));
+  const maxHeight = Math.max(...sizes.map(s => s.height));
+  const positions = options.rowPerTag
+    ? tagRowPositions(sizes)
+    : sizes.map((_, i) => ({ col: i % Math.max(1, options.columns), row: Math.floor(i / Math.max(1, options.columns)) }));
+  const cols = options.rowPerTag ? Math.max(...positions.map(p => p.col)) + 1 : Math.max(1, options.columns);
+  const spacing = options.spacing;
+  const rows = positions[positions.length - 1].row + 1;
+
+  let width = cols * maxWidth + (cols - 1) * spacing;
+  let height = rows * maxHeight + (rows - 1) * spacing;
+  // Ensure minimum size if only 1 image and no spacing
+  if (sizes.length === 1) {
+    width = maxWidth;
+    height = maxHeight;
+  }
+
+  const cells = sizes.map((size, i) => {
+    const { col, row } = positions[i];
+    const x = col * (maxWidth + spacing);
+    const y = row * (maxHeight + spacing);
+
+    // Horizontal alignment
+    let xOffset = 0;
+    if (options.horizontalAlignment === 'center') {
+      xOffset = Math.floor((maxWidth - size.width) / 2);
+    } else if (options.horizontalAlignment === 'right') {
+      xOffset = maxWidth - size.width;
+    }
+
+    // Vertical alignment
+    let yOffset = 0;
+    if (options.verticalAlignment === 'center') {
+      yOffset = Math.floor((maxHeight - size.height) / 2);
+    } else if (options.verticalAlignment === 'bottom') {
+      yOffset = maxHeight - size.height;
+    }
+
+    return {
+      cell: { x, y, width: maxWidth, height: maxHeight },
+      sprite: { x: x + xOffset, y: y + yOffset, width: size.width, height: size.height },
+    };
+  });
+
+  return { width, height, cells };
+};
+
+/** The point sprites are aligned to doubles as their pivot. */
+export const alignmentPivot = (horizontal: HorizontalAlignment, vertical: VerticalAlignment) => ({
+  x: horizontal === 'left' ? 0 : horizontal === 'center' ? 0.5 : 1,
+  y: vertical === 'top' ? 0 : vertical === 'center' ? 0.5 : 1,
+});
+
+/** Groups consecutive items sharing a tag into animation ranges. */
+export const collectAnimationTags = (items: { tag?: string }[]): AnimationTag[] => {
+  const tags: AnimationTag[] = [];
+  items.forEach((item, i) => {
+    const name = item.tag?.trim();
+    if (!name) return;
+    const last = tags[tags.length - 1];
+    if (last && last.name === name && last.to === i - 1) {
+      last.to = i;
+    } else {
+      tags.push({ name, from: i, to: i });
+    }
+  });
+  return tags;
+};
+
+/** Frame names must be unique for hash-style atlases; later duplicates get a suffix. */
+export const uniqueFrameNames = (items: { name: string }[]): string[] => {
+  const taken = new Set<string>();
+  return items.map(item => uniqueName(item.name || 'sprite', taken));
+};
+
+export const assembleGridSheet = async (items: SheetItem[], options: GridLayoutOptions): Promise<AssembledSheet> => {
+  const images = await Promise.all(items.map(item => loadImage(item.src)));
+  const layout = computeGridLayout(images.map((img, i) => ({ width: img.width, height: img.height, tag: items[i].tag })), options);
+  const { canvas, ctx } = createCanvas(layout.width, layout.height);
+  images.forEach((img, i) => ctx.drawImage(img, layout.cells[i].sprite.x, layout.cells[i].sprite.y));
+
+  const pivot = alignmentPivot(options.horizontalAlignment, options.verticalAlignment);
+  const names = uniqueFrameNames(items);
+  const frames = layout.cells.map((c, i) => ({
+    name: names[i],
+    frame: c.cell,
+    sourceSize: { width: c.cell.width, height: c.cell.height },
+    spriteSourceSize: { x: 0, y: 0, width: c.cell.width, height: c.cell.height },
+    trimmed: false,
+    pivot,
+  }));
+
+  return {
+    imageUrl: canvas.toDataURL(),
+    width: layout.width,
+    height: layout.height,
+    frames,
+    tags: collectAnimationTags(items),
+  };
+};
+
+/** Bounds of the non-transparent pixels; fully transparent images keep a 1x1 rect. */
+export const findOpaqueBounds = (buffer: PixelBuffer): Rect => {
+  let minX = buffer.width, minY = buffer.height, maxX = -1, maxY = -1;
+  for (let y = 0; y < buffer.height; y++) {
+    for (let x = 0; x < buffer.width; x++) {
+      if (buffer.data[(y * buffer.width + x) * 4 + 3] === 0) continue;
+      if (x < minX) minX = x;
+      if (x > maxX) maxX = x;
+      if (y < minY) minY = y;
+      if (y > maxY) maxY = y;
+    }
+  }
+  if (maxX < 0) return { x: 0, y: 0, width: 1, height: 1 };
+  return { x: minX, y: minY, width: maxX - minX + 1, height: maxY - minY + 1 };
+};
+
+/**
+ * Packs items as tightly as possible instead of on a uniform grid. Frame rects
+ * point at the sprite itself; the extruded border around it is never sampled
+ * by engines but keeps filtering/mipmaps from pulling in neighbours.
+ */
+export const assemblePackedSheet = async (items: SheetItem[], options: PackedSheetOptions): Promise<AssembledSheet> => {
+  const images = await Promise.all(items.map(item => loadImage(item.src)));
+  const sources: Rect[] = images.map(img => {
+    if (!options.trim) return { x: 0, y: 0, width: img.width, height: img.height };
+    const { ctx } = createCanvas(img.width, img.height);
+    ctx.drawImage(img, 0, 0);
+    return findOpaqueBounds(ctx.getImageData(0, 0, img.width, img.height));
+  });
+
+  const extrude = Math.max(0, Math.floor(options.extrude));
+  const packed = packRects(
+    sources.map(r => ({ width: r.width + extrude * 2, height: r.height + extrude * 2 })),
+    options,
+  );
+
+  const { canvas, ctx } = createCanvas(packed.width, packed.height);
+  const frames = images.map((img, i) => {
+    const src = sources[i];
+    const x = packed.positions[i].x + extrude;
+    const y = packed.positions[i].y + extrude;
+    ctx.drawImage(img, src.x, src.y, src.width, src.height, x, y, src.width, src.height);
+
+    if (extrude > 0) {
+      const right = src.x + src.width - 1;
+      const bottom = src.y + src.height - 1;
+      // Edges: stretch the outermost row/column outwards
+      ctx.drawImage(img, src.x, src.y, src.width, 1, x, y - extrude, src.width, extrude);
+      ctx.drawImage(img, src.x, bottom, src.width, 1, x, y + src.height, src.width, extrude);
+      ctx.drawImage(img, src.x, src.y, 1, src.height, x - extrude, y, extrude, src.height);
+      ctx.drawImage(img, right, src.y, 1, src.height, x + src.width, y, extrude, src.height);
+      // Corners: repeat the corner pixel
+      ctx.drawImage(img, src.x, src.y, 1, 1, x - extrude, y - extrude, extrude, extrude);
+      ctx.drawImage(img, right, src.y, 1, 1, x + src.width, y - extrude, extrude, extrude);
+      ctx.drawImage(img, src.x, bottom, 1, 1, x - extrude, y + src.height, extrude, extrude);
+      ctx.drawImage(img, right, bottom, 1, 1, x + src.width, y + src.height, extrude, extrude);
+    }
+
+    return {
+      frame: { x, y, width: src.width, height: src.height },
+      sourceSize: { width: img.width, height: img.height },
+      spriteSourceSize: src,
+      trimmed: src.width !== img.width || src.height !== img.height,
+      pivot: options.pivot,
+    };
+  });
+
+  const names = uniqueFrameNames(items);
+  return {
+    imageUrl: canvas.toDataURL(),
+    width: packed.width,
+    height: packed.height,
+    frames: frames.map((f, i) => ({ name: names[i], ...f })),
+    tags: collectAnimationTags(items),
+  };
+};
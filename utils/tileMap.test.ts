@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from './imageData';
+import { AutotileSet, E, W, WANG_MASKS, autotileIndex } from './autotile';
+import { MapBrush, createTileMap, eraseBrush, paintCell, renderTileMap, resizeTileMap } from './tileMap';
+
+// A Wang set whose tile at index i is a flat grey of level i
+const wangSet = (tileSize: number): AutotileSet => {
+  const image = createPixelBuffer(4 * tileSize, 4 * tileSize);
+  for (let y = 0; y < image.height; y++) {
+    for (let x = 0; x < image.width; x++) {
+      const index = Math.floor(y / tileSize) * 4 + Math.floor(x / tileSize);
+      image.data.set([index, index, index, 255], (y * image.width + x) * 4);
+    }
+  }
+  return { layout: 'wang16', image, masks: WANG_MASKS, columns: 4, tileSize };
+};
+
+const solidTile = (size: number, value: number) => {
+  const tile = createPixelBuffer(size, size);
+  tile.data.fill(value);
+  return tile;
+};
+
+const level = (map: { width: number; data: Uint8ClampedArray }, x: number, y: number) => map.data[(y * map.width + x) * 4];
+
+describe('paintCell', () => {
+  it('returns the same map when the cell already has the brush', () => {
+    const map = paintCell(createTileMap(2, 2), 1, 0, 'a');
+    expect(map.cells).toEqual([null, 'a', null, null]);
+    expect(paintCell(map, 1, 0, 'a')).toBe(map);
+    expect(paintCell(map, 5, 0, 'b')).toBe(map);
+  });
+});
+
+describe('resizeTileMap and eraseBrush', () => {
+  it('keeps cells that fit and clears removed brushes', () => {
+    const map = paintCell(paintCell(createTileMap(2, 2), 0, 0, 'a'), 1, 1, 'b');
+    expect(resizeTileMap(map, 3, 1).cells).toEqual(['a', null, null]);
+    expect(eraseBrush(map, 'b').cells).toEqual(['a', null, null, null]);
+  });
+});
+
+describe('renderTileMap', () => {
+  it('picks autotiles from the neighbouring cells', () => {
+    const brushes: MapBrush[] = [{ id: 'dirt', name: 'dirt', kind: 'autotile', set: wangSet(2) }];
+    const map = [0, 1, 2].reduce((m, x) => paintCell(m, x, 0, 'dirt'), createTileMap(3, 1));
+    const image = renderTileMap(map, brushes);
+    expect([image.width, image.height]).toEqual([6, 2]);
+    expect([level(image, 0, 0), level(image, 2, 0), level(image, 4, 0)])
+      .toEqual([autotileIndex('wang16', E), autotileIndex('wang16', E | W), autotileIndex('wang16', W)]);
+  });
+
+  it('resamples brushes to the cell size and leaves empty cells clear', () => {
+    const brushes: MapBrush[] = [
+      { id: 'a', name: 'a', kind: 'tile', tile: solidTile(2, 50) },
+      { id: 'b', name: 'b', kind: 'tile', tile: solidTile(4, 90) },
+    ];
+    const map = paintCell(createTileMap(3, 1), 1, 0, 'b');
+    const image = renderTileMap(map, brushes);
+    expect(image.width).toBe(6);
+    expect([level(image, 2, 0), level(image, 3, 1)]).toEqual([90, 90]);
+    expect(image.data[3]).toBe(0);
+  });
+});
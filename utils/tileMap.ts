@@ -0,0 +1,112 @@
+import { PixelBuffer, createPixelBuffer, resamplePixelBuffer } from './imageData';
+import { AutotileSet, autotileIndex, neighbourMask } from './autotile';
+
+// A small test map for judging tiles in context. Cells hold the id of the brush painted
+// there; autotile brushes pick their tile from the neighbouring cells when rendered.
+
+export type MapBrush =
+  | { id: string; name: string; kind: 'tile'; tile: PixelBuffer } // Seamless texture, repeated as is
+  | { id: string; name: string; kind: 'autotile'; set: AutotileSet };
+
+export interface TileMap {
+  width: number; // In cells
+  height: number;
+  cells: (string | null)[]; // Brush id per cell, row by row
+}
+
+export const MAP_SIZES: { width: number; height: number }[] = [
+  { width: 8, height: 8 },
+  { width: 16, height: 12 },
+  { width: 24, height: 16 },
+];
+
+const DEFAULT_CELL_SIZE = 16;
+
+export const createTileMap = (width: number, height: number): TileMap => ({
+  width,
+  height,
+  cells: new Array(width * height).fill(null),
+});
+
+/** Returns the same map when nothing changes, so drags over painted cells don't re-render. */
+export const paintCell = (map: TileMap, x: number, y: number, brushId: string | null): TileMap => {
+  if (x < 0 || y < 0 || x >= map.width || y >= map.height) return map;
+  const i = y * map.width + x;
+  if (map.cells[i] === brushId) return map;
+  const cells = map.cells.slice();
+  cells[i] = brushId;
+  return { ...map, cells };
+};
+
+/** Keeps the cells that still fit, anchored top-left. */
+export const resizeTileMap = (map: TileMap, width: number, height: number): TileMap => {
+  const resized = createTileMap(width, height);
+  for (let y = 0; y < Math.min(height, map.height); y++) {
+    for (let x = 0; x < Math.min(width, map.width); x++) resized.cells[y * width + x] = map.cells[y * map.width + x];
+  }
+  return resized;
+};
+
+/** Drops every cell painted with a brush, e.g. after the brush is removed. */
+export const eraseBrush = (map: TileMap, brushId: string): TileMap =>
+  map.cells.includes(brushId) ? { ...map, cells: map.cells.map(c => (c === brushId ? null : c)) } : map;
+
+const brushTileSize = (brush: MapBrush) => (brush.kind === 'tile' ? brush.tile.width : brush.set.tileSize);
+
+/** Cells are as big as the first brush's tiles; the others are resampled to match. */
+export const mapCellSize = (brushes: MapBrush[]) => (brushes.length > 0 ? brushTileSize(brushes[0]) : DEFAULT_CELL_SIZE);
+
+const cropTile = (set: AutotileSet, index: number): PixelBuffer => {
+  const { tileSize, columns, image } = set;
+  const tile = createPixelBuffer(tileSize, tileSize);
+  const left = (index % columns) * tileSize;
+  const top = Math.floor(index / columns) * tileSize;
+  for (let y = 0; y < tileSize; y++) {
+    const src = ((top + y) * image.width + left) * 4;
+    tile.data.set(image.data.subarray(src, src + tileSize * 4), y * tileSize * 4);
+  }
+  return tile;
+};
+
+/** Swatch for the brush list: the texture itself, or the fill tile of an autotile set. */
+export const brushPreview = (brush: MapBrush): PixelBuffer =>
+  brush.kind === 'tile' ? brush.tile : cropTile(brush.set, autotileIndex(brush.set.layout, 0xff));
+
+export const renderTileMap = (map: TileMap, brushes: MapBrush[], cellSize = mapCellSize(brushes)): PixelBuffer => {
+  const result = createPixelBuffer(map.width * cellSize, map.height * cellSize);
+  const byId = new Map(brushes.map(b => [b.id, b]));
+  const cache = new Map<string, PixelBuffer>(); // Resampled tiles by brush and tile index
+
+  const tileFor = (brush: MapBrush, index: number) => {
+    const key = `${brush.id}:${index}`;
+    let tile = cache.get(key);
+    if (!tile) {
+      tile = brush.kind === 'tile' ? brush.tile : cropTile(brush.set, index);
+      if (tile.width !== cellSize || tile.height !== cellSize) tile = resamplePixelBuffer(tile, cellSize, cellSize);
+      cache.set(key, tile);
+    }
+    return tile;
+  };
+
+  for (let y = 0; y < map.height; y++) {
+    for (let x = 0; x < map.width; x++) {
+      const id = map.cells[y * map.width + x];
+      const brush = id ? byId.get(id) : undefined;
+      if (!brush) continue;
+
+      let index = 0;
+      if (brush.kind === 'autotile') {
+        const sameTerrain = (nx: number, ny: number) =>
+          nx >= 0 && ny >= 0 && nx < map.width && ny < map.height && map.cells[ny * map.width + nx] === brush.id;
+        index = autotileIndex(brush.set.layout, neighbourMask(sameTerrain, x, y));
+      }
+
+      const tile = tileFor(brush, index);
+      for (let row = 0; row < cellSize; row++) {
+        result.data.set(tile.data.subarray(row * cellSize * 4, (row + 1) * cellSize * 4), ((y * cellSize + row) * result.width + x * cellSize) * 4);
+      }
+    }
+  }
+
+  return result;
+};
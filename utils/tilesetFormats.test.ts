@@ -0,0 +1,84 @@
+import { describe, expect, it } from 'vitest';
+import { createPixelBuffer } from './imageData';
+import { AutotileSet, BLOB_MASKS, E, N, NE, S, SE, W, WANG_MASKS, autotileIndex, neighbourMask } from './autotile';
+import {
+  describeAutotileSet,
+  describeSingleTile,
+  sampleMapData,
+  serializeGodotTileSet,
+  serializeTiledMap,
+  serializeTiledTileset,
+} from './tilesetFormats';
+
+const autotileSet = (layout: AutotileSet['layout']): AutotileSet => {
+  const masks = layout === 'wang16' ? WANG_MASKS : BLOB_MASKS;
+  const columns = layout === 'wang16' ? 4 : 8;
+  return { layout, image: createPixelBuffer(columns * 16, Math.ceil(masks.length / columns) * 16), masks, columns, tileSize: 16 };
+};
+
+describe('neighbour lookup', () => {
+  it('reads the mask from a terrain grid and picks the tile', () => {
+    const isTerrain = (x: number, y: number) => x >= 0 && x < 2 && y >= 0 && y < 2;
+    expect(neighbourMask(isTerrain, 0, 0)).toBe(E | S | SE);
+    expect(autotileIndex('wang16', N | NE | E)).toBe(3);
+    expect(BLOB_MASKS[autotileIndex('blob47', N | NE | E | W)]).toBe(N | NE | E | W);
+  });
+});
+
+describe('serializeTiledTileset', () => {
+  it('describes the grid and the image', () => {
+    const tsx = serializeTiledTileset(describeSingleTile(32, 32, 'grass', 'grass.png'));
+    expect(tsx).toContain('tilewidth="32" tileheight="32" spacing="0" margin="0" tilecount="1" columns="1"');
+    expect(tsx).toContain('<image source="grass.png" width="32" height="32"/>');
+    expect(tsx).not.toContain('<wangsets>');
+  });
+
+  it('writes a mixed Wang set for blob tiles and an edge set for Wang tiles', () => {
+    const blob = serializeTiledTileset(describeAutotileSet(autotileSet('blob47'), 'dirt', 'dirt.png'));
+    expect(blob).toContain('type="mixed" tile="46"');
+    expect(blob.match(/<wangtile /g)).toHaveLength(47);
+    expect(blob).toContain(`<wangtile tileid="${BLOB_MASKS.indexOf(N | NE | E)}" wangid="1,1,1,0,0,0,0,0"/>`);
+
+    const wang = serializeTiledTileset(describeAutotileSet(autotileSet('wang16'), 'dirt', 'dirt.png'));
+    expect(wang).toContain('type="edge" tile="15"');
+    expect(wang).toContain('<wangtile tileid="3" wangid="1,0,1,0,0,0,0,0"/>'); // Diagonals never match in an edge set
+  });
+});
+
+describe('serializeTiledMap', () => {
+  it('references the tileset and paints the island with matching tiles', () => {
+    const tileset = describeAutotileSet(autotileSet('wang16'), 'dirt', 'dirt.png');
+    const map = JSON.parse(serializeTiledMap(tileset, 'dirt.tsx'));
+    expect(map.tilesets).toEqual([{ firstgid: 1, source: 'dirt.tsx' }]);
+    expect(map.layers[0].data).toHaveLength(map.width * map.height);
+    expect(map.layers[0].data[0]).toBe(0);
+    expect(map.layers[0].data[map.width + 1]).toBe(1 + autotileIndex('wang16', E | S)); // Top-left corner of the island
+  });
+
+  it('covers the map with a seamless tile', () => {
+    expect(new Set(sampleMapData(describeSingleTile(16, 16, 'water', 'water.png')))).toEqual(new Set([1]));
+  });
+});
+
+describe('serializeGodotTileSet', () => {
+  it('sets peering bits towards continuing neighbours', () => {
+    const tres = serializeGodotTileSet(describeAutotileSet(autotileSet('blob47'), 'dirt', 'dirt.png'));
+    const index = BLOB_MASKS.indexOf(E | S | W);
+    const coords = `${index % 8}:${Math.floor(index / 8)}/0`;
+    expect(tres).toContain('[ext_resource type="Texture2D" path="res://dirt.png" id="1_texture"]');
+    expect(tres).toContain('terrain_set_0/mode = 0');
+    expect(tres).toContain(`${coords}/terrains_peering_bit/right_side = 0`);
+    expect(tres).toContain(`${coords}/terrains_peering_bit/left_side = 0`);
+    expect(tres).not.toContain(`${coords}/terrains_peering_bit/top_side = 0`);
+    expect(tres).not.toContain(`${coords}/terrains_peering_bit/bottom_right_corner = 0`);
+  });
+
+  it('matches sides only for Wang sets and has no terrain for single tiles', () => {
+    const wang = serializeGodotTileSet(describeAutotileSet(autotileSet('wang16'), 'dirt', 'dirt.png'));
+    expect(wang).toContain('terrain_set_0/mode = 2');
+    expect(wang).not.toContain('corner');
+    const single = serializeGodotTileSet(describeSingleTile(16, 16, 'water', 'water.png'));
+    expect(single).toContain('0:0/0 = 0');
+    expect(single).not.toContain('terrain');
+  });
+});
@@ -0,0 +1,208 @@
+import { AutotileLayout, AutotileSet, E, N, NE, NW, S, SE, SW, W, autotileIndex, neighbourMask } from './autotile';
+
+// Serialises tile generator results for map editors: a Tiled tileset (.tsx) with a
+// sample map (.tmj) using it, and a Godot 4 TileSet resource (.tres). Autotile sets
+// also carry terrain data so both editors can paint them with neighbour matching.
+
+export interface TilesetDescription {
+  name: string; // Tileset and terrain name
+  imageName: string; // File name of the tileset image inside the bundle
+  imageWidth: number;
+  imageHeight: number;
+  tileWidth: number;
+  tileHeight: number;
+  columns: number;
+  tileCount: number;
+  margin: number; // Pixels around the whole image
+  spacing: number; // Pixels between tiles
+  terrain?: { layout: AutotileLayout; masks: number[] }; // Neighbour mask of each tile, for autotile sets
+}
+
+const TILED_VERSION = '1.10';
+const TILED_EDITOR_VERSION = '1.10.2';
+const TERRAIN_COLOR = '#4caf50';
+const GODOT_TERRAIN_COLOR = 'Color(0.298, 0.686, 0.314, 1)';
+
+// Tiled Wang ids and Godot peering bits, both clockwise from the top
+const SIDES: { bit: number; corner: boolean; godot: string }[] = [
+  { bit: N, corner: false, godot: 'top_side' },
+  { bit: NE, corner: true, godot: 'top_right_corner' },
+  { bit: E, corner: false, godot: 'right_side' },
+  { bit: SE, corner: true, godot: 'bottom_right_corner' },
+  { bit: S, corner: false, godot: 'bottom_side' },
+  { bit: SW, corner: true, godot: 'bottom_left_corner' },
+  { bit: W, corner: false, godot: 'left_side' },
+  { bit: NW, corner: true, godot: 'top_left_corner' },
+];
+
+// Wang sets only match sides; their masks still have diagonals filled in for drawing.
+const matchesCorners = (layout: AutotileLayout) => layout === 'blob47';
+
+export const describeAutotileSet = (set: AutotileSet, name: string, imageName: string): TilesetDescription => ({
+  name,
+  imageName,
+  imageWidth: set.image.width,
+  imageHeight: set.image.height,
+  tileWidth: set.tileSize,
+  tileHeight: set.tileSize,
+  columns: set.columns,
+  tileCount: set.masks.length,
+  margin: 0,
+  spacing: 0,
+  terrain: { layout: set.layout, masks: set.masks },
+});
+
+/** A seamless texture is a tileset of one tile. */
+export const describeSingleTile = (width: number, height: number, name: string, imageName: string): TilesetDescription => ({
+  name,
+  imageName,
+  imageWidth: width,
+  imageHeight: height,
+  tileWidth: width,
+  tileHeight: height,
+  columns: 1,
+  tileCount: 1,
+  margin: 0,
+  spacing: 0,
+});
+
+const escapeXml = (text: string) =>
+  text.replace(/&/g, '&amp;').replace(/</g, '&lt;').replace(/>/g, '&gt;').replace(/"/g, '&quot;');
+
+/** The fully surrounded tile, used as the terrain's icon. */
+const fillTile = (terrain: NonNullable<TilesetDescription['terrain']>) => autotileIndex(terrain.layout, 0xff);
+
+export const serializeTiledTileset = (tileset: TilesetDescription): string => {
+  const lines = [
+    '<?xml version="1.0" encoding="UTF-8"?>',
+    `<tileset version="${TILED_VERSION}" tiledversion="${TILED_EDITOR_VERSION}" name="${escapeXml(tileset.name)}" tilewidth="${tileset.tileWidth}" tileheight="${tileset.tileHeight}" spacing="${tileset.spacing}" margin="${tileset.margin}" tilecount="${tileset.tileCount}" columns="${tileset.columns}">`,
+    ` <image source="${escapeXml(tileset.imageName)}" width="${tileset.imageWidth}" height="${tileset.imageHeight}"/>`,
+  ];
+
+  const { terrain } = tileset;
+  if (terrain) {
+    const corners = matchesCorners(terrain.layout);
+    lines.push(
+      ' <wangsets>',
+      `  <wangset name="${escapeXml(tileset.name)}" type="${corners ? 'mixed' : 'edge'}" tile="${fillTile(terrain)}">`,
+      `   <wangcolor name="${escapeXml(tileset.name)}" color="${TERRAIN_COLOR}" tile="${fillTile(terrain)}" probability="1"/>`,
+      ...terrain.masks.map((mask, id) => {
+        // Colour 1 where the terrain continues, 0 (none) where it ends
+        const wangId = SIDES.map(side => ((side.corner && !corners) || !(mask & side.bit) ? 0 : 1));
+        return `   <wangtile tileid="${id}" wangid="${wangId.join(',')}"/>`;
+      }),
+      '  </wangset>',
+      ' </wangsets>',
+    );
+  }
+
+  lines.push('</tileset>', '');
+  return lines.join('\n');
+};
+
+const SAMPLE_MAP_SIZE = { width: 10, height: 8 };
+
+/**
+ * Terrain cells of the sample map: an L-shaped island, so the map shows outer corners,
+ * edges, the fill and an inner corner.
+ */
+const sampleIsland = (x: number, y: number) =>
+  x >= 1 && x <= 8 && y >= 1 && y <= 6 && !(x >= 5 && y <= 3);
+
+/** Tile ids (Tiled gids, 0 = empty) of the sample map, row by row. */
+export const sampleMapData = (tileset: TilesetDescription, firstGid = 1): number[] => {
+  const { width, height } = SAMPLE_MAP_SIZE;
+  const { terrain } = tileset;
+  return Array.from({ length: width * height }, (_, i) => {
+    const x = i % width;
+    const y = Math.floor(i / width);
+    if (!terrain) return firstGid; // Seamless textures simply cover the map
+    if (!sampleIsland(x, y)) return 0;
+    return firstGid + autotileIndex(terrain.layout, neighbourMask(sampleIsland, x, y));
+  });
+};
+
+/** A small Tiled map (JSON) that paints the tileset, referencing it as an external .tsx. */
+export const serializeTiledMap = (tileset: TilesetDescription, tilesetSource: string): string => {
+  const { width, height } = SAMPLE_MAP_SIZE;
+  return JSON.stringify({
+    type: 'map',
+    version: TILED_VERSION,
+    tiledversion: TILED_EDITOR_VERSION,
+    orientation: 'orthogonal',
+    renderorder: 'right-down',
+    width,
+    height,
+    tilewidth: tileset.tileWidth,
+    tileheight: tileset.tileHeight,
+    infinite: false,
+    compressionlevel: -1,
+    nextlayerid: 2,
+    nextobjectid: 1,
+    layers: [{
+      id: 1,
+      name: tileset.name,
+      type: 'tilelayer',
+      x: 0,
+      y: 0,
+      width,
+      height,
+      opacity: 1,
+      visible: true,
+      data: sampleMapData(tileset),
+    }],
+    tilesets: [{ firstgid: 1, source: tilesetSource }],
+  }, null, 2);
+};
+
+/**
+ * A Godot 4 TileSet with one atlas source. The texture is expected next to the resource
+ * at the project root (res://); autotile sets get terrain set 0 with peering bits set
+ * towards every neighbour that continues the terrain.
+ */
+export const serializeGodotTileSet = (tileset: TilesetDescription): string => {
+  const { terrain } = tileset;
+  const corners = terrain ? matchesCorners(terrain.layout) : false;
+
+  const atlas = [
+    '[sub_resource type="TileSetAtlasSource" id="TileSetAtlasSource_1"]',
+    'texture = ExtResource("1_texture")',
+  ];
+  if (tileset.margin > 0) atlas.push(`margins = Vector2i(${tileset.margin}, ${tileset.margin})`);
+  if (tileset.spacing > 0) atlas.push(`separation = Vector2i(${tileset.spacing}, ${tileset.spacing})`);
+  atlas.push(`texture_region_size = Vector2i(${tileset.tileWidth}, ${tileset.tileHeight})`);
+
+  for (let id = 0; id < tileset.tileCount; id++) {
+    const coords = `${id % tileset.columns}:${Math.floor(id / tileset.columns)}/0`;
+    atlas.push(`${coords} = 0`);
+    if (!terrain) continue;
+    const mask = terrain.masks[id];
+    atlas.push(`${coords}/terrain_set = 0`, `${coords}/terrain = 0`);
+    SIDES.forEach(side => {
+      if ((side.corner && !corners) || !(mask & side.bit)) return;
+      atlas.push(`${coords}/terrains_peering_bit/${side.godot} = 0`);
+    });
+  }
+
+  const resource = ['[resource]', `tile_size = Vector2i(${tileset.tileWidth}, ${tileset.tileHeight})`];
+  if (terrain) {
+    // Godot terrain modes: 0 = match corners and sides, 2 = match sides
+    resource.push(
+      `terrain_set_0/mode = ${corners ? 0 : 2}`,
+      `terrain_set_0/terrain_0/name = ${JSON.stringify(tileset.name)}`,
+      `terrain_set_0/terrain_0/color = ${GODOT_TERRAIN_COLOR}`,
+    );
+  }
+  resource.push('sources/0 = SubResource("TileSetAtlasSource_1")');
+
+  return [
+    '[gd_resource type="TileSet" load_steps=3 format=3]',
+    '',
+    `[ext_resource type="Texture2D" path="res://${tileset.imageName}" id="1_texture"]`,
+    '',
+    ...atlas,
+    '',
+    ...resource,
+    '',
+  ].join('\n');
+};
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest';
+import { ArtStyle } from '../types';
+import { EIGHT_DIRECTIONS, FOUR_DIRECTIONS, TurnaroundView, defaultDirections, planTurnaround, turnaroundSheetItems } from './turnaround';
+
+describe('defaultDirections', () => {
+  it('uses eight facings for isometric and four otherwise', () => {
+    expect(defaultDirections(ArtStyle.ISOMETRIC)).toEqual(EIGHT_DIRECTIONS);
+    expect(defaultDirections(ArtStyle.RETRO_16BIT)).toEqual(['down', 'left', 'right', 'up']);
+  });
+});
+
+describe('planTurnaround', () => {
+  it('generates every view when nothing is reused', () => {
+    const plan = planTurnaround(FOUR_DIRECTIONS, { keepReference: false, mirror: false });
+    expect(plan.every(step => step.source === 'generate')).toBe(true);
+  });
+
+  it('reuses the reference as the front view and mirrors the right side', () => {
+    const plan = planTurnaround(EIGHT_DIRECTIONS, { keepReference: true, mirror: true });
+    const sources = Object.fromEntries(plan.map(step => [step.direction, step.mirrorOf ?? step.source]));
+    expect(sources).toEqual({
+      'down': 'reference',
+      'left': 'generate',
+      'right': 'left',
+      'up': 'generate',
+      'down-left': 'generate',
+      'down-right': 'down-left',
+      'up-left': 'generate',
+      'up-right': 'up-left',
+    });
+  });
+
+  it('only mirrors when the counterpart is part of the set', () => {
+    const [step] = planTurnaround(['right'], { keepReference: false, mirror: true });
+    expect(step.source).toBe('generate');
+  });
+});
+
+describe('turnaroundSheetItems', () => {
+  it('orders finished views canonically and tags them by direction', () => {
+    const views: TurnaroundView[] = [
+      { direction: 'up', status: 'done', source: 'generate', url: 'u' },
+      { direction: 'left', status: 'error', source: 'generate', error: 'x' },
+      { direction: 'down', status: 'done', source: 'reference', url: 'd' },
+      { direction: 'right', status: 'running', source: 'mirror' },
+    ];
+    expect(turnaroundSheetItems(views, 'knight')).toEqual([
+      { src: 'd', name: 'knight_down', tag: 'down' },
+      { src: 'u', name: 'knight_up', tag: 'up' },
+    ]);
+  });
+});
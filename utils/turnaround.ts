@@ -0,0 +1,58 @@
+import { ArtStyle, Direction } from '../types';
+import { SheetItem } from './spriteSheet';
+
+// Turnarounds: one view of the same character per facing, in the row order
+// RPG Maker style sheets use (down, left, right, up), diagonals after.
+
+export const FOUR_DIRECTIONS: Direction[] = ['down', 'left', 'right', 'up'];
+export const EIGHT_DIRECTIONS: Direction[] = [...FOUR_DIRECTIONS, 'down-left', 'down-right', 'up-left', 'up-right'];
+
+/** Right-facing views can be mirrored from their left-facing counterpart. */
+export const MIRRORED_DIRECTIONS: Partial<Record<Direction, Direction>> = {
+  'right': 'left',
+  'down-right': 'down-left',
+  'up-right': 'up-left',
+};
+
+export interface TurnaroundStep {
+  direction: Direction;
+  source: 'reference' | 'generate' | 'mirror';
+  mirrorOf?: Direction;
+}
+
+export interface TurnaroundView {
+  direction: Direction;
+  status: 'pending' | 'running' | 'done' | 'error';
+  source: TurnaroundStep['source'];
+  url?: string;
+  error?: string;
+}
+
+/** Isometric games need the diagonals as well. */
+export const defaultDirections = (style: string): Direction[] =>
+  style === ArtStyle.ISOMETRIC ? EIGHT_DIRECTIONS : FOUR_DIRECTIONS;
+
+/**
+ * Decides how each view is produced. With `keepReference` the reference sprite is used
+ * as the front (down) view; with `mirror` right-facing views are flipped copies of the
+ * left-facing ones, which saves a request and keeps both sides identical.
+ */
+export const planTurnaround = (
+  directions: Direction[],
+  options: { keepReference: boolean; mirror: boolean }
+): TurnaroundStep[] =>
+  directions.map(direction => {
+    if (options.keepReference && direction === 'down') return { direction, source: 'reference' };
+    const counterpart = MIRRORED_DIRECTIONS[direction];
+    if (options.mirror && counterpart && directions.includes(counterpart)) {
+      return { direction, source: 'mirror', mirrorOf: counterpart };
+    }
+    return { direction, source: 'generate' };
+  });
+
+/** Finished views as sheet items in canonical order, tagged with their direction for row-per-tag layouts. */
+export const turnaroundSheetItems = (views: TurnaroundView[], baseName: string): SheetItem[] =>
+  EIGHT_DIRECTIONS.flatMap(direction => {
+    const view = views.find(v => v.direction === direction && v.status === 'done' && v.url);
+    return view ? [{ src: view.url!, name: `${baseName}_${direction}`, tag: direction }] : [];
+  });
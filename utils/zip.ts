@@ -0,0 +1,67 @@
+import { crc32 } from './crc32';
+
+// Store-only (uncompressed) ZIP writer. PNGs are already compressed and the
+// JSON files are small, so deflating would not buy much.
+
+export interface ZipEntry {
+  name: string;
+  data: Uint8Array | string;
+}
+
+const encoder = new TextEncoder();
+
+const uint32 = (value: number) => [value & 0xff, (value >>> 8) & 0xff, (value >>> 16) & 0xff, (value >>> 24) & 0xff];
+const uint16 = (value: number) => [value & 0xff, (value >>> 8) & 0xff];
+
+/** MS-DOS date and time fields as stored in zip headers. */
+const dosDateTime = (date: Date) => {
+  const time = (date.getHours() << 11) | (date.getMinutes() << 5) | Math.floor(date.getSeconds() / 2);
+  const day = ((date.getFullYear() - 1980) << 9) | ((date.getMonth() + 1) << 5) | date.getDate();
+  return { time, day };
+};
+
+export const createZip = (entries: ZipEntry[], date: Date = new Date()): Blob => {
+  const { time, day } = dosDateTime(date);
+  const parts: Uint8Array[] = [];
+  const central: Uint8Array[] = [];
+  let offset = 0;
+
+  for (const entry of entries) {
+    const name = encoder.encode(entry.name);
+    const data = typeof entry.data === 'string' ? encoder.encode(entry.data) : entry.data;
+    const crc = crc32(data);
+    // version 2.0, UTF-8 names (bit 11), method 0 (stored)
+    const common = [...uint16(20), ...uint16(0x0800), ...uint16(0), ...uint16(time), ...uint16(day),
+      ...uint32(crc), ...uint32(data.length), ...uint32(data.length), ...uint16(name.length), ...uint16(0)];
+
+    const local = new Uint8Array([...uint32(0x04034b50), ...common]);
+    parts.push(local, name, data);
+
+    central.push(new Uint8Array([
+      ...uint32(0x02014b50),
+      ...uint16(20), // version made by
+      ...common,
+      ...uint16(0), // comment length
+      ...uint16(0), // disk number
+      ...uint16(0), // internal attributes
+      ...uint32(0), // external attributes
+      ...uint32(offset),
+    ]), name);
+
+    offset += local.length + name.length + data.length;
+  }
+
+  const centralSize = central.reduce((sum, p) => sum + p.length, 0);
+  const end = new Uint8Array([
+    ...uint32(0x06054b50),
+    ...uint16(0),
+    ...uint16(0),
+    ...uint16(entries.length),
+    ...uint16(entries.length),
+    ...uint32(centralSize),
+    ...uint32(offset),
+    ...uint16(0),
+  ]);
+
+  return new Blob([...parts, ...central, end], { type: 'application/zip' });
+};